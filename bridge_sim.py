@@ -2,19 +2,14 @@
 from flask import Flask, render_template
 from flask_socketio import SocketIO, emit
 import json
+import os
 
 app = Flask(__name__)
 socketio = SocketIO(app, cors_allowed_origins="*")
 
-# Simplified vehicle database (JSON instead of XML)
-VEHICLES = {
-    "millennium_falcon": {
-        "name": "Millennium Falcon",
-        "type": "Freighter",
-        "shields": 100,
-        "weapons": ["Quad Laser Cannons", "Concussion Missiles"]
-    }
-}
+# Vehicle database shared with the Node server
+with open(os.path.join(os.path.dirname(os.path.abspath(__file__)), 'data', 'vehicles.json')) as vehicle_file:
+    VEHICLES = {vehicle['id']: vehicle for vehicle in json.load(vehicle_file)}
 
 # Track connected users
 users = {}
@@ -10,6 +10,9 @@ export default defineConfig({
         target: 'http://localhost:3000',
         ws: true,
       },
+      '/api': {
+        target: 'http://localhost:3000',
+      },
     },
   },
 })
\ No newline at end of file
@@ -0,0 +1,49 @@
+// Station skill checks.
+// A station names its check and the acting character's characteristic and
+// skill; the server sets the difficulty, builds the pool, adds Engineering's
+// bonuses for the system behind the check and rolls it from the room's 'checks'
+// stream. Gunnery also picks up what the helm's manoeuvres do to the crew's shots.
+
+import type { SkillCheckRequest } from '../src/protocol';
+import type { Random } from '../src/random';
+import {
+  SKILL_CHECKS,
+  applyDiceBonuses,
+  buildPool,
+  resolveRoll,
+  rollPool,
+  systemDiceBonuses,
+  upgradeAbility,
+  upgradeDifficulty
+} from '../src/dice';
+import { gunneryUpgrades } from '../src/maneuvers';
+import type { RoomState } from './simulation';
+
+type CheckSpec = Omit<SkillCheckRequest, 'room'> & { difficulty: number };
+
+export function rollSkillCheck(state: RoomState, request: CheckSpec, random: Random) {
+  const { system } = SKILL_CHECKS[request.check];
+  const bonuses = systemDiceBonuses(state.engineering.powerDistribution.powerAllocations[system]);
+  const pool = applyDiceBonuses(buildPool(request), bonuses);
+  if (request.check === 'gunnery') {
+    const helm = gunneryUpgrades(state.pilot.maneuvers);
+    upgradeAbility(pool, helm.ability);
+    upgradeDifficulty(pool, helm.difficulty);
+    pool.boost += helm.boost;
+  }
+  const dice = rollPool(pool, random);
+
+  return {
+    id: `check-${random.tag()}`,
+    check: request.check,
+    pool,
+    bonuses,
+    dice,
+    outcome: resolveRoll(dice)
+  };
+}
+
+// A station's own roll is made against its check's difficulty, whatever it asked for
+export function rollStationCheck(state: RoomState, request: SkillCheckRequest, random: Random) {
+  return rollSkillCheck(state, { ...request, difficulty: SKILL_CHECKS[request.check].difficulty }, random);
+}
@@ -0,0 +1,174 @@
+// Hostile combat AI.
+// Enemy contacts fly one of four behaviours around the crew's ship and fire on
+// the crew's ship from the room's 'combat' stream, with the guns whose mount
+// arcs cover it, against the odds the helm's manoeuvres leave them (see
+// maneuvers.ts). A hit drains the shield arc
+// facing the attacker, relative to the helm heading (see shields.ts); whatever
+// the arc cannot hold lands on a ship system behind it and on the hull (see
+// hull.ts), so Engineering, the helm and the GM see the damage in the next snapshot.
+
+import type { EnemyShip, FiringArc, HostileBehavior, PowerSystem, VehicleWeapon } from '../src/types';
+import type { HostileFire, HostileOrders } from '../src/protocol';
+import type { Random } from '../src/random';
+import { bearingBetween, pointOnScope } from '../src/space';
+import { hitChanceShift, incomingUpgrades } from '../src/maneuvers';
+import type { RoomState } from './simulation';
+import { getVehicle } from './vehicles';
+import { getWeapon } from './weapons';
+import { ARC_QUADRANTS, FIRING_ARCS, absorbHit, arcForBearing, bearingForArc } from './shields';
+import { sufferHit } from './hull';
+
+type WeaponsState = RoomState['weapons'];
+type EngineeringState = RoomState['engineering'];
+
+export const HOSTILE_BEHAVIORS: HostileBehavior[] = ['strafe', 'pursue', 'flee', 'focus'];
+
+// Systems a hit that gets through an arc can land on
+const ARC_SYSTEMS: Record<FiringArc, PowerSystem[]> = {
+  fore: ['weapons', 'sensors'],
+  aft: ['engines', 'lifeSupport'],
+  port: ['shields', 'communications'],
+  starboard: ['shields', 'communications']
+};
+
+// Radar range each behaviour holds, and how far off the aim bearing it wanders
+const BEHAVIOR_RANGES: Record<HostileBehavior, { min: number; max: number; sweep: number }> = {
+  strafe: { min: 35, max: 55, sweep: 60 },
+  pursue: { min: 15, max: 25, sweep: 10 },
+  focus: { min: 30, max: 40, sweep: 15 },
+  flee: { min: 90, max: 90, sweep: 0 }
+};
+
+const DEFAULT_WEAPON = 'Laser Cannon (Light)';
+const FIRE_RANGE = 75; // radar range a hostile opens fire from
+const FIRE_INTERVAL = 3; // seconds between shots, before Slow-Firing
+const BREAK_OFF_HULL = 0.25; // share of its hit points left when a hostile flees
+const SYSTEM_DAMAGE_SCALE = 0.5; // system health lost per point of damage past the shields
+
+const wrapDeg = (d: number) => ((d % 360) + 360) % 360;
+
+export function isHostile(contact: EnemyShip) {
+  return contact.faction === 'enemy' && contact.alive && !contact.wreck;
+}
+
+// Health drives the damage flags, efficiency and strain the same way for repairs and hits
+export function setSystemHealth(engineering: EngineeringState, name: string, health: number) {
+  const system = engineering.systemStatus[name];
+  if (!system) return;
+  const clamped = Math.max(0, Math.min(100, health));
+  engineering.systemStatus[name] = {
+    ...system,
+    health: clamped,
+    damaged: clamped < 80,
+    criticalDamage: clamped < 30,
+    efficiency: Math.max(20, Math.round(clamped * 0.8 + 20)),
+    strain: Math.max(0, Math.round((100 - clamped) * 0.5)),
+    repairProgress: undefined
+  };
+}
+
+// The AI fields a new enemy contact starts with; GM-chosen ones win
+export function hostileSpawn(random: Random, behavior?: HostileBehavior, focusArc?: FiringArc) {
+  return {
+    behavior: behavior ?? random.pick<HostileBehavior>(['strafe', 'strafe', 'pursue', 'focus']),
+    focusArc,
+    weaponTimer: random.range(2, 4)
+  };
+}
+
+function weakestArc(shields: WeaponsState['shields']) {
+  return FIRING_ARCS.reduce((weakest, arc) => (
+    shields[ARC_QUADRANTS[arc]] < shields[ARC_QUADRANTS[weakest]] ? arc : weakest
+  ));
+}
+
+// Where in local space a hostile heads next for its behaviour, picked by radar
+// bearing and range from the crew's ship; a focus attacker tracks its arc as the crew turns
+export function hostileWaypoint(contact: EnemyShip, state: RoomState, now: number, random: Random) {
+  const behavior = contact.behavior ?? 'strafe';
+  const range = BEHAVIOR_RANGES[behavior];
+  let bearing = contact.x + (behavior === 'strafe' ? random.range(20, range.sweep) : random.range(-range.sweep, range.sweep));
+  if (behavior === 'focus') {
+    contact.focusArc ??= weakestArc(state.weapons.shields);
+    bearing = bearingForArc(contact.focusArc, state.pilot.heading.x) + random.range(-range.sweep, range.sweep);
+  }
+  return {
+    ...pointOnScope(state.pilot.position, wrapDeg(bearing), random.range(range.min, range.max)),
+    reachTime: now + random.range(3000, 6000)
+  };
+}
+
+// The contact's heaviest gun from the weapon database that bears on its arc;
+// its missiles are not tracked, so it does not use them
+function hostileWeapon(contact: EnemyShip, arc: FiringArc) {
+  const mounts: VehicleWeapon[] = getVehicle(contact.vehicle)?.weapons ?? [{ name: DEFAULT_WEAPON, arcs: ['fore'] }];
+  let best: { mount: VehicleWeapon; weapon: NonNullable<ReturnType<typeof getWeapon>> } | undefined;
+  mounts.forEach(mount => {
+    if (!mount.arcs.includes(arc)) return;
+    const weapon = getWeapon(mount.name);
+    if (weapon && weapon.sim.damage > 0 && !weapon.sim.usesMissiles && (!best || weapon.sim.damage > best.weapon.sim.damage)) best = { mount, weapon };
+  });
+  return best;
+}
+
+// GM orders for one hostile or all of them; they re-route on the next tick
+export function orderHostiles(weapons: WeaponsState, orders: HostileOrders) {
+  weapons.enemies.forEach(contact => {
+    if (contact.faction !== 'enemy' || (orders.id && contact.id !== orders.id)) return;
+    contact.behavior = orders.behavior;
+    contact.focusArc = orders.focusArc;
+    contact.waypoint = undefined;
+  });
+}
+
+function fireOnCrew(state: RoomState, contact: EnemyShip, random: Random): Omit<HostileFire, 'room'> | null {
+  // The contact's own arc the crew's ship sits in, off its bow
+  const facing = arcForBearing(bearingBetween(contact.position, state.pilot.position), contact.heading);
+  const armed = hostileWeapon(contact, facing);
+  if (!armed) return null;
+  const { mount, weapon } = armed;
+  const arc = arcForBearing(contact.x, state.pilot.heading.x);
+  const shot = { attackerId: contact.id, weapon: weapon.name, arc, hit: false, shieldDamage: 0, systemDamage: 0, hullTrauma: 0 };
+
+  // Closer and slower is easier to hit; attackers that close in shoot better
+  // unless the crew has the advantage, and the helm's stance shifts the odds
+  const pursuing = contact.behavior === 'pursue' && state.pilot.maneuvers.advantage <= 0;
+  const hitChance = Math.max(0.1, Math.min(0.9,
+    0.6 - contact.y / 250 - state.pilot.speed / 400 + (pursuing ? 0.1 : 0) + hitChanceShift(incomingUpgrades(state.pilot.maneuvers))
+  ));
+  if (!random.chance(hitChance)) return shot;
+
+  const damage = weapon.sim.damage * weapon.sim.bolts * (1 + (mount.linked ?? 0));
+  const shieldDamage = absorbHit(state, arc, damage * weapon.sim.shieldMult);
+
+  const leftover = damage - shieldDamage / weapon.sim.shieldMult;
+  const systemDamage = Math.max(0, leftover * weapon.sim.hullMult * SYSTEM_DAMAGE_SCALE);
+  const hullTrauma = sufferHit(state, Math.max(0, leftover * weapon.sim.hullMult), weapon);
+  let system: PowerSystem | undefined;
+  if (systemDamage > 0) {
+    system = random.pick(ARC_SYSTEMS[arc]);
+    const status = state.engineering.systemStatus[system];
+    if (status) setSystemHealth(state.engineering, system, status.health - systemDamage);
+  }
+  return { ...shot, hit: true, shieldDamage, systemDamage, system, hullTrauma };
+}
+
+// Hostiles break off when beaten and fire when in range
+export function tickHostiles(state: RoomState, dt: number, random: Random) {
+  const shots: Omit<HostileFire, 'room'>[] = [];
+
+  state.weapons.enemies.filter(isHostile).forEach(contact => {
+    if (contact.behavior !== 'flee' && contact.maxHp && contact.hp < contact.maxHp * BREAK_OFF_HULL) {
+      contact.behavior = 'flee';
+      contact.waypoint = undefined;
+    }
+
+    contact.weaponTimer = (contact.weaponTimer ?? 0) - dt;
+    if (contact.weaponTimer > 0 || contact.behavior === 'flee' || contact.y > FIRE_RANGE) return;
+
+    const shot = fireOnCrew(state, contact, random);
+    contact.weaponTimer = FIRE_INTERVAL + (shot ? getWeapon(shot.weapon)?.sim.cooldown ?? 0 : 0) + random.range(0, 1);
+    if (shot) shots.push(shot);
+  });
+  return shots;
+}
@@ -0,0 +1,130 @@
+// Critical hits on the crew's ship.
+// Rolls or applies an entry from the shared table (src/criticals.ts) and
+// queues the repair that clears it. A critical stays in
+// engineering.criticals until that repair completes or the GM clears it, and
+// the power model, shields, helm, Comms and Weapons read its effect from there.
+// Critical repairs are the server's: Engineering can crew them but not cancel them.
+
+import type { ActiveCritical, PowerSystem, RepairTask } from '../src/types';
+import type { CriticalHitOrder } from '../src/protocol';
+import type { Random } from '../src/random';
+import {
+  CRITICAL_MODIFIER_PER_HIT,
+  criticalForRoll,
+  criticalsWith,
+  getCriticalHit,
+  hyperdriveBlocker,
+  type CriticalHit
+} from '../src/criticals';
+import type { RoomState } from './simulation';
+import { getVehicle } from './vehicles';
+import { setSystemHealth } from './combat';
+import { coveredArcs } from './shields';
+import { addSystemStrain } from './hull';
+import { discardPlot } from './hyperdrive';
+import { freeDroids } from './repairs';
+
+type EngineeringState = RoomState['engineering'];
+
+const SYSTEM_NAMES: PowerSystem[] = ['weapons', 'shields', 'engines', 'sensors', 'lifeSupport', 'communications'];
+
+// Repair size, health knocked off and droid time for each severity
+const SEVERITY_DAMAGE: Record<CriticalHit['severity'], { damageType: RepairTask['damageType']; healthLoss: number; timeRequired: number }> = {
+  1: { damageType: 'minor', healthLoss: 10, timeRequired: 30 },
+  2: { damageType: 'major', healthLoss: 15, timeRequired: 90 },
+  3: { damageType: 'critical', healthLoss: 20, timeRequired: 180 },
+  4: { damageType: 'critical', healthLoss: 25, timeRequired: 180 }
+};
+
+const FIRE_DAMAGE = 0.5; // health a burning system loses per second
+const COMMS_BANDS = 8; // 100 MHz bands from 100 to 899.9 a burnout can take
+
+function rollCritical(engineering: EngineeringState, order: CriticalHitOrder, random: Random) {
+  if (order.entry) return { entry: getCriticalHit(order.entry), roll: 0 };
+  const roll = order.roll ?? random.int(1, 100) + (order.modifier ?? 0) + engineering.criticals.length * CRITICAL_MODIFIER_PER_HIT;
+  return { entry: criticalForRoll(Math.max(1, roll)), roll };
+}
+
+// Pin the effect down to the arc, mount or band it took out
+function effectTarget(state: RoomState, entry: CriticalHit, random: Random): Partial<ActiveCritical> {
+  switch (entry.effect) {
+    case 'shield_arc_down': {
+      const arcs = coveredArcs(state);
+      return arcs.length > 0 ? { arc: random.pick(arcs) } : {};
+    }
+    case 'weapon_mount_lost': {
+      const online = (getVehicle(state.ship.vehicle)?.weapons ?? [])
+        .map(mount => mount.name)
+        .filter(name => !state.engineering.criticals.some(critical => critical.weapon === name));
+      return online.length > 0 ? { weapon: random.pick(online) } : {};
+    }
+    case 'comms_band_lost': {
+      const min = random.int(1, COMMS_BANDS) * 100;
+      return { band: { min, max: min + 99.9 } };
+    }
+    default:
+      return {};
+  }
+}
+
+// Apply a critical hit and queue its repair; returns what landed
+export function applyCritical(state: RoomState, order: CriticalHitOrder, random: Random, now = Date.now()) {
+  const { engineering } = state;
+  const { entry, roll } = rollCritical(engineering, order, random);
+  if (!entry) return null;
+
+  const id = `crit-${random.tag()}`;
+  const system = entry.system === 'random' ? random.pick(SYSTEM_NAMES) : entry.system;
+  const { damageType, healthLoss, timeRequired } = SEVERITY_DAMAGE[entry.severity];
+  const task: RepairTask = {
+    id: `repair_${now}_${random.tag()}`,
+    systemName: system,
+    damageType,
+    difficulty: entry.severity,
+    timeRequired,
+    progress: 0,
+    // A spare droid starts on it; with none free it waits for Engineering to assign some
+    assignedCrew: Math.min(1, Math.max(0, freeDroids(state))),
+    juryRigged: false,
+    criticalId: id
+  };
+  const critical: ActiveCritical = {
+    id,
+    entry: entry.id,
+    name: entry.name,
+    roll,
+    system,
+    effect: entry.effect,
+    ...effectTarget(state, entry, random),
+    repairTaskId: task.id,
+    timestamp: now
+  };
+
+  // A jump being plotted or charged winds down, and its coordinates are lost
+  if (hyperdriveBlocker([critical])) discardPlot(state.pilot);
+  if (entry.effect === 'system_strain') addSystemStrain(state, 1);
+  engineering.criticals.push(critical);
+  engineering.repairQueue.push(task);
+  const status = engineering.systemStatus[system];
+  if (status) setSystemHealth(engineering, system, status.health - healthLoss);
+  return critical;
+}
+
+// GM override: the critical and its repair both go
+export function clearCritical(engineering: EngineeringState, id: string) {
+  engineering.criticals = engineering.criticals.filter(critical => critical.id !== id);
+  engineering.repairQueue = engineering.repairQueue.filter(task => task.criticalId !== id);
+}
+
+// A finished repair puts its critical right
+export function repairCritical(engineering: EngineeringState, task: RepairTask) {
+  if (task.criticalId) engineering.criticals = engineering.criticals.filter(critical => critical.id !== task.criticalId);
+}
+
+// Fires keep burning their system down until they are put out
+export function tickCriticals(engineering: EngineeringState, dt: number) {
+  criticalsWith(engineering.criticals, 'fire').forEach(fire => {
+    const status = engineering.systemStatus[fire.system];
+    if (status && status.health > 0) setSystemHealth(engineering, fire.system, status.health - FIRE_DAMAGE * dt);
+  });
+}
@@ -0,0 +1,156 @@
+// Station event catalogue.
+// Every event a client may send is declared here. Events with dedicated
+// handlers in server/index.ts are listed in HANDLED_EVENTS; the rest are relayed
+// to their audience by registerRelays. Anything else is rejected.
+
+import type { StationName } from '../src/types';
+import {
+  emitToClients,
+  onClientEvent,
+  type BridgeServer,
+  type ClientEventName,
+  type ClientListener,
+  type ClientToServerEvents,
+  type ServerToClientEvents,
+  type ServerSocket
+} from '../src/protocol';
+import * as rooms from './rooms';
+import {
+  applyWeaponFired,
+  applySalvage,
+  mergeStationState,
+  type RoomState
+} from './simulation';
+
+// Events server/index.ts handles itself
+export const HANDLED_EVENTS: ClientEventName[] = [
+  'join',
+  'list_rooms',
+  'create_room',
+  'archive_room',
+  'player_action',
+  'gm_broadcast',
+  'comm_broadcast',
+  'pin_ship',
+  'double_pin_ship',
+  'skill_check',
+  'save_snapshot',
+  'load_snapshot',
+  'list_snapshots'
+];
+
+// Each relayed event and the event its receivers get
+interface RelayOutgoing {
+  state_update: 'state_update';
+  engineering_action: 'engineering_action';
+  engineering_performance: 'engineering_performance';
+  weapon_fired: 'weapon_fired';
+  salvage_complete: 'salvage_complete';
+  targeting_data_update: 'targeting_data_update';
+  lrc_update: 'lrc_update';
+  lrc_request: 'lrc_request_from_weapons';
+  actuator_stream: 'actuator_frame';
+  debug_room_request: 'debug_room_response';
+}
+
+type RelayEventName = keyof RelayOutgoing;
+type RelayPayload<E extends RelayEventName> = Parameters<ClientToServerEvents[E]>[0];
+type RelayedArgs<E extends RelayEventName> = Parameters<ServerToClientEvents[RelayOutgoing[E]]>;
+type Audience = 'room' | 'others' | 'gm' | 'sender' | { station: StationName };
+
+interface RelayRoute<E extends RelayEventName> {
+  audience: Audience;
+  as?: RelayOutgoing[E];
+  apply?: (state: RoomState, data: RelayPayload<E>) => void;
+  respond?: (roomName: string, roomData: rooms.Room | undefined) => RelayedArgs<E>[0];
+}
+
+// Only 'sender' events may change the payload: a forwarded one, stamped with
+// the room, must already be what its receivers expect
+type CheckedRoute<E extends RelayEventName> = RelayRoute<E> &
+  ({ audience: 'sender' } | (RelayPayload<E> & { room: string } extends RelayedArgs<E>[0] ? unknown : never));
+
+// Audiences:
+//   'room'    - everyone in the room, sender included
+//   'others'  - everyone in the room except the sender
+//   'gm'      - Game Master stations in the room
+//   'sender'  - straight back to the sender (request/response)
+//   { station } - every seat at that station in the room
+// `as` renames the event for the receivers (RelayOutgoing), `apply` folds it into the room state
+// and `respond` builds the payload for 'sender' events.
+export const RELAY_EVENTS: { [E in RelayEventName]: CheckedRoute<E> } = {
+  state_update: {
+    audience: 'gm',
+    apply: (state, data) => mergeStationState(state, data.station, data.state)
+  },
+  engineering_action: { audience: 'gm' },
+  engineering_performance: { audience: 'gm' },
+  weapon_fired: { audience: 'gm', apply: applyWeaponFired },
+  salvage_complete: { audience: 'gm', apply: applySalvage },
+  targeting_data_update: { audience: { station: 'weapons' } },
+  lrc_update: { audience: { station: 'weapons' } },
+  lrc_request: { audience: { station: 'communications' }, as: 'lrc_request_from_weapons' },
+  actuator_stream: { audience: 'gm', as: 'actuator_frame' },
+  debug_room_request: {
+    audience: 'sender',
+    as: 'debug_room_response',
+    respond: (roomName, roomData) => ({
+      room: roomName,
+      exists: Boolean(roomData),
+      userCount: roomData ? Object.keys(roomData.users).length : 0,
+      users: roomData ? Object.values(roomData.users) : []
+    })
+  }
+};
+
+export function isKnownEvent(event: string) {
+  return HANDLED_EVENTS.includes(event as ClientEventName) || Object.prototype.hasOwnProperty.call(RELAY_EVENTS, event);
+}
+
+function describeAudience(audience: Audience) {
+  return typeof audience === 'string' ? audience : `station:${audience.station}`;
+}
+
+function registerRelay<E extends RelayEventName>(io: BridgeServer, socket: ServerSocket, event: E) {
+  const route: RelayRoute<E> = RELAY_EVENTS[event];
+
+  onClientEvent(socket, event, ((data: RelayPayload<E>) => {
+    const roomName = data?.room || socket.data.room || rooms.DEFAULT_ROOM;
+    const roomData = rooms.getRoom(roomName);
+    // Relays forward the sender's payload untouched, only the name may change
+    const outgoing = (route.as ?? event) as RelayOutgoing[E];
+
+    if (route.audience === 'sender') {
+      emitToClients(socket, outgoing, ...([route.respond!(roomName, roomData)] as RelayedArgs<E>));
+      console.log(`Relay ${event} -> ${outgoing} (sender) in room ${roomName}`);
+      return;
+    }
+
+    if (!roomData) return;
+    if (route.apply) route.apply(roomData.gameState, data);
+
+    const payload = [{ ...data, room: roomName }] as RelayedArgs<E>;
+    if (route.audience === 'room') {
+      emitToClients(io.to(roomName), outgoing, ...payload);
+    } else if (route.audience === 'others') {
+      emitToClients(socket.to(roomName), outgoing, ...payload);
+    } else {
+      const station = route.audience === 'gm' ? 'gm' : route.audience.station;
+      const targets = rooms.stationSockets(roomData, station);
+      if (targets.length > 0) emitToClients(io.to(targets), outgoing, ...payload);
+    }
+
+    console.log(`Relay ${event} -> ${outgoing} (${describeAudience(route.audience)}) in room ${roomName}`);
+  }) as ClientListener<E>);
+}
+
+// Register the relay handlers and the unknown-event guard on a socket
+export function registerRelays(io: BridgeServer, socket: ServerSocket) {
+  socket.onAny((event: string) => {
+    if (isKnownEvent(event)) return;
+    console.warn(`Rejected unknown event "${event}" from ${socket.id}`);
+    emitToClients(socket, 'event_rejected', { event, reason: 'unknown_event' });
+  });
+
+  (Object.keys(RELAY_EVENTS) as RelayEventName[]).forEach(event => registerRelay(io, socket, event));
+}
@@ -0,0 +1,232 @@
+// Galaxy database and hyperspace route planning.
+// Systems and hyperlanes live in data/galaxy.json (or the file named by
+// GALAXY_DB) and are loaded once at start; every station receives them as
+// galaxy_db. The Pilot's navicomputer plots the fastest course between two
+// systems: along the hyperlanes where it can, with short uncharted hops off
+// them at double the time. Each run along one lane is a single jump, so a
+// plotted route is flown one leg per jump, and arriving at a system moves the
+// sensor traffic to its region.
+
+import fs from 'fs';
+import path from 'path';
+import type { Galaxy, GalaxySystem, Hyperlane, PlottedRoute, RouteLeg } from '../src/types';
+import { criticalsWith } from '../src/criticals';
+import type { RoomState } from './simulation';
+import { isShipRegion } from './traffic';
+
+const GALAXY_DB = process.env.GALAXY_DB || path.join(__dirname, '..', 'data', 'galaxy.json');
+
+export const DEFAULT_SYSTEM = 'coruscant';
+
+const PARSECS_PER_SQUARE = 1750; // one galactic grid square
+const HOURS_PER_SQUARE = 1; // a class 1 hyperdrive along a hyperlane
+const OFF_LANE_FACTOR = 2; // uncharted hops take twice as long
+const OFF_LANE_RANGE = 5; // grid squares the navicomputer will hop off the lanes
+
+interface Hop {
+  to: string;
+  lane: string | null;
+  squares: number;
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+// Returns what is wrong with an entry, or null when it can be used
+function checkSystem(entry: any): string | null {
+  if (typeof entry?.id !== 'string' || !entry.id) return 'missing id';
+  if (typeof entry.name !== 'string' || !entry.name) return 'missing name';
+  if (!isShipRegion(entry.region)) return `unknown region ${entry.region}`;
+  if (!isNumber(entry.x) || !isNumber(entry.y)) return 'x and y must be numbers';
+  return null;
+}
+
+function checkLane(entry: any, systems: Map<string, GalaxySystem>): string | null {
+  if (typeof entry?.name !== 'string' || !entry.name) return 'missing name';
+  if (!Array.isArray(entry.systems) || entry.systems.length < 2) return 'needs at least two systems';
+  const unknown = entry.systems.find((id: unknown) => typeof id !== 'string' || !systems.has(id));
+  return unknown === undefined ? null : `unknown system ${unknown}`;
+}
+
+// A broken entry is skipped with a warning; an unreadable file stops the server
+function loadGalaxy(file: string): Galaxy {
+  const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(data?.systems) || !Array.isArray(data.hyperlanes)) {
+    throw new Error(`${file} must hold systems and hyperlanes lists`);
+  }
+
+  const systems = new Map<string, GalaxySystem>();
+  data.systems.forEach((entry: any, index: number) => {
+    const problem = checkSystem(entry) || (systems.has(entry.id) ? 'duplicate id' : null);
+    if (problem) {
+      console.warn(`Skipping system ${entry?.id ?? `#${index}`} in ${file}: ${problem}`);
+      return;
+    }
+    systems.set(entry.id, entry);
+  });
+
+  const hyperlanes: Hyperlane[] = [];
+  data.hyperlanes.forEach((entry: any, index: number) => {
+    const problem = checkLane(entry, systems);
+    if (problem) {
+      console.warn(`Skipping hyperlane ${entry?.name ?? `#${index}`} in ${file}: ${problem}`);
+      return;
+    }
+    hyperlanes.push(entry);
+  });
+
+  if (!systems.has(DEFAULT_SYSTEM)) throw new Error(`${file} has no ${DEFAULT_SYSTEM} for ships to start at`);
+  return { systems: Array.from(systems.values()), hyperlanes };
+}
+
+const squaresBetween = (a: GalaxySystem, b: GalaxySystem) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Every hop the navicomputer knows from each system: the next stop either way
+// along each lane, and every system close enough to reach off the lanes
+function buildHops(galaxy: Galaxy) {
+  const hops = new Map<string, Hop[]>(galaxy.systems.map(system => [system.id, []]));
+  const byId = new Map(galaxy.systems.map(system => [system.id, system]));
+  galaxy.hyperlanes.forEach(lane => {
+    lane.systems.slice(1).forEach((id, index) => {
+      const from = byId.get(lane.systems[index])!;
+      const to = byId.get(id)!;
+      const squares = squaresBetween(from, to);
+      hops.get(from.id)!.push({ to: to.id, lane: lane.name, squares });
+      hops.get(to.id)!.push({ to: from.id, lane: lane.name, squares });
+    });
+  });
+  galaxy.systems.forEach(from => {
+    galaxy.systems.forEach(to => {
+      const squares = squaresBetween(from, to);
+      if (from.id !== to.id && squares <= OFF_LANE_RANGE) hops.get(from.id)!.push({ to: to.id, lane: null, squares });
+    });
+  });
+  return hops;
+}
+
+const galaxy = loadGalaxy(GALAXY_DB);
+const hopsFrom = buildHops(galaxy);
+console.log(`🌌 Loaded ${galaxy.systems.length} systems and ${galaxy.hyperlanes.length} hyperlanes from ${GALAXY_DB}`);
+
+export function listGalaxy() {
+  return galaxy;
+}
+
+export function getSystem(id: unknown) {
+  return typeof id === 'string' ? galaxy.systems.find(system => system.id === id) : undefined;
+}
+
+export function isSystemId(id: unknown): id is string {
+  return getSystem(id) !== undefined;
+}
+
+// Other systems within off-lane range of one, nearest first
+export function systemsNear(id: string) {
+  const origin = getSystem(id);
+  if (!origin) return [];
+  return galaxy.systems
+    .filter(system => system.id !== id && squaresBetween(origin, system) <= OFF_LANE_RANGE)
+    .sort((a, b) => squaresBetween(origin, a) - squaresBetween(origin, b));
+}
+
+// Where a blind jump of some distance comes out: the system in off-lane range
+// whose distance is closest to it, or none when nothing is in range
+export function blindJumpTarget(from: string, distance: number) {
+  const origin = getSystem(from);
+  if (!origin) return null;
+  const offBy = (system: GalaxySystem) => Math.abs(squaresBetween(origin, system) * PARSECS_PER_SQUARE - distance);
+  return systemsNear(from).sort((a, b) => offBy(a) - offBy(b))[0] ?? null;
+}
+
+// Hyperspace distance a hyperdrive covers along the lanes in a number of hours
+export function hyperspaceDistance(hours: number, hyperdrive: number) {
+  return Math.round((hours / (HOURS_PER_SQUARE * hyperdrive)) * PARSECS_PER_SQUARE);
+}
+
+const hopCost = (hop: Hop) => hop.squares * (hop.lane ? 1 : OFF_LANE_FACTOR);
+
+// Fastest chain of hops between two systems (Dijkstra), or null when there is none
+function fastestHops(from: string, to: string) {
+  const cost = new Map<string, number>([[from, 0]]);
+  const previous = new Map<string, { from: string; hop: Hop }>();
+  const open = new Set([from]);
+
+  while (open.size > 0) {
+    const current = Array.from(open).reduce((best, id) => (cost.get(id)! < cost.get(best)! ? id : best));
+    open.delete(current);
+    if (current === to) break;
+    hopsFrom.get(current)?.forEach(hop => {
+      const total = cost.get(current)! + hopCost(hop);
+      if (total >= (cost.get(hop.to) ?? Infinity)) return;
+      cost.set(hop.to, total);
+      previous.set(hop.to, { from: current, hop });
+      open.add(hop.to);
+    });
+  }
+
+  if (!previous.has(to)) return null;
+  const chain: Array<{ from: string; hop: Hop }> = [];
+  for (let id = to; id !== from; id = previous.get(id)!.from) chain.unshift(previous.get(id)!);
+  return chain;
+}
+
+function totals(destination: string, legs: RouteLeg[]): PlottedRoute {
+  return {
+    destination,
+    legs,
+    distance: legs.reduce((total, leg) => total + leg.distance, 0),
+    hours: round1(legs.reduce((total, leg) => total + leg.hours, 0)),
+    hypermatter: round1(legs.reduce((total, leg) => total + leg.hypermatter, 0))
+  };
+}
+
+// Plot a course for a hyperdrive class burning consumptionRate tons an hour.
+// Hops along the same lane run together into one leg.
+export function planRoute(from: string, to: string, hyperdrive: number, consumptionRate: number): PlottedRoute | null {
+  if (from === to || !isSystemId(from) || !isSystemId(to)) return null;
+  const chain = fastestHops(from, to);
+  if (!chain) return null;
+
+  const runs: Array<{ lane: string | null; stops: string[]; cost: number; squares: number }> = [];
+  chain.forEach(({ from: stop, hop }) => {
+    const last = runs[runs.length - 1];
+    if (last && hop.lane && last.lane === hop.lane) {
+      last.stops.push(hop.to);
+      last.cost += hopCost(hop);
+      last.squares += hop.squares;
+    } else {
+      runs.push({ lane: hop.lane, stops: [stop, hop.to], cost: hopCost(hop), squares: hop.squares });
+    }
+  });
+
+  const legs = runs.map((run): RouteLeg => {
+    const hours = round1(Math.max(0.1, run.cost * HOURS_PER_SQUARE * hyperdrive));
+    return {
+      from: run.stops[0],
+      to: run.stops[run.stops.length - 1],
+      lane: run.lane,
+      stops: run.stops,
+      distance: Math.round(run.squares * PARSECS_PER_SQUARE),
+      hours,
+      hypermatter: round1(hours * consumptionRate)
+    };
+  });
+  return totals(to, legs);
+}
+
+// The course left once its next leg has been flown, or null at the destination
+export function dropLeg(route: PlottedRoute): PlottedRoute | null {
+  const legs = route.legs.slice(1);
+  return legs.length > 0 ? totals(route.destination, legs) : null;
+}
+
+// Why the navicomputer cannot plot a course to a system right now, or null when it can
+export function checkRoutePlot(state: RoomState, destination: string): string | null {
+  const { pilot, engineering } = state;
+  const failure = criticalsWith(engineering.criticals, 'navicomputer_failure')[0];
+  if (failure) return `the ship has suffered ${failure.name}`;
+  if (pilot.hyperdriveStatus === 'charging' || pilot.hyperdriveStatus === 'jumping') return 'the hyperdrive is already committed to a jump';
+  if (pilot.currentSystem === destination) return `the ship is already at ${getSystem(destination)?.name ?? destination}`;
+  if (!fastestHops(pilot.currentSystem, destination)) return `no course reaches ${getSystem(destination)?.name ?? destination}`;
+  return null;
+}
@@ -0,0 +1,121 @@
+// Hull trauma and system strain.
+// The crew's ship takes hull trauma from hits that get past its shields and
+// armor, and system strain from ion hits, power overloads, emergency power and
+// Engineering's boosts. Strain past the vehicle's threshold disables the ship:
+// the helm and guns go dead until Engineering vents it back under. Hull trauma
+// past the threshold destroys it, and only the GM can bring it back.
+
+import type { ShipCondition, SystemBoost, WeaponRecord } from '../src/types';
+import type { ShipConditionOrder } from '../src/protocol';
+import { NOMINAL_POWER } from '../src/power';
+import type { RoomState } from './simulation';
+import { DEFAULT_PLAYER_VEHICLE, getVehicle } from './vehicles';
+
+type EngineeringState = RoomState['engineering'];
+
+const DAMAGE_PER_POINT = 2; // the radar's damage per rulebook damage point (see weapons.ts)
+const OVERLOAD_STRAIN = 0.005; // strain per second for each power unit allocated above nominal
+const EMERGENCY_POWER_STRAIN = 0.1; // strain per second while emergency power is on
+const STRAIN_RECOVERY = 0.05; // strain an unstressed, working ship sheds per second
+const BOOST_STRAIN_PER_POINT = 10; // boost strain cost (a system's %) per point of ship strain
+const STRAIN_VENT_SHARE = 0.25; // share of the strain threshold one vent sheds
+const STRAIN_VENT_COOLDOWN = 20; // seconds between vents
+
+export function shipThresholds(state: RoomState) {
+  const vehicle = getVehicle(state.ship.vehicle) ?? getVehicle(DEFAULT_PLAYER_VEHICLE)!;
+  return { hullTrauma: vehicle.hullTrauma, systemStrain: vehicle.systemStrain };
+}
+
+export function createShipCondition() {
+  return { hullTrauma: 0, systemStrain: 0, condition: 'operational' as ShipCondition, strainVentTimer: 0 };
+}
+
+// Past a threshold the ship is disabled or destroyed; a disabled ship comes
+// back once its strain is under the threshold again
+function updateCondition(state: RoomState) {
+  const { ship } = state;
+  if (ship.condition === 'destroyed') return;
+  const thresholds = shipThresholds(state);
+  ship.condition = ship.hullTrauma > thresholds.hullTrauma ? 'destroyed'
+    : ship.systemStrain > thresholds.systemStrain ? 'disabled'
+    : 'operational';
+}
+
+export function addHullTrauma(state: RoomState, amount: number) {
+  if (!Number.isFinite(amount) || amount <= 0) return;
+  state.ship.hullTrauma += amount;
+  updateCondition(state);
+}
+
+export function addSystemStrain(state: RoomState, amount: number) {
+  if (!Number.isFinite(amount) || amount <= 0) return;
+  state.ship.systemStrain += amount;
+  updateCondition(state);
+}
+
+// A hit that got through the shields: its damage less the hull's armor lands as
+// hull trauma, or as system strain for ion weapons. Returns the points taken.
+export function sufferHit(state: RoomState, damage: number, weapon: WeaponRecord) {
+  const armor = getVehicle(state.ship.vehicle)?.armor ?? 0;
+  const points = Math.max(0, Math.round(damage / DAMAGE_PER_POINT) - armor);
+  if (weapon.qualities.Ion !== undefined) addSystemStrain(state, points);
+  else addHullTrauma(state, points);
+  return points;
+}
+
+// Ship strain a boost costs when Engineering brings it online
+export function boostStrain(boost: SystemBoost) {
+  return boost.strainCost / BOOST_STRAIN_PER_POINT;
+}
+
+// Strain per second from allocations above nominal and emergency power
+function overloadStrain(engineering: EngineeringState) {
+  const { powerAllocations, emergencyPower } = engineering.powerDistribution;
+  const overload = Object.values(powerAllocations).reduce((total, amount) => total + Math.max(0, amount - NOMINAL_POWER), 0);
+  return overload * OVERLOAD_STRAIN + (emergencyPower ? EMERGENCY_POWER_STRAIN : 0);
+}
+
+// Why Engineering cannot vent strain right now, or null when it can
+export function checkStrainVent(state: RoomState): string | null {
+  const { ship } = state;
+  if (ship.condition === 'destroyed') return 'the ship has been destroyed';
+  if (ship.systemStrain <= 0 && ship.condition === 'operational') return 'there is no strain to vent';
+  if (ship.strainVentTimer > 0) return `the vents are cycling for ${Math.ceil(ship.strainVentTimer)} s`;
+  return null;
+}
+
+// Engineering dumps a share of the ship's strain
+export function ventStrain(state: RoomState) {
+  if (checkStrainVent(state)) return;
+  const { ship } = state;
+  ship.systemStrain = Math.max(0, ship.systemStrain - shipThresholds(state).systemStrain * STRAIN_VENT_SHARE);
+  ship.strainVentTimer = STRAIN_VENT_COOLDOWN;
+  updateCondition(state);
+}
+
+// GM override; a named condition wins over the pools
+export function setShipCondition(state: RoomState, order: ShipConditionOrder) {
+  const { ship } = state;
+  if (order.hullTrauma !== undefined) ship.hullTrauma = Math.max(0, order.hullTrauma);
+  if (order.systemStrain !== undefined) ship.systemStrain = Math.max(0, order.systemStrain);
+  if (order.condition) {
+    ship.condition = order.condition;
+    return;
+  }
+  if (ship.condition === 'destroyed' && order.hullTrauma !== undefined) ship.condition = 'operational';
+  updateCondition(state);
+}
+
+// Overloads build strain; a working ship with nothing overloaded sheds it
+export function tickHull(state: RoomState, dt: number) {
+  const { ship } = state;
+  ship.strainVentTimer = Math.max(0, ship.strainVentTimer - dt);
+  if (ship.condition === 'destroyed') return;
+
+  const overload = overloadStrain(state.engineering);
+  if (overload > 0) {
+    addSystemStrain(state, overload * dt);
+  } else if (ship.condition === 'operational') {
+    ship.systemStrain = Math.max(0, ship.systemStrain - STRAIN_RECOVERY * dt);
+  }
+}
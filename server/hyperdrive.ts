@@ -0,0 +1,325 @@
+// Hyperdrive jump sequence.
+// A jump runs ready → plotting → plotted → charging → jumping → cooldown.
+// Plotting rolls the Pilot's Astrogation check: a failure leaves no
+// coordinates, threat and advantage stretch or shorten the trip, and a despair
+// sends the ship somewhere it did not plan to go. Charging takes longer the
+// less power Engineering gives the engines. The drive will not charge or jump
+// while an interdiction field or a gravity well holds the ship, without the
+// hypermatter for the leg, or with a damaged hyperdrive or navicomputer. A
+// blind jump, flown on a hand-set duration with no course, comes out at the
+// system nearest the distance it covers. An interdiction or the GM can pull the
+// ship out mid-jump at the nearest stop along its leg; a GM who disables the
+// drive damages it, and it stays down until Engineering repairs it.
+
+import type { AstrogationPlot, GalaxySystem, RouteLeg, ShipProfile } from '../src/types';
+import type { AstrogationOrder, GmBroadcastMap } from '../src/protocol';
+import type { Random } from '../src/random';
+import { NOMINAL_POWER } from '../src/power';
+import { criticalsWith, hyperdriveBlocker } from '../src/criticals';
+import { describeOutcome } from '../src/dice';
+import type { RoomState } from './simulation';
+import { getShipProfile } from './vehicles';
+import { blindJumpTarget, dropLeg, getSystem, hyperspaceDistance, planRoute, systemsNear } from './galaxy';
+import { rollSkillCheck } from './checks';
+import { addSystemStrain } from './hull';
+
+type PilotState = RoomState['pilot'];
+type HyperdriveAction = GmBroadcastMap['hyperdrive_control']['action'];
+
+const PLOT_TIME = 4; // seconds the navicomputer takes over a plot
+const HYPERDRIVE_CHARGE_TIME = 5; // seconds at nominal engine power
+const MIN_CHARGE_POWER = 0.25; // engine power level the charge time stops stretching at
+const HYPERDRIVE_SECONDS_PER_HOUR = 3; // 3 seconds per planned hour for the table
+const HYPERDRIVE_COOLDOWN_TIME = 10;
+const JUMP_FUEL_COST = 15; // fuel units burned by a jump
+const MIN_JUMP_FUEL = 20; // fuel level (%) the drive will not jump below
+const HAZARD_DURATION = 10; // seconds a GM navigation hazard lasts
+const MISJUMP_STRAIN = 2; // system strain from coming out of hyperspace off course
+const PULL_OUT_STRAIN = 1; // system strain from being dragged out of hyperspace
+
+// Astrogation difficulty by what the leg flies through
+const PLOT_DIFFICULTY = { lane: 1, uncharted: 2, blind: 3 };
+// Jump time each net threat adds, and each advantage (up to two) and triumph takes off
+const THREAT_DELAY = 0.1;
+const ADVANTAGE_GAIN = 0.1;
+const TRIUMPH_GAIN = 0.25;
+const MIN_ETA_FACTOR = 0.5;
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+
+// Fuel is tracked as a share of the tank, so a bigger tank drains slower
+export const fuelShare = (units: number, profile: ShipProfile) => (units / profile.fuelCapacity) * 100;
+
+// A crippled engine room leaves the crew on the backup hyperdrive, when there is one
+export function hyperdriveClass(state: RoomState) {
+  const { primary, backup } = getShipProfile(state.ship.vehicle).hyperdrive;
+  return state.engineering.systemStatus.engines?.criticalDamage && backup !== null ? backup : primary;
+}
+
+/* ---------- PLANNING ---------- */
+
+// New plans void any coordinates plotted for the old one
+export function discardPlot(pilot: PilotState) {
+  pilot.astrogation = null;
+  if (['plotting', 'plotted', 'charging'].includes(pilot.hyperdriveStatus)) {
+    pilot.hyperdriveStatus = 'ready';
+    pilot.hyperdriveTimer = 0;
+  }
+}
+
+// A hand-set duration is a blind jump that leaves any plotted course behind
+export function setJumpPlan(state: RoomState, duration: number) {
+  const { pilot } = state;
+  const hours = clamp(duration, 0.1, 24);
+  discardPlot(pilot);
+  pilot.route = null;
+  pilot.jumpPlanning.duration = hours;
+  pilot.jumpPlanning.hypermatterRequired = hours * pilot.hypermatter.consumptionRate;
+  pilot.navigationComputer.jumpDistance = hyperspaceDistance(hours, hyperdriveClass(state));
+}
+
+function setLegPlan(pilot: PilotState, leg: RouteLeg) {
+  pilot.jumpPlanning.duration = leg.hours;
+  pilot.jumpPlanning.hypermatterRequired = leg.hypermatter;
+  pilot.navigationComputer.jumpDistance = leg.distance;
+}
+
+// Plot a course from the ship's system; the next jump is its first leg
+export function plotRoute(state: RoomState, destination: string) {
+  const { pilot } = state;
+  const route = planRoute(pilot.currentSystem, destination, hyperdriveClass(state), pilot.hypermatter.consumptionRate);
+  if (!route) return;
+  discardPlot(pilot);
+  pilot.route = route;
+  pilot.navigationComputer.targetSystem = getSystem(destination)!.name;
+  setLegPlan(pilot, route.legs[0]);
+}
+
+export function clearRoute(pilot: PilotState) {
+  discardPlot(pilot);
+  pilot.route = null;
+}
+
+/* ---------- ASTROGATION ---------- */
+
+// Why the navicomputer cannot plot the next jump right now, or null when it can
+export function checkPlot(state: RoomState): string | null {
+  const { pilot, engineering } = state;
+  const failure = criticalsWith(engineering.criticals, 'navicomputer_failure')[0];
+  if (failure) return `the ship has suffered ${failure.name}`;
+  if (pilot.hyperdriveStatus === 'charging' || pilot.hyperdriveStatus === 'jumping') return 'the hyperdrive is already committed to a jump';
+  if (pilot.hyperdriveStatus === 'cooldown') return 'the hyperdrive is cooling down';
+  return null;
+}
+
+// Roll the Pilot's Astrogation check for the next jump and start plotting.
+// Returns the check so the Pilot and the GM can see the dice.
+export function startPlot(state: RoomState, order: AstrogationOrder, random: Random) {
+  const { pilot, engineering } = state;
+  if (checkPlot(state)) return null;
+
+  const leg = pilot.route?.legs[0];
+  const difficulty = !leg ? PLOT_DIFFICULTY.blind : leg.lane ? PLOT_DIFFICULTY.lane : PLOT_DIFFICULTY.uncharted;
+  const setback = criticalsWith(engineering.criticals, 'sensors_damaged').length;
+  const check = rollSkillCheck(state, { check: 'astrogation', ...order, difficulty, setback }, random);
+  const { outcome } = check;
+
+  // A despair drops the ship near where it meant to go, but not there
+  const target = leg?.to ?? pilot.currentSystem;
+  const astray = outcome.despair > 0 ? systemsNear(target) : [];
+  const plot: AstrogationPlot = {
+    difficulty,
+    succeeded: outcome.succeeded,
+    summary: describeOutcome(outcome),
+    etaFactor: Math.max(MIN_ETA_FACTOR, 1
+      + THREAT_DELAY * Math.max(0, -outcome.advantage)
+      - ADVANTAGE_GAIN * clamp(outcome.advantage, 0, 2)
+      - TRIUMPH_GAIN * outcome.triumph),
+    misjumpTo: astray.length > 0 ? random.pick(astray).id : null
+  };
+
+  pilot.astrogation = plot;
+  pilot.hyperdriveStatus = 'plotting';
+  pilot.hyperdriveTimer = PLOT_TIME;
+  return check;
+}
+
+/* ---------- JUMPING ---------- */
+
+// Nothing in realspace can reach a ship in hyperspace, nor it them
+export const inHyperspace = (pilot: PilotState) => pilot.hyperdriveStatus === 'jumping';
+
+// What holds the ship in realspace right now, or null when nothing does
+function jumpBlocker(state: RoomState): string | null {
+  const { pilot, engineering } = state;
+  if (pilot.interdicted) return 'an interdiction field holds the ship';
+  if (pilot.hazard?.type === 'gravity_well') return 'a gravity well holds the ship';
+  const damage = hyperdriveBlocker(engineering.criticals);
+  if (damage) return `the ship has suffered ${damage.name}`;
+  if (state.powerEffects.effectivePower.engines <= 0) return 'the engines have no power';
+  if (pilot.jumpPlanning.hypermatterRequired > pilot.hypermatter.current) return 'there is not enough hypermatter for the jump';
+  if (pilot.fuelLevel <= MIN_JUMP_FUEL) return 'there is not enough fuel to jump';
+  return null;
+}
+
+// Why the Pilot cannot engage the hyperdrive, or null when they can
+export function checkJump(state: RoomState): string | null {
+  const { hyperdriveStatus } = state.pilot;
+  if (hyperdriveStatus === 'ready') return 'plot the jump coordinates first';
+  if (hyperdriveStatus !== 'plotted') return `the hyperdrive is ${hyperdriveStatus}`;
+  return jumpBlocker(state);
+}
+
+// Less power to the engines means a longer charge
+function chargeTime(state: RoomState) {
+  const level = state.powerEffects.effectivePower.engines / NOMINAL_POWER;
+  return HYPERDRIVE_CHARGE_TIME / Math.max(MIN_CHARGE_POWER, level);
+}
+
+function startCharging(state: RoomState) {
+  state.pilot.hyperdriveStatus = 'charging';
+  state.pilot.hyperdriveTimer = chargeTime(state);
+}
+
+export function engageHyperdrive(state: RoomState) {
+  if (checkJump(state)) return;
+  startCharging(state);
+}
+
+// Into hyperspace: the hypermatter for the leg burns and the ETA starts counting
+function beginJump(state: RoomState) {
+  const { pilot } = state;
+  pilot.hypermatter.current = Math.max(0, pilot.hypermatter.current - pilot.jumpPlanning.hypermatterRequired);
+  pilot.jumpTime = pilot.jumpPlanning.duration * HYPERDRIVE_SECONDS_PER_HOUR * (pilot.astrogation?.etaFactor ?? 1);
+  pilot.hyperdriveStatus = 'jumping';
+  pilot.hyperdriveTimer = pilot.jumpTime;
+  pilot.navigationComputer.eta = pilot.jumpTime;
+}
+
+function startCooldown(state: RoomState) {
+  const { pilot } = state;
+  pilot.hyperdriveStatus = 'cooldown';
+  pilot.hyperdriveTimer = HYPERDRIVE_COOLDOWN_TIME;
+  pilot.navigationComputer.eta = 0;
+  pilot.astrogation = null;
+}
+
+// Back in realspace at the end of the jump; returns the system the ship came out at
+function completeJump(state: RoomState, now: number) {
+  const { pilot } = state;
+  const misjumpTo = pilot.astrogation?.misjumpTo;
+  if (misjumpTo) {
+    pilot.currentSystem = misjumpTo;
+    pilot.route = null;
+    addSystemStrain(state, MISJUMP_STRAIN);
+  } else if (pilot.route) {
+    pilot.currentSystem = pilot.route.legs[0].to;
+    pilot.route = dropLeg(pilot.route);
+    if (pilot.route) setLegPlan(pilot, pilot.route.legs[0]);
+  } else {
+    pilot.currentSystem = blindJumpTarget(pilot.currentSystem, pilot.navigationComputer.jumpDistance)?.id ?? pilot.currentSystem;
+  }
+  pilot.fuelLevel = Math.max(0, pilot.fuelLevel - fuelShare(JUMP_FUEL_COST, getShipProfile(state.ship.vehicle)));
+  pilot.lastJump = { outcome: misjumpTo ? 'misjump' : 'arrived', system: pilot.currentSystem, timestamp: now };
+  startCooldown(state);
+  return getSystem(pilot.currentSystem) ?? null;
+}
+
+// Dragged out of hyperspace at the stop nearest the way along the leg; the
+// course has to be plotted again from there. Returns that system.
+export function pullOut(state: RoomState, now = Date.now()): GalaxySystem | null {
+  const { pilot } = state;
+  if (pilot.hyperdriveStatus !== 'jumping') return null;
+
+  const leg = pilot.route?.legs[0];
+  if (leg) {
+    const progress = pilot.jumpTime > 0 ? 1 - pilot.hyperdriveTimer / pilot.jumpTime : 0;
+    pilot.currentSystem = leg.stops[Math.round(progress * (leg.stops.length - 1))];
+    pilot.route = null;
+  }
+  addSystemStrain(state, PULL_OUT_STRAIN);
+  pilot.lastJump = { outcome: 'pulled_out', system: pilot.currentSystem, timestamp: now };
+  startCooldown(state);
+  return getSystem(pilot.currentSystem) ?? null;
+}
+
+/* ---------- GM CONTROL ---------- */
+
+// An interdiction field stops a charge and pulls a jumping ship out
+export function setInterdiction(state: RoomState, active: boolean, now = Date.now()) {
+  const { pilot } = state;
+  pilot.interdicted = active;
+  if (!active) return null;
+  if (pilot.hyperdriveStatus === 'charging') {
+    pilot.hyperdriveStatus = 'plotted';
+    pilot.hyperdriveTimer = 0;
+  }
+  return pullOut(state, now);
+}
+
+export function setHazard(pilot: PilotState, hazard: PilotState['hazard']) {
+  pilot.hazard = hazard;
+  pilot.hazardTimer = hazard ? HAZARD_DURATION : 0;
+}
+
+// GM overrides skip the checks; anything that stops the drive mid-jump pulls
+// the ship out. Returns the system a pulled-out ship came out at.
+export function forceHyperdrive(state: RoomState, action: HyperdriveAction, now = Date.now()) {
+  const { pilot } = state;
+  switch (action) {
+    case 'force_ready': {
+      const arrival = pullOut(state, now);
+      pilot.hyperdriveStatus = 'ready';
+      pilot.hyperdriveTimer = 0;
+      pilot.astrogation = null;
+      return arrival;
+    }
+    case 'force_charge':
+      startCharging(state);
+      return null;
+    case 'force_jump':
+      beginJump(state);
+      return null;
+    default:
+      if (pilot.hyperdriveStatus === 'jumping') return pullOut(state, now);
+      startCooldown(state);
+      return null;
+  }
+}
+
+/* ---------- TICK ---------- */
+
+// Run the phase timers; returns the system the ship came out of hyperspace at, if it did
+export function tickHyperdrive(state: RoomState, dt: number, now = Date.now()) {
+  const { pilot } = state;
+  if (pilot.hazardTimer > 0) {
+    pilot.hazardTimer = Math.max(0, pilot.hazardTimer - dt);
+    if (pilot.hazardTimer === 0) pilot.hazard = null;
+  }
+  if (pilot.hyperdriveStatus === 'jumping') {
+    if (pilot.interdicted) return pullOut(state, now);
+    pilot.navigationComputer.eta = Math.max(0, pilot.navigationComputer.eta - dt);
+  }
+
+  if (pilot.hyperdriveTimer <= 0) return null;
+  pilot.hyperdriveTimer = Math.max(0, pilot.hyperdriveTimer - dt);
+  if (pilot.hyperdriveTimer > 0) return null;
+
+  switch (pilot.hyperdriveStatus) {
+    case 'plotting':
+      // A failed check leaves nothing to jump on
+      pilot.hyperdriveStatus = pilot.astrogation?.succeeded ? 'plotted' : 'ready';
+      break;
+    case 'charging':
+      // Whatever came up during the charge keeps the ship here, coordinates intact
+      if (jumpBlocker(state)) pilot.hyperdriveStatus = 'plotted';
+      else beginJump(state);
+      break;
+    case 'jumping':
+      return completeJump(state, now);
+    case 'cooldown':
+      pilot.hyperdriveStatus = 'ready';
+      break;
+  }
+  return null;
+}
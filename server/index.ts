@@ -0,0 +1,425 @@
+import express from 'express';
+import http from 'http';
+import path from 'path';
+import { Server } from 'socket.io';
+import {
+  emitToClients,
+  onClientEvent,
+  type BridgeServer
+} from '../src/protocol';
+import type { RangeBand } from '../src/types';
+import { randomStream } from '../src/random';
+import { describeOutcome } from '../src/dice';
+import {
+  TICK_MS,
+  tickGameState,
+  applyPlayerAction,
+  applyGmBroadcast,
+  type Notification
+} from './simulation';
+import * as rooms from './rooms';
+import { registerRelays } from './events';
+import { isValidatedEvent, validateClientEvent } from './validation';
+import { checkGmPassword, checkPermission, checkSeatRoom } from './permissions';
+import { recordGmBroadcast } from './records';
+import { rollStationCheck } from './checks';
+import * as traffic from './traffic';
+import * as vehicles from './vehicles';
+import * as galaxy from './galaxy';
+import * as weapons from './weapons';
+import * as persistence from './persistence';
+
+// Vite build output, one level up from server/
+const DIST_DIR = path.join(__dirname, '..', 'dist');
+
+const app = express();
+const server = http.createServer(app);
+const io: BridgeServer = new Server(server, {
+  cors: {
+    origin: "*",
+    methods: ["GET", "POST"]
+  }
+});
+
+// Serve static files from dist (Vite build output)
+app.use(express.static(DIST_DIR));
+
+// Weapon catalogue, optionally filtered: /api/weapons?quality=Guided&name=laser&type=Energy&range=Short
+app.get('/api/weapons', (req, res) => {
+  const { name, type, quality, range } = req.query;
+  if (quality !== undefined && !weapons.isWeaponQuality(quality)) {
+    res.status(400).json({ error: `unknown quality ${quality}` });
+    return;
+  }
+  res.json(weapons.findWeapons({
+    name: typeof name === 'string' ? name : undefined,
+    type: typeof type === 'string' ? type : undefined,
+    quality,
+    range: typeof range === 'string' ? range as RangeBand : undefined
+  }));
+});
+
+app.get('/api/weapons/:name', (req, res) => {
+  const weapon = weapons.getWeapon(req.params.name);
+  if (!weapon) {
+    res.status(404).json({ error: `no weapon named ${req.params.name}` });
+    return;
+  }
+  res.json(weapon);
+});
+
+// Rooms a join may name; anything else lands in the default room
+const joinRoomName = (name?: string) => (rooms.isValidRoomName(name) ? name.trim() : rooms.DEFAULT_ROOM);
+
+// Push the room list to every connected client (join screens included)
+const broadcastRooms = () => {
+  emitToClients(io, 'rooms_update', rooms.listRooms());
+};
+
+// Push a room's sensor traffic to every station in it
+const broadcastTraffic = (roomData: rooms.Room) => {
+  emitToClients(io.to(roomData.name), 'ship_data_update', traffic.shipDataUpdate(roomData.name, roomData.traffic));
+};
+
+// Act on what the simulation reports back from a tick, an action or a GM
+// broadcast. Checks the server rolled go to the Pilot's seat and the GM.
+const handleNotifications = (roomData: rooms.Room, notifications: Notification[], player?: string) => {
+  notifications.forEach(notification => {
+    const target = io.to(roomData.name);
+    if (notification.event === 'hyperspace_arrival') {
+      // Arriving in a new region means new traffic on every scope
+      if (notification.payload.region !== roomData.traffic.currentRegion) {
+        traffic.setRegion(roomData.traffic, notification.payload.region, randomStream(roomData.random, 'traffic'), roomData.gameState.pilot.position);
+        broadcastTraffic(roomData);
+      }
+    } else if (notification.event === 'skill_check_result') {
+      const sockets = [...rooms.stationSockets(roomData, 'navigation'), ...rooms.stationSockets(roomData, 'gm')];
+      emitToClients(io.to(sockets), 'skill_check_result', {
+        ...notification.payload,
+        room: roomData.name,
+        station: 'navigation',
+        player,
+        timestamp: Date.now()
+      });
+    } else if (notification.event === 'hostile_fire') {
+      emitToClients(target, 'hostile_fire', { ...notification.payload, room: roomData.name });
+    } else {
+      emitToClients(target, 'engineering_action', { ...notification.payload, room: roomData.name });
+    }
+  });
+};
+
+io.on('connection', (socket) => {
+  console.log('User connected:', socket.id);
+
+  // Reject malformed payloads before any handler or relay applies them
+  socket.use(([event, data], next) => {
+    if (!isValidatedEvent(event)) return next();
+    const roomName = data?.room || socket.data.room || rooms.DEFAULT_ROOM;
+    const reason = validateClientEvent(event, data, rooms.getRoom(roomName)?.gameState);
+    if (!reason) return next();
+
+    console.warn(`Rejected ${event} from ${socket.id}: ${reason}`);
+    emitToClients(socket, 'action_rejected', {
+      event,
+      action: [data?.action, data?.type].find(name => typeof name === 'string'),
+      reason
+    });
+  });
+
+  // Only the seat that owns an event or action type may send it
+  socket.use(([event, data], next) => {
+    if (!isValidatedEvent(event)) return next();
+    const reason = event === 'join'
+      ? checkGmPassword(data.station, rooms.getRoom(joinRoomName(data.room)), data.password)
+      : checkPermission(socket.data.station, event, data) ?? checkSeatRoom(socket.data.room, event, data);
+    if (reason) {
+      console.warn(`Refused ${event} from ${socket.id}: ${reason}`);
+      emitToClients(socket, 'action_rejected', {
+        event,
+        action: [data?.action, data?.type].find(name => typeof name === 'string'),
+        reason
+      });
+      return;
+    }
+
+    // Handlers run a tick later, so claim the seat here for the packets queued behind this join
+    if (event === 'join') {
+      socket.data.station = data.station;
+      socket.data.room = joinRoomName(data.room);
+    }
+    next();
+  });
+
+  // Station-to-station relays and the unknown-event guard
+  registerRelays(io, socket);
+
+  // Let the join screen show existing rooms straight away
+  emitToClients(socket, 'rooms_update', rooms.listRooms());
+  emitToClients(socket, 'vehicle_db', vehicles.listVehicles());
+  emitToClients(socket, 'galaxy_db', galaxy.listGalaxy());
+
+  onClientEvent(socket, 'list_rooms', () => {
+    emitToClients(socket, 'rooms_update', rooms.listRooms());
+  });
+
+  onClientEvent(socket, 'create_room', (data) => {
+    const { name, gmPassword, seed, ship } = data || {};
+    if (!rooms.isValidRoomName(name)) return;
+
+    rooms.createRoom(name, gmPassword, seed, ship);
+    console.log(`Room ${name.trim()} created`);
+    broadcastRooms();
+  });
+
+  onClientEvent(socket, 'archive_room', (data) => {
+    const { name } = data || {};
+    if (rooms.archiveRoom(name)) {
+      console.log(`Room ${name} archived`);
+      broadcastRooms();
+    }
+  });
+
+  onClientEvent(socket, 'join', (data) => {
+    const { station, token } = data;
+    const room = joinRoomName(data.room);
+    
+    // Leave any room this socket was previously seated in
+    rooms.removeUser(socket.id).forEach(previous => {
+      socket.leave(previous.name);
+      emitToClients(io.to(previous.name), 'users_update', previous.users);
+    });
+    
+    // Join the room
+    socket.join(room);
+    socket.data.room = room;
+    
+    const roomData = rooms.openRoom(room);
+
+    // A returning player takes back their dropped seat and the name on it
+    const reclaimed = token ? rooms.reclaimSeat(roomData, token, socket.id) : undefined;
+    const name = data.name || reclaimed?.name || 'Anonymous';
+    
+    // Add user to room
+    rooms.addUser(roomData, socket.id, {
+      station,
+      name,
+      socketId: socket.id,
+      status: 'online'
+    }, token);
+    
+    console.log(`${name} ${reclaimed ? 'reclaimed' : 'joined'} ${station} station in room ${room}`);
+    
+    // Confirm the seat, then send current game state and session records (a full resync after reconnecting)
+    emitToClients(socket, 'seat_assigned', { room, station, name, reclaimed: Boolean(reclaimed), seed: roomData.random.seed });
+    emitToClients(socket, 'game_state_update', roomData.gameState);
+    emitToClients(socket, 'session_restore', roomData.records);
+    emitToClients(socket, 'ship_data_update', traffic.shipDataUpdate(room, roomData.traffic));
+    
+    // Broadcast updated user list to room
+    emitToClients(io.to(room), 'users_update', roomData.users);
+    broadcastRooms();
+  });
+
+  onClientEvent(socket, 'player_action', (data) => {
+    const { room = socket.data.room ?? rooms.DEFAULT_ROOM, action, value, target } = data;
+    
+    const roomData = rooms.getRoom(room);
+    if (!roomData) return;
+
+    const user = roomData.users[socket.id];
+    
+    console.log(`Player action from ${user?.name} (${user?.station}):`, action, value);
+    
+    handleNotifications(roomData, applyPlayerAction(roomData.gameState, data, roomData.random), user?.name);
+    
+    // Broadcast updated game state to all users in the room
+    emitToClients(io.to(room), 'game_state_update', roomData.gameState);
+    
+    // Also broadcast the specific action for real-time updates
+    emitToClients(socket.to(room), 'player_action_broadcast', {
+      action,
+      value,
+      target,
+      station: user?.station,
+      player: user?.name
+    });
+  });
+
+  onClientEvent(socket, 'gm_broadcast', (data) => {
+    const { room = socket.data.room ?? rooms.DEFAULT_ROOM, type, value } = data;
+    
+    console.log(`GM broadcast in room ${room}:`, type, value);
+    
+    const roomData = rooms.getRoom(room);
+    if (roomData) {
+      handleNotifications(roomData, applyGmBroadcast(roomData.gameState, data, roomData.random));
+      recordGmBroadcast(roomData.records, data);
+
+      // A new region means new traffic on every scope
+      if (data.type === 'region_update') {
+        traffic.setRegion(roomData.traffic, data.value, randomStream(roomData.random, 'traffic'), roomData.gameState.pilot.position);
+        broadcastTraffic(roomData);
+      }
+      // A new hull comes with its own weapons fitted
+      if (data.type === 'set_player_ship') {
+        emitToClients(io.to(roomData.name), 'session_restore', roomData.records);
+      }
+    }
+    
+    // Broadcast to all clients in the room
+    emitToClients(io.to(room), 'gm_broadcast', { ...data, room });
+  });
+
+  onClientEvent(socket, 'comm_broadcast', (data) => {
+    const { room = socket.data.room ?? rooms.DEFAULT_ROOM, type, value } = data;
+    
+    console.log(`Comm broadcast in room ${room}:`, type, value);
+    
+    // Broadcast to all clients in the room
+    emitToClients(io.to(room), 'comm_broadcast', { ...data, room });
+  });
+
+  // Pins are shared, so a pin set at one station shows up at every other one
+  onClientEvent(socket, 'pin_ship', (data) => {
+    const roomData = rooms.getRoom(data.room);
+    if (!roomData) return;
+
+    if (!traffic.pinShip(roomData.traffic, data.shipId, data.pinned)) {
+      emitToClients(socket, 'action_rejected', { event: 'pin_ship', reason: `ship ${data.shipId} is no longer on sensors` });
+      return;
+    }
+    broadcastTraffic(roomData);
+  });
+
+  onClientEvent(socket, 'double_pin_ship', (data) => {
+    const roomData = rooms.getRoom(data.room);
+    if (!roomData) return;
+
+    if (!traffic.doublePinShip(roomData.traffic, data.shipId)) {
+      emitToClients(socket, 'action_rejected', { event: 'double_pin_ship', reason: `ship ${data.shipId} is no longer on sensors` });
+      return;
+    }
+    broadcastTraffic(roomData);
+  });
+
+  // Checks are rolled here so the acting station and the GM see the same dice
+  onClientEvent(socket, 'skill_check', (data) => {
+    const roomData = rooms.getRoom(data.room);
+    if (!roomData) return;
+
+    const user = roomData.users[socket.id];
+    const result = rollStationCheck(roomData.gameState, data, randomStream(roomData.random, 'checks'));
+    console.log(`${user?.name} rolled ${data.check} in room ${roomData.name}: ${describeOutcome(result.outcome)}`);
+
+    emitToClients(io.to([socket.id, ...rooms.stationSockets(roomData, 'gm')]), 'skill_check_result', {
+      ...result,
+      room: roomData.name,
+      station: user?.station,
+      player: user?.name,
+      timestamp: Date.now()
+    });
+  });
+
+  const sendSnapshots = (room: string) => {
+    emitToClients(socket, 'snapshots_update', { room, snapshots: persistence.listSnapshots(room) });
+  };
+
+  onClientEvent(socket, 'save_snapshot', (data) => {
+    const roomData = rooms.getRoom(data.room);
+    if (!roomData) return;
+
+    const snapshot = persistence.saveSnapshot(roomData, data.label);
+    if (!snapshot) {
+      emitToClients(socket, 'action_rejected', { event: 'save_snapshot', reason: 'snapshot could not be written' });
+      return;
+    }
+    console.log(`Saved snapshot ${snapshot.id} of room ${roomData.name}`);
+    sendSnapshots(roomData.name);
+  });
+
+  onClientEvent(socket, 'list_snapshots', (data) => {
+    sendSnapshots(data.room);
+  });
+
+  onClientEvent(socket, 'load_snapshot', (data) => {
+    const roomData = rooms.getRoom(data.room);
+    if (!roomData || !persistence.loadSnapshot(roomData, data.id)) {
+      emitToClients(socket, 'action_rejected', { event: 'load_snapshot', reason: `snapshot ${data.id} not found` });
+      return;
+    }
+    console.log(`Loaded snapshot ${data.id} into room ${roomData.name}`);
+
+    // Every station picks the restored session up straight away
+    emitToClients(io.to(roomData.name), 'game_state_update', roomData.gameState);
+    emitToClients(io.to(roomData.name), 'session_restore', roomData.records);
+    broadcastTraffic(roomData);
+  });
+
+  socket.on('disconnect', () => {
+    console.log('User disconnected:', socket.id);
+    
+    // Hold the seat as 'reconnecting' so the crew can see who dropped
+    const sendUsers = (changed: rooms.Room[]) => {
+      changed.forEach(roomData => {
+        emitToClients(io.to(roomData.name), 'users_update', roomData.users);
+      });
+      if (changed.length > 0) broadcastRooms();
+    };
+    sendUsers(rooms.markReconnecting(socket.id));
+
+    // Free it if nobody reclaims it in time
+    setTimeout(() => sendUsers(rooms.expireSeat(socket.id)), rooms.RECONNECT_GRACE_MS);
+  });
+});
+
+// Authoritative simulation loop: advance every occupied room and push snapshots
+let lastTick = Date.now();
+setInterval(() => {
+  const now = Date.now();
+  const dt = (now - lastTick) / 1000;
+  lastTick = now;
+
+  rooms.activeRooms().forEach(roomData => {
+    handleNotifications(roomData, tickGameState(roomData.gameState, dt, roomData.random, now));
+    emitToClients(io.to(roomData.name), 'game_state_update', roomData.gameState);
+  });
+}, TICK_MS);
+
+// Ships arrive and depart on a slower clock than the ship simulation
+setInterval(() => {
+  rooms.activeRooms().forEach(roomData => {
+    traffic.tickTraffic(roomData.traffic, randomStream(roomData.random, 'traffic'), roomData.gameState.pilot.position);
+    broadcastTraffic(roomData);
+  });
+}, traffic.TRAFFIC_TICK_MS);
+
+// Archive and eventually delete rooms nobody has used for a while
+setInterval(() => {
+  if (rooms.sweepIdleRooms()) broadcastRooms();
+}, rooms.ROOM_SWEEP_INTERVAL_MS);
+
+// Autosave every room so a restart picks the campaign back up
+setInterval(() => persistence.autosaveRooms(), persistence.AUTOSAVE_INTERVAL_MS);
+
+const shutdown = (signal: string) => {
+  console.log(`${signal} received, saving rooms`);
+  persistence.autosaveRooms();
+  process.exit(0);
+};
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+// Serve React app for all routes
+app.get('*', (req, res) => {
+  res.sendFile(path.join(DIST_DIR, 'index.html'));
+});
+
+const restored = persistence.restoreAutosaves();
+if (restored > 0) console.log(`💾 Restored ${restored} room(s) from autosave`);
+
+const PORT = process.env.PORT || 3000;
+server.listen(PORT, () => {
+  console.log(`🚀 Bridge Simulator running on port ${PORT}`);
+  console.log(`📡 WebSocket server ready for connections`);
+});
\ No newline at end of file
@@ -0,0 +1,122 @@
+// Helm manoeuvres.
+// The Pilot flies the manoeuvres in src/maneuvers.ts against the crew's hull.
+// Speed changes move the throttle a whole vehicle speed point at a time, as far
+// as Engineering's engine power allows; Evasive Maneuvers and Stay on Target
+// hold a stance for a round that hostile fire (combat.ts) and the crew's
+// gunnery checks (checks.ts) read; Gain the Advantage is a Piloting (Space)
+// check rolled from the room's 'checks' stream.
+
+import type { ManeuverOrder } from '../src/protocol';
+import type { Random } from '../src/random';
+import {
+  MANEUVERS,
+  ROUND_SECONDS,
+  maneuverBlocker,
+  maneuverStrain,
+  throttleFor,
+  vehicleSpeed,
+  type HelmReading
+} from '../src/maneuvers';
+import { headingAlong } from '../src/space';
+import type { RoomState } from './simulation';
+import { rollSkillCheck } from './checks';
+import { isHostile } from './combat';
+import { addSystemStrain } from './hull';
+import { angleShields, checkShieldAngle } from './shields';
+import { getVehicle } from './vehicles';
+
+// Gain the Advantage is easier the faster the crew's ship is than the fastest hostile
+const ADVANTAGE_DIFFICULTY = { faster: 2, matched: 3, slower: 4 };
+
+const topSpeedOf = (state: RoomState) => getVehicle(state.ship.vehicle)?.speed ?? 0;
+
+export function helmReading(state: RoomState): HelmReading {
+  const vehicle = getVehicle(state.ship.vehicle);
+  const topSpeed = vehicle?.speed ?? 0;
+  return {
+    silhouette: vehicle?.silhouette ?? 0,
+    speed: vehicleSpeed(state.pilot.speed, topSpeed),
+    topSpeed: vehicleSpeed(state.powerEffects.engines.maxSpeed, topSpeed),
+    flown: state.pilot.maneuvers.flown
+  };
+}
+
+export function checkManeuver(state: RoomState, order: ManeuverOrder): string | null {
+  const blocker = maneuverBlocker(order.maneuver, helmReading(state));
+  if (blocker) return blocker;
+  if (order.maneuver === 'fly') {
+    const contact = state.weapons.enemies.find(e => e.id === order.contact);
+    return contact?.alive ? null : `no contact ${order.contact} to fly against`;
+  }
+  if (order.maneuver === 'gain_the_advantage' && !state.weapons.enemies.some(isHostile)) return 'no hostiles to gain the advantage on';
+  if (order.maneuver === 'angle_shields') return checkShieldAngle(state, order.from, order.to);
+  return null;
+}
+
+function advantageDifficulty(state: RoomState, speed: number) {
+  const fastest = Math.max(...state.weapons.enemies.filter(isHostile).map(contact => getVehicle(contact.vehicle)?.speed ?? speed));
+  return speed > fastest ? ADVANTAGE_DIFFICULTY.faster
+    : speed === fastest ? ADVANTAGE_DIFFICULTY.matched
+    : ADVANTAGE_DIFFICULTY.slower;
+}
+
+// Fly one manoeuvre; Gain the Advantage returns its check for the Pilot and the GM
+export function flyManeuver(state: RoomState, order: ManeuverOrder, random: Random) {
+  if (checkManeuver(state, order)) return null;
+  const { pilot } = state;
+  const { maneuvers } = pilot;
+  const helm = helmReading(state);
+
+  addSystemStrain(state, maneuverStrain(order.maneuver, helm));
+  if (maneuvers.flown === 0) maneuvers.roundTimer = ROUND_SECONDS;
+  maneuvers.flown++;
+
+  switch (order.maneuver) {
+    case 'accelerate':
+      pilot.speed = Math.min(throttleFor(helm.speed + 1, topSpeedOf(state)), state.powerEffects.engines.maxSpeed);
+      break;
+    case 'decelerate':
+      pilot.speed = throttleFor(helm.speed - 1, topSpeedOf(state));
+      break;
+    case 'punch_it':
+      pilot.speed = state.powerEffects.engines.maxSpeed;
+      break;
+    case 'fly': {
+      const contact = state.weapons.enemies.find(e => e.id === order.contact)!;
+      const heading = headingAlong(order.close ? contact.x : contact.x + 180);
+      pilot.heading.x = heading > 180 ? heading - 360 : heading;
+      break;
+    }
+    case 'evasive':
+    case 'stay_on_target':
+      maneuvers.stance = order.maneuver;
+      maneuvers.stanceTimer = ROUND_SECONDS;
+      break;
+    case 'gain_the_advantage': {
+      const { characteristic, skill } = order;
+      const check = rollSkillCheck(state, { check: 'maneuver', characteristic, skill, difficulty: advantageDifficulty(state, helm.speed) }, random);
+      if (check.outcome.succeeded) maneuvers.advantage = ROUND_SECONDS;
+      return check;
+    }
+    case 'angle_shields':
+      angleShields(state, order.from, order.to);
+      break;
+  }
+  return null;
+}
+
+// The round turns over, stances lapse, and a stance drops as soon as the ship is too slow to hold it
+export function tickManeuvers(state: RoomState, dt: number) {
+  const { maneuvers } = state.pilot;
+  if (maneuvers.flown > 0) {
+    maneuvers.roundTimer = Math.max(0, maneuvers.roundTimer - dt);
+    if (maneuvers.roundTimer === 0) maneuvers.flown = 0;
+  }
+  maneuvers.advantage = Math.max(0, maneuvers.advantage - dt);
+  if (!maneuvers.stance) return;
+  maneuvers.stanceTimer = Math.max(0, maneuvers.stanceTimer - dt);
+  if (maneuvers.stanceTimer === 0 || helmReading(state).speed < MANEUVERS[maneuvers.stance].minSpeed) {
+    maneuvers.stance = null;
+    maneuvers.stanceTimer = 0;
+  }
+}
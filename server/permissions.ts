@@ -0,0 +1,132 @@
+// Role permissions.
+// Each station may only send the events and action types its console needs.
+// The Game Master may send everything. Sockets that have not taken a seat yet
+// are limited to the lobby events, and a seated socket only acts on the room it
+// sits in. A room may also lock its gm seat behind a password.
+
+import type { StationName } from '../src/types';
+import type {
+  ClientEventName,
+  CommBroadcastMap,
+  GmBroadcastType,
+  PlayerActionType
+} from '../src/protocol';
+import type { SkillCheckName } from '../src/dice';
+import { matchesPassword, type Room } from './rooms';
+
+type Role = Exclude<StationName, 'pilot'>;
+type CommBroadcastType = keyof CommBroadcastMap;
+
+interface Permission {
+  events: ClientEventName[];
+  playerActions: PlayerActionType[];
+  gmBroadcasts: GmBroadcastType[];
+  commBroadcasts: CommBroadcastType[];
+  skillChecks: SkillCheckName[];
+}
+
+// Anyone may browse, create and join rooms
+const LOBBY_EVENTS: ClientEventName[] = ['join', 'list_rooms', 'create_room'];
+
+// Events carrying an action, type or check that is checked against the lists below
+const TYPED_EVENTS: ClientEventName[] = ['player_action', 'gm_broadcast', 'comm_broadcast', 'skill_check'];
+
+export const PERMISSIONS: Record<Exclude<Role, 'gm'>, Permission> = {
+  communications: {
+    events: ['player_action', 'gm_broadcast', 'comm_broadcast', 'pin_ship', 'double_pin_ship', 'skill_check', 'targeting_data_update', 'lrc_update'],
+    playerActions: ['set_frequency', 'set_secondary_frequency', 'set_signal_strength', 'set_interference', 'toggle_emergency_beacon'],
+    gmBroadcasts: ['new_message', 'emergency_beacon_update', 'scan_started', 'composer_protocol_change'],
+    commBroadcasts: ['frequency_update', 'analysis_mode_update'],
+    skillChecks: ['slice']
+  },
+  navigation: {
+    events: ['player_action', 'skill_check', 'actuator_stream'],
+    playerActions: [
+      'set_speed',
+      'update_heading_x',
+      'update_heading_y',
+      'set_target_system',
+      'plan_route',
+      'clear_route',
+      'set_jump_plan',
+      'plot_jump',
+      'hyperdrive_jump',
+      'toggle_autopilot',
+      'emergency_power',
+      'emergency_stop',
+      'maneuver',
+      'angle_shields',
+      'level_shields'
+    ],
+    gmBroadcasts: [],
+    commBroadcasts: [],
+    skillChecks: ['maneuver']
+  },
+  weapons: {
+    events: ['weapon_fired', 'salvage_complete', 'lrc_request', 'skill_check'],
+    playerActions: [],
+    gmBroadcasts: [],
+    commBroadcasts: [],
+    skillChecks: ['gunnery']
+  },
+  engineering: {
+    events: ['player_action', 'gm_broadcast', 'state_update', 'engineering_action', 'engineering_performance'],
+    playerActions: [
+      'set_power_allocation',
+      'toggle_emergency_power',
+      'set_reactor_output',
+      'vent_strain',
+      'queue_repair',
+      'assign_repair_droids',
+      'cancel_repair',
+      'angle_shields',
+      'level_shields'
+    ],
+    gmBroadcasts: ['ship_emergency_shutdown'],
+    commBroadcasts: [],
+    skillChecks: []
+  }
+};
+
+// The join screen calls the navigation seat 'pilot'
+export function roleOf(station: StationName): Role {
+  return station === 'pilot' ? 'navigation' : station;
+}
+
+// Returns null when the seat may send this event, otherwise the rejection reason
+export function checkPermission(station: StationName | undefined, event: ClientEventName, data: any): string | null {
+  if (LOBBY_EVENTS.includes(event)) return null;
+  if (!station) return `take a seat before sending ${event}`;
+
+  const role = roleOf(station);
+  if (role === 'gm') return null;
+
+  const permission = PERMISSIONS[role];
+  if (!permission.events.includes(event)) return `${role} station may not send ${event}`;
+  if (!TYPED_EVENTS.includes(event)) return null;
+
+  if (event === 'skill_check') {
+    return permission.skillChecks.includes(data.check) ? null : `${role} station may not roll a ${data.check} check`;
+  }
+
+  const allowed: string[] = event === 'player_action'
+    ? permission.playerActions
+    : event === 'gm_broadcast' ? permission.gmBroadcasts : permission.commBroadcasts;
+  const name = event === 'player_action' ? data.action : data.type;
+  return allowed.includes(name) ? null : `${role} station may not send ${event} ${name}`;
+}
+
+// Seated events act on the seat's room; naming any other room is refused
+export function checkSeatRoom(seatRoom: string | undefined, event: ClientEventName, data: any): string | null {
+  if (LOBBY_EVENTS.includes(event)) return null;
+  const named = event === 'archive_room' ? data?.name : data?.room;
+  if (named === undefined || named === seatRoom) return null;
+  return `seated in room ${seatRoom ?? 'none'}, may not act on room ${named}`;
+}
+
+// Rooms with a GM password only seat a Game Master who supplies it
+export function checkGmPassword(station: StationName, room: Room | undefined, password: unknown): string | null {
+  if (station !== 'gm' || !room?.gmPasswordHash) return null;
+  if (password === undefined) return `room ${room.name} needs the GM password`;
+  return typeof password === 'string' && matchesPassword(password, room.gmPasswordHash) ? null : 'GM password is incorrect';
+}
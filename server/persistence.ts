@@ -0,0 +1,182 @@
+// Room persistence.
+// Every room is autosaved to SAVE_DIR/autosave/<room>.json on an interval and
+// at shutdown, and restored when the server starts. GM snapshots are named
+// copies under SAVE_DIR/snapshots/<room>/ and outlive the room itself. An
+// autosave keeps the GM password's hash so the room stays locked; snapshots
+// carry no password at all.
+
+import fs from 'fs';
+import path from 'path';
+import type { ShipTraffic } from '../src/types';
+import { createRandomState, randomStream, type RandomState } from '../src/random';
+import type { SessionRecords, SnapshotSummary } from '../src/protocol';
+import { createGameState, type RoomState } from './simulation';
+import { createSessionRecords } from './records';
+import { createTraffic, isShipRegion } from './traffic';
+import { isVehicleId } from './vehicles';
+import { placeContact } from './space';
+import * as rooms from './rooms';
+
+export const AUTOSAVE_INTERVAL_MS = 60 * 1000;
+const SAVE_VERSION = 1;
+const SAVE_DIR = process.env.SAVE_DIR || path.join(__dirname, '..', 'saves');
+const AUTOSAVE_DIR = path.join(SAVE_DIR, 'autosave');
+const SNAPSHOT_DIR = path.join(SAVE_DIR, 'snapshots');
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+interface RoomSave {
+  version: number;
+  name: string;
+  label: string;
+  savedAt: number;
+  createdAt: number;
+  archived: boolean;
+  gmPasswordHash?: string | null;
+  gmPassword?: string | null; // plain text, from saves before passwords were hashed
+  gameState: RoomState;
+  traffic?: ShipTraffic;
+  random?: RandomState;
+  records: SessionRecords;
+}
+
+function toSave(room: rooms.Room, label: string, gmPasswordHash: string | null = null): RoomSave {
+  return {
+    version: SAVE_VERSION,
+    name: room.name,
+    label,
+    savedAt: Date.now(),
+    createdAt: room.createdAt,
+    archived: room.archived,
+    gmPasswordHash,
+    gameState: room.gameState,
+    traffic: room.traffic,
+    random: room.random,
+    records: room.records
+  };
+}
+
+// Write through a temp file so a crash mid-save never leaves half a room behind
+function writeJson(file: string, data: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temp = `${file}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data));
+  fs.renameSync(temp, file);
+}
+
+function listJson(dir: string) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter(file => file.endsWith('.json'));
+}
+
+function readSave(file: string): RoomSave | null {
+  try {
+    const save = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (save?.version === SAVE_VERSION && rooms.isValidRoomName(save.name)) return save;
+    console.warn(`Ignoring unrecognised save ${file}`);
+  } catch (error) {
+    console.error(`Could not read save ${file}:`, error);
+  }
+  return null;
+}
+
+// Lay the saved slices over fresh defaults so saves from older builds pick up new fields
+function restoreInto(room: rooms.Room, save: RoomSave) {
+  const gameState = createGameState();
+  (Object.keys(gameState) as (keyof RoomState)[]).forEach(slice => {
+    Object.assign(gameState[slice], save.gameState?.[slice]);
+  });
+  // Contacts saved before local space are placed by their radar bearing and range
+  gameState.weapons.enemies.forEach(contact => {
+    if (!contact.position) Object.assign(contact, placeContact(gameState.pilot.position, contact.x, contact.y, contact.heading, contact.speed));
+  });
+  room.gameState = gameState;
+  // Stream states come back too, so a loaded snapshot replays the same rolls
+  room.random = typeof save.random?.seed === 'number'
+    ? { seed: save.random.seed, streams: { ...save.random.streams } }
+    : createRandomState();
+  // Saves from before the server ran traffic, or before ships had hulls or positions, get a fresh scope
+  room.traffic = save.traffic && isShipRegion(save.traffic.currentRegion) && save.traffic.ships.every(ship => isVehicleId(ship.vehicle) && ship.position)
+    ? save.traffic
+    : createTraffic(randomStream(room.random, 'traffic'));
+  room.records = { ...createSessionRecords(), ...save.records };
+}
+
+/* ---------- AUTOSAVE ---------- */
+
+export function autosaveRooms() {
+  const saved = new Set<string>();
+  rooms.allRooms().forEach(room => {
+    const file = `${room.name}.json`;
+    saved.add(file);
+    try {
+      writeJson(path.join(AUTOSAVE_DIR, file), toSave(room, 'autosave', room.gmPasswordHash));
+    } catch (error) {
+      console.error(`Autosave of room ${room.name} failed:`, error);
+    }
+  });
+
+  // Rooms deleted for sitting idle lose their autosave; GM snapshots are kept
+  listJson(AUTOSAVE_DIR)
+    .filter(file => !saved.has(file))
+    .forEach(file => fs.rmSync(path.join(AUTOSAVE_DIR, file), { force: true }));
+}
+
+// Recreate every autosaved room; returns how many were restored
+export function restoreAutosaves() {
+  const saves = listJson(AUTOSAVE_DIR)
+    .map(file => readSave(path.join(AUTOSAVE_DIR, file)))
+    .filter((save): save is RoomSave => save !== null);
+
+  saves.forEach(save => {
+    const room = rooms.createRoom(save.name);
+    // GM_PASSWORD still wins for the default room
+    room.gmPasswordHash = room.gmPasswordHash
+      || save.gmPasswordHash
+      || (save.gmPassword ? rooms.hashPassword(save.gmPassword) : null);
+    room.createdAt = save.createdAt;
+    room.archived = save.archived;
+    restoreInto(room, save);
+  });
+  return saves.length;
+}
+
+/* ---------- SNAPSHOTS ---------- */
+
+export function saveSnapshot(room: rooms.Room, label?: string): SnapshotSummary | null {
+  const save = toSave(room, label?.trim() || new Date().toLocaleString());
+  const slug = save.label.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 48);
+  const id = [new Date(save.savedAt).toISOString().replace(/[:.]/g, '-'), slug].filter(Boolean).join('_');
+
+  try {
+    writeJson(path.join(SNAPSHOT_DIR, room.name, `${id}.json`), save);
+  } catch (error) {
+    console.error(`Snapshot of room ${room.name} failed:`, error);
+    return null;
+  }
+  return { id, label: save.label, savedAt: save.savedAt };
+}
+
+// Newest first
+export function listSnapshots(roomName: string): SnapshotSummary[] {
+  if (!rooms.isValidRoomName(roomName)) return [];
+  const dir = path.join(SNAPSHOT_DIR, roomName);
+  return listJson(dir)
+    .map(file => {
+      const save = readSave(path.join(dir, file));
+      return save && { id: file.slice(0, -'.json'.length), label: save.label, savedAt: save.savedAt };
+    })
+    .filter((summary): summary is SnapshotSummary => Boolean(summary))
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+// Replace a room's state with a snapshot; the crew stays seated
+export function loadSnapshot(room: rooms.Room, id: string) {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) return false;
+  const file = path.join(SNAPSHOT_DIR, room.name, `${id}.json`);
+  if (!fs.existsSync(file)) return false;
+
+  const save = readSave(file);
+  if (!save) return false;
+  restoreInto(room, save);
+  return true;
+}
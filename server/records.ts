@@ -0,0 +1,45 @@
+// Session records.
+// Things a room remembers besides the simulated GameState: the comms log and
+// the weapons the GM has fitted. They are saved with the room and handed back
+// to stations as session_restore.
+
+import type { WeaponLoadout } from '../src/types';
+import type { GmBroadcast, SessionRecords } from '../src/protocol';
+import { getShipProfile } from './vehicles';
+
+const MESSAGE_LOG_LIMIT = 200;
+
+// A new session starts with the ship's own weapons fitted
+export function createSessionRecords(loadout: WeaponLoadout = { primary: [], secondary: [] }): SessionRecords {
+  return {
+    messages: [],
+    loadout: { primary: [...loadout.primary], secondary: [...loadout.secondary] }
+  };
+}
+
+export function recordGmBroadcast(records: SessionRecords, data: GmBroadcast) {
+  const loadout = records.loadout;
+
+  switch (data.type) {
+    case 'set_player_ship':
+      records.loadout = createSessionRecords(getShipProfile(data.value).loadout).loadout;
+      break;
+    case 'new_message':
+      // Comms re-sends its opening message on every mount
+      if (records.messages.some(message => message.id === data.value.id)) break;
+      records.messages = [...records.messages, data.value].slice(-MESSAGE_LOG_LIMIT);
+      break;
+    case 'add_primary_weapon':
+      loadout.primary = [...loadout.primary, data.value.weapon];
+      break;
+    case 'add_secondary_weapon':
+      loadout.secondary = [...loadout.secondary, data.value.weapon];
+      break;
+    case 'clear_primary_weapons':
+      loadout.primary = [];
+      break;
+    case 'clear_secondary_weapons':
+      loadout.secondary = [];
+      break;
+  }
+}
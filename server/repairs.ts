@@ -0,0 +1,104 @@
+// Engineering's repair queue.
+// The console asks for repairs; the server owns the queue. It sizes each task
+// from the system and the damage, holds the droid teams to the ship's
+// complement and advances the work every repair check (simulation.ts). Repairs
+// queued by critical hits (criticals.ts) cannot be called off.
+
+import type { PowerSystem, RepairTask } from '../src/types';
+import type { RepairOrder } from '../src/protocol';
+import type { Random } from '../src/random';
+import type { RoomState } from './simulation';
+import { getShipProfile } from './vehicles';
+
+type DamageType = RepairTask['damageType'];
+
+const BASE_DIFFICULTY: Record<DamageType, number> = { minor: 2, major: 3, critical: 4 };
+const BASE_TIME: Record<DamageType, number> = { minor: 30, major: 90, critical: 180 }; // seconds with one droid
+// Some systems are inherently more complex to repair
+const SYSTEM_COMPLEXITY: Record<PowerSystem, number> = {
+  weapons: 1.2,
+  shields: 1.1,
+  engines: 1.3,
+  sensors: 1.0,
+  lifeSupport: 1.4,
+  communications: 0.9
+};
+const DROID_EFFICIENCY = 0.3; // time saved by each droid after the first
+const MAX_DROID_EFFICIENCY = 2.0;
+const JURY_RIG_TIME = 0.3; // share of the time a jury-rigged repair takes
+
+export function repairDifficulty(system: PowerSystem, damageType: DamageType) {
+  return Math.round(BASE_DIFFICULTY[damageType] * SYSTEM_COMPLEXITY[system]);
+}
+
+export function repairTime(damageType: DamageType, droids: number, juryRigged: boolean) {
+  const efficiency = Math.min(MAX_DROID_EFFICIENCY, 1 + (droids - 1) * DROID_EFFICIENCY);
+  return Math.round((BASE_TIME[damageType] / efficiency) * (juryRigged ? JURY_RIG_TIME : 1));
+}
+
+// Droids not already working another task
+export function freeDroids(state: RoomState, exceptId?: string) {
+  const assigned = state.engineering.repairQueue
+    .filter(task => task.id !== exceptId)
+    .reduce((total, task) => total + task.assignedCrew, 0);
+  return getShipProfile(state.ship.vehicle).droids - assigned;
+}
+
+function checkDroids(state: RoomState, droids: number, exceptId?: string) {
+  const free = freeDroids(state, exceptId);
+  return droids > free ? `${droids} droids requested, only ${Math.max(0, free)} free` : null;
+}
+
+// A jury-rig order for a system already in the queue speeds that task up instead
+export function checkRepairOrder(state: RoomState, order: RepairOrder): string | null {
+  const queued = state.engineering.repairQueue.find(task => task.systemName === order.system);
+  if (queued) return order.juryRigged && !queued.juryRigged ? null : `${order.system} is already being repaired`;
+  if ((state.engineering.systemStatus[order.system]?.health ?? 100) >= 100) return `${order.system} does not need repair`;
+  return checkDroids(state, order.droids);
+}
+
+export function checkDroidAssignment(state: RoomState, id: string, droids: number): string | null {
+  if (!state.engineering.repairQueue.some(task => task.id === id)) return `no repair ${id} in the queue`;
+  return checkDroids(state, droids, id);
+}
+
+export function checkRepairCancel(state: RoomState, id: string): string | null {
+  const task = state.engineering.repairQueue.find(t => t.id === id);
+  if (!task) return `no repair ${id} in the queue`;
+  return task.criticalId ? 'critical hit repairs cannot be called off' : null;
+}
+
+export function queueRepair(state: RoomState, order: RepairOrder, random: Random) {
+  const { engineering } = state;
+  const queued = engineering.repairQueue.find(task => task.systemName === order.system);
+  if (queued) {
+    queued.juryRigged = true;
+    queued.timeRequired = Math.round(queued.timeRequired * JURY_RIG_TIME);
+    return;
+  }
+
+  const juryRigged = order.juryRigged ?? false;
+  engineering.repairQueue.push({
+    id: `repair_${random.tag()}`,
+    systemName: order.system,
+    damageType: order.damageType,
+    difficulty: repairDifficulty(order.system, order.damageType),
+    timeRequired: repairTime(order.damageType, order.droids, juryRigged),
+    progress: 0,
+    assignedCrew: order.droids,
+    juryRigged
+  });
+  // Worst damage first
+  engineering.repairQueue.sort((a, b) => BASE_DIFFICULTY[b.damageType] - BASE_DIFFICULTY[a.damageType]);
+}
+
+export function assignRepairDroids(state: RoomState, id: string, droids: number) {
+  const task = state.engineering.repairQueue.find(t => t.id === id);
+  if (!task) return;
+  task.assignedCrew = droids;
+  task.timeRequired = repairTime(task.damageType, droids, task.juryRigged);
+}
+
+export function cancelRepair(state: RoomState, id: string) {
+  state.engineering.repairQueue = state.engineering.repairQueue.filter(task => task.id !== id || task.criticalId);
+}
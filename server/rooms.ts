@@ -0,0 +1,203 @@
+// Room registry and lifecycle.
+// Each room owns its own freshly constructed GameState. Rooms are created on
+// demand, archived once they have sat empty for a while (the loop stops
+// ticking them) and deleted after a longer idle period. A GM password is kept
+// only as a salted hash.
+
+import crypto from 'crypto';
+import type { RoomSummary, ShipTraffic, StationName, User } from '../src/types';
+import type { SessionRecords } from '../src/protocol';
+import { createRandomState, randomStream, type RandomState } from '../src/random';
+import { createGameState, type RoomState } from './simulation';
+import { createSessionRecords } from './records';
+import { createTraffic } from './traffic';
+import { DEFAULT_PLAYER_VEHICLE, getShipProfile } from './vehicles';
+
+export interface Room {
+  name: string;
+  users: Record<string, User>;
+  // Seat tokens by socket id; kept off User so they never reach other clients
+  seatTokens: Record<string, string>;
+  gameState: RoomState;
+  traffic: ShipTraffic;
+  // Seeded streams every roll in this room draws from
+  random: RandomState;
+  records: SessionRecords;
+  createdAt: number;
+  emptySince: number | null;
+  archived: boolean;
+  gmPasswordHash: string | null; // salt:scrypt hash
+}
+
+export const DEFAULT_ROOM = 'default';
+const ROOM_ARCHIVE_AFTER_MS = 10 * 60 * 1000; // 10 minutes empty
+const ROOM_DELETE_AFTER_MS = 60 * 60 * 1000; // 1 hour empty
+export const ROOM_SWEEP_INTERVAL_MS = 60 * 1000;
+export const RECONNECT_GRACE_MS = 60 * 1000; // how long a dropped seat waits for its player
+const ROOM_NAME_PATTERN = /^[A-Za-z0-9 _-]{1,32}$/;
+const PASSWORD_HASH_BYTES = 32;
+
+const rooms = new Map<string, Room>();
+
+export function isValidRoomName(name: unknown): name is string {
+  return typeof name === 'string' && ROOM_NAME_PATTERN.test(name.trim());
+}
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return `${salt}:${crypto.scryptSync(password, salt, PASSWORD_HASH_BYTES).toString('hex')}`;
+}
+
+export function matchesPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const candidate = crypto.scryptSync(password, salt, expected.length);
+  return expected.length > 0 && crypto.timingSafeEqual(candidate, expected);
+}
+
+// A GM password, when given, is required to take the gm seat in this room.
+// A seed, when given, makes the room's traffic, spawns and checks repeatable.
+// The ship is the crew's hull from the vehicle database, which must have a ship profile.
+export function createRoom(name: string, gmPassword?: string, seed?: number, ship = DEFAULT_PLAYER_VEHICLE): Room {
+  const roomName = name.trim();
+  const existing = rooms.get(roomName);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const random = createRandomState(seed);
+  const room: Room = {
+    name: roomName,
+    users: {},
+    seatTokens: {},
+    gameState: createGameState(ship),
+    traffic: createTraffic(randomStream(random, 'traffic')),
+    random,
+    records: createSessionRecords(getShipProfile(ship).loadout),
+    createdAt: now,
+    emptySince: now,
+    archived: false,
+    gmPasswordHash: gmPassword ? hashPassword(gmPassword) : null
+  };
+  rooms.set(roomName, room);
+  return room;
+}
+
+export function getRoom(name: string) {
+  return rooms.get(name);
+}
+
+// Look up a room for a join, creating it (or waking it from the archive) as needed
+export function openRoom(name: string) {
+  const room = rooms.get(name) || createRoom(name);
+  room.archived = false;
+  return room;
+}
+
+export function archiveRoom(name: string) {
+  const room = rooms.get(name);
+  if (!room || room.archived) return false;
+  room.archived = true;
+  return true;
+}
+
+export function deleteRoom(name: string) {
+  if (name === DEFAULT_ROOM) return false;
+  return rooms.delete(name);
+}
+
+export function addUser(room: Room, socketId: string, user: User, token?: string) {
+  room.users[socketId] = user;
+  if (token) room.seatTokens[socketId] = token;
+  room.emptySince = null;
+}
+
+// Hand a seat held under an older socket to the player presenting its token.
+// Returns the seat that was reclaimed, if any.
+export function reclaimSeat(room: Room, token: string, socketId: string) {
+  const previousId = Object.keys(room.seatTokens).find(id => id !== socketId && room.seatTokens[id] === token);
+  if (!previousId) return undefined;
+
+  const seat = room.users[previousId];
+  delete room.users[previousId];
+  delete room.seatTokens[previousId];
+  return seat;
+}
+
+// Socket ids of every seat at one station
+export function stationSockets(room: Room, station: StationName) {
+  return Object.values(room.users)
+    .filter(user => user.station === station)
+    .map(user => user.socketId);
+}
+
+function roomsSeating(socketId: string) {
+  return Array.from(rooms.values()).filter(room => room.users[socketId]);
+}
+
+// Remove a socket from every room it sits in; returns the rooms that changed
+export function removeUser(socketId: string) {
+  const changed = roomsSeating(socketId);
+  changed.forEach(room => {
+    delete room.users[socketId];
+    delete room.seatTokens[socketId];
+    if (Object.keys(room.users).length === 0) room.emptySince = Date.now();
+  });
+  return changed;
+}
+
+// A dropped socket keeps its seats for RECONNECT_GRACE_MS; returns the rooms that changed
+export function markReconnecting(socketId: string) {
+  const changed = roomsSeating(socketId);
+  changed.forEach(room => {
+    room.users[socketId].status = 'reconnecting';
+  });
+  return changed;
+}
+
+// Free seats whose player never came back; returns the rooms that changed
+export function expireSeat(socketId: string) {
+  const stale = roomsSeating(socketId).some(room => room.users[socketId].status === 'reconnecting');
+  return stale ? removeUser(socketId) : [];
+}
+
+export function allRooms() {
+  return Array.from(rooms.values());
+}
+
+export function activeRooms() {
+  return Array.from(rooms.values()).filter(room => !room.archived && room.emptySince === null);
+}
+
+export function listRooms(): RoomSummary[] {
+  return Array.from(rooms.values()).map(room => ({
+    name: room.name,
+    crew: Object.keys(room.users).length,
+    stations: Object.values(room.users).map(user => user.station),
+    archived: room.archived,
+    createdAt: room.createdAt,
+    gmLocked: room.gmPasswordHash !== null
+  }));
+}
+
+// Archive and delete rooms that have been empty too long; returns true when the list changed
+export function sweepIdleRooms(now = Date.now()) {
+  let changed = false;
+  for (const room of Array.from(rooms.values())) {
+    if (room.emptySince === null) continue;
+    const idle = now - room.emptySince;
+
+    if (idle >= ROOM_DELETE_AFTER_MS && deleteRoom(room.name)) {
+      console.log(`Deleted idle room ${room.name}`);
+      changed = true;
+    } else if (idle >= ROOM_ARCHIVE_AFTER_MS && archiveRoom(room.name)) {
+      console.log(`Archived idle room ${room.name}`);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+// The default room always exists so a fresh server has somewhere to join;
+// GM_PASSWORD locks its gm seat
+createRoom(DEFAULT_ROOM, process.env.GM_PASSWORD);
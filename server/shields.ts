@@ -0,0 +1,136 @@
+// Deflector shields.
+// The crew's ship has four shield quadrants, one per firing arc. Each arc the
+// ship profile gives a projector holds up to the shields' effective power
+// (src/power.ts), plus whatever capacity the crew has angled into it, less what
+// critical hits have taken (src/criticals.ts). Arcs recharge towards that
+// capacity every tick, and the pilot's single shield reading is the average of
+// the covered arcs. Radar bearing 270 (the top of the scope) is the bow when the
+// helm heading is 0.
+
+import type { FiringArc } from '../src/types';
+import type { RoomState } from './simulation';
+import { getShipProfile } from './vehicles';
+import { criticalsWith } from '../src/criticals';
+
+type WeaponsState = RoomState['weapons'];
+export type ShieldQuadrant = keyof WeaponsState['shields'];
+
+export const FIRING_ARCS: FiringArc[] = ['fore', 'aft', 'port', 'starboard'];
+
+// Radar bearing at the middle of each arc with the ship on heading 0
+export const ARC_BEARINGS: Record<FiringArc, number> = { fore: 270, starboard: 0, aft: 90, port: 180 };
+
+// Weapons' shield quadrant for each arc
+export const ARC_QUADRANTS: Record<FiringArc, ShieldQuadrant> = { fore: 'front', aft: 'rear', port: 'left', starboard: 'right' };
+
+export const ANGLE_STEP = 25; // capacity moved by one angle deflector shields action
+export const MAX_ANGLE = 50; // most capacity an arc can gain or give up
+const SHIELD_RECHARGE = 2; // points per second at nominal power
+const WEAKENED_CAPACITY = 25; // capacity each Losing Power to Shields critical takes from every arc
+
+const wrapDeg = (d: number) => ((d % 360) + 360) % 360;
+
+export function createShieldAngles(): WeaponsState['shieldAngles'] {
+  return { front: 0, rear: 0, left: 0, right: 0 };
+}
+
+// The crew's shield arc facing a radar bearing, with the bow turned by the helm heading
+export function arcForBearing(bearing: number, heading: number): FiringArc {
+  const relative = wrapDeg(bearing - ARC_BEARINGS.fore - heading);
+  if (relative < 45 || relative >= 315) return 'fore';
+  if (relative < 135) return 'starboard';
+  if (relative < 225) return 'aft';
+  return 'port';
+}
+
+// Radar bearing at the middle of an arc for the current heading
+export function bearingForArc(arc: FiringArc, heading: number) {
+  return wrapDeg(ARC_BEARINGS[arc] + heading);
+}
+
+export function coveredArcs(state: RoomState) {
+  return getShipProfile(state.ship.vehicle).shieldArcs;
+}
+
+// What one arc holds when fully charged; arcs without a projector, or knocked
+// out by a critical, hold nothing
+export function arcCapacity(state: RoomState, arc: FiringArc) {
+  if (!coveredArcs(state).includes(arc)) return 0;
+  const criticals = state.engineering.criticals;
+  if (criticalsWith(criticals, 'shield_arc_down').some(critical => critical.arc === arc)) return 0;
+  const base = state.powerEffects.effectivePower.shields - WEAKENED_CAPACITY * criticalsWith(criticals, 'shields_weakened').length;
+  return base > 0 ? Math.max(0, base + state.weapons.shieldAngles[ARC_QUADRANTS[arc]]) : 0;
+}
+
+// Why an angle from one arc to another is not possible, or null when it is
+export function checkShieldAngle(state: RoomState, from: FiringArc, to: FiringArc): string | null {
+  if (from === to) return 'pick two different arcs';
+  const covered = coveredArcs(state);
+  const uncovered = [from, to].find(arc => !covered.includes(arc));
+  if (uncovered) return `the ship has no shield projector on the ${uncovered} arc`;
+  const angles = state.weapons.shieldAngles;
+  if (angles[ARC_QUADRANTS[from]] - ANGLE_STEP < -MAX_ANGLE) return `the ${from} arc cannot give up more capacity`;
+  if (angles[ARC_QUADRANTS[to]] + ANGLE_STEP > MAX_ANGLE) return `the ${to} arc cannot be angled further`;
+  return null;
+}
+
+// Angle deflector shields: one step of capacity, and the charge it held, moves to another arc
+export function angleShields(state: RoomState, from: FiringArc, to: FiringArc) {
+  if (checkShieldAngle(state, from, to)) return;
+  const { shields, shieldAngles } = state.weapons;
+  const source = ARC_QUADRANTS[from];
+  const target = ARC_QUADRANTS[to];
+
+  shieldAngles[source] -= ANGLE_STEP;
+  shieldAngles[target] += ANGLE_STEP;
+  const moved = Math.min(ANGLE_STEP, shields[source]);
+  shields[source] -= moved;
+  shields[target] = Math.min(arcCapacity(state, to), shields[target] + moved);
+  shields[source] = Math.min(arcCapacity(state, from), shields[source]);
+}
+
+// Back to an even spread; charge over an arc's new capacity is lost
+export function levelShields(state: RoomState) {
+  state.weapons.shieldAngles = createShieldAngles();
+  FIRING_ARCS.forEach(arc => {
+    const quadrant = ARC_QUADRANTS[arc];
+    state.weapons.shields[quadrant] = Math.min(arcCapacity(state, arc), state.weapons.shields[quadrant]);
+  });
+}
+
+// GM override for one arc, or every covered arc when none is named
+export function setShieldLevel(state: RoomState, level: number, arc?: FiringArc) {
+  (arc ? [arc] : FIRING_ARCS).forEach(target => {
+    state.weapons.shields[ARC_QUADRANTS[target]] = Math.min(arcCapacity(state, target), Math.max(0, level));
+  });
+  state.pilot.shieldStatus = shieldLevel(state);
+}
+
+// Drain an arc and return what it absorbed
+export function absorbHit(state: RoomState, arc: FiringArc, amount: number) {
+  const quadrant = ARC_QUADRANTS[arc];
+  const absorbed = Math.min(state.weapons.shields[quadrant], amount);
+  state.weapons.shields[quadrant] -= absorbed;
+  return absorbed;
+}
+
+// The pilot's shield reading: the covered arcs' average, 0 for a ship without projectors
+export function shieldLevel(state: RoomState) {
+  const arcs = coveredArcs(state);
+  if (arcs.length === 0) return 0;
+  const total = arcs.reduce((sum, arc) => sum + state.weapons.shields[ARC_QUADRANTS[arc]], 0);
+  return Math.min(100, total / arcs.length);
+}
+
+// Recharge every arc towards its capacity at the rate the shields are powered;
+// an arc over capacity after a power cut drops straight to it
+export function tickShields(state: RoomState, dt: number) {
+  const regen = state.powerEffects.shields.regen;
+  FIRING_ARCS.forEach(arc => {
+    const quadrant = ARC_QUADRANTS[arc];
+    const capacity = arcCapacity(state, arc);
+    const charged = state.weapons.shields[quadrant] + SHIELD_RECHARGE * regen * dt;
+    state.weapons.shields[quadrant] = Math.min(capacity, charged);
+  });
+  state.pilot.shieldStatus = shieldLevel(state);
+}
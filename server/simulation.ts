@@ -0,0 +1,875 @@
+// Server-side ship simulation.
+// Every room owns exactly one GameState. Stations send intents (player_action,
+// gm_broadcast, weapon_fired, ...) and render the snapshots the room loop
+// broadcasts, so the ship survives page refreshes and never diverges between tabs.
+// Rolls come from the room's seeded streams: 'combat' for contacts and the
+// helm, 'malfunctions' for repair checks. The crew's ship and every contact
+// move through one local space (see space.ts). The crew's ship profile sets the
+// reactor, tank, magazine and hyperdrive limits everything here works within,
+// and Engineering's power allocations set how hard every other system can run.
+
+import type { EnemyShip, GameState, HostileBehavior, PowerAllocations, PowerSystem, ShipProfile, ShipRegion, SpaceVector, SystemStatus, Vehicle } from '../src/types';
+import { randomStream, type Random, type RandomState } from '../src/random';
+import { availablePower, powerEffects } from '../src/power';
+import { criticalsWith } from '../src/criticals';
+import { pointOnScope } from '../src/space';
+import { createManeuvers } from '../src/maneuvers';
+import type {
+  EngineeringActionEvent,
+  GmBroadcast,
+  HostileFire,
+  PlayerAction,
+  SalvageComplete,
+  ShipSpawn,
+  SkillCheckResult,
+  WeaponFired
+} from '../src/protocol';
+import { DEFAULT_PLAYER_VEHICLE, getShipProfile, getVehicle, isPlayerShip } from './vehicles';
+import { getWeapon } from './weapons';
+import { hostileSpawn, hostileWaypoint, orderHostiles, setSystemHealth, tickHostiles } from './combat';
+import { addSystemStrain, boostStrain, createShipCondition, setShipCondition, tickHull, ventStrain } from './hull';
+import { applyCritical, clearCritical, repairCritical, tickCriticals } from './criticals';
+import { DEFAULT_SYSTEM, hyperspaceDistance } from './galaxy';
+import {
+  clearRoute,
+  engageHyperdrive,
+  forceHyperdrive,
+  fuelShare,
+  inHyperspace,
+  plotRoute,
+  setHazard,
+  setInterdiction,
+  setJumpPlan,
+  startPlot,
+  tickHyperdrive
+} from './hyperdrive';
+import { flyManeuver, tickManeuvers } from './maneuvers';
+import { assignRepairDroids, cancelRepair, queueRepair } from './repairs';
+import { createShipMotion, fixContacts, inboundHeading, moveContact, moveShip, placeContact, steerContact, waypointReached } from './space';
+import { ARC_QUADRANTS, FIRING_ARCS, angleShields, createShieldAngles, levelShields, setShieldLevel, tickShields } from './shields';
+
+// The server always holds every station's slice
+export type RoomState = Required<GameState>;
+type PilotState = RoomState['pilot'];
+type EngineeringState = RoomState['engineering'];
+type WeaponsState = RoomState['weapons'];
+type Faction = NonNullable<EnemyShip['faction']>;
+type RepairQuality = 'failure' | 'success' | 'advantage' | 'triumph';
+
+// Events the loop asks the caller to emit to the room, or to act on
+export type Notification =
+  | { event: 'engineering_action'; payload: EngineeringActionEvent }
+  | { event: 'hostile_fire'; payload: Omit<HostileFire, 'room'> }
+  | { event: 'hyperspace_arrival'; payload: { system: string; region: ShipRegion } }
+  | { event: 'skill_check_result'; payload: Omit<SkillCheckResult, 'room' | 'station' | 'player' | 'timestamp'> };
+
+export const TICK_MS = 100;
+
+const SYSTEM_NAMES: PowerSystem[] = ['weapons', 'shields', 'engines', 'sensors', 'lifeSupport', 'communications'];
+
+const REPAIR_CHECK_INTERVAL = 10; // seconds between droid repair checks
+const MAX_TURN_STEP = 45; // degrees one heading command can swing the bow at nominal engine power
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+const wrapDeg = (d: number) => ((d % 360) + 360) % 360;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function createSystemStatus(): SystemStatus {
+  return { health: 100, efficiency: 100, strain: 0, damaged: false, criticalDamage: false };
+}
+
+// Quadrants without a projector stay down
+function createShields(profile: ShipProfile): WeaponsState['shields'] {
+  const shields = { front: 0, rear: 0, left: 0, right: 0 };
+  FIRING_ARCS.forEach(arc => {
+    if (profile.shieldArcs.includes(arc)) shields[ARC_QUADRANTS[arc]] = 100;
+  });
+  return shields;
+}
+
+export function shipProfile(state: RoomState) {
+  return getShipProfile(state.ship.vehicle);
+}
+
+export function createGameState(vehicle = DEFAULT_PLAYER_VEHICLE): RoomState {
+  const profile = getShipProfile(vehicle);
+  const state: Omit<RoomState, 'powerEffects'> = {
+    ship: {
+      vehicle,
+      ...createShipCondition()
+    },
+    communications: {
+      signalStrength: 85,
+      interference: 15,
+      primaryFrequency: 121.5,
+      emergencyBeacon: false
+    },
+    engineering: {
+      powerDistribution: {
+        totalPower: profile.reactorOutput,
+        reactorOutput: profile.reactorOutput,
+        emergencyPower: false,
+        powerAllocations: evenAllocations(profile.reactorOutput)
+      },
+      systemStatus: Object.fromEntries(SYSTEM_NAMES.map(name => [name, createSystemStatus()])),
+      repairQueue: [],
+      repairTimer: REPAIR_CHECK_INTERVAL,
+      criticals: [],
+      activeBoosts: [],
+      emergencyProcedures: {
+        emergencyPowerActive: false,
+        emergencyShutdownActive: false,
+        lifeSupportPriority: false
+      }
+    },
+    pilot: {
+      heading: { x: 0, y: 0 },
+      speed: 0,
+      ...createShipMotion(),
+      altitude: 1000,
+      alert: 'normal',
+      hyperdriveStatus: 'ready',
+      fuelLevel: 85,
+      shieldStatus: 92,
+      engineTemp: 45,
+      navigationComputer: {
+        targetSystem: 'Coruscant',
+        jumpDistance: hyperspaceDistance(1, profile.hyperdrive.primary),
+        eta: 0
+      },
+      autopilot: false,
+      emergencyPower: false,
+      hypermatter: {
+        current: profile.hypermatterCapacity,
+        maximum: profile.hypermatterCapacity,
+        consumptionRate: 2.5
+      },
+      jumpPlanning: {
+        duration: 1,
+        hypermatterRequired: 2.5,
+        isPlanning: false
+      },
+      hyperdriveTimer: 0,
+      alertTimer: 0,
+      currentSystem: DEFAULT_SYSTEM,
+      route: null,
+      astrogation: null,
+      jumpTime: 0,
+      interdicted: false,
+      hazard: null,
+      hazardTimer: 0,
+      lastJump: null,
+      maneuvers: createManeuvers()
+    },
+    weapons: {
+      targeting: {
+        currentTarget: null,
+        availableTargets: [],
+        lockStatus: 'none'
+      },
+      shields: createShields(profile),
+      shieldAngles: createShieldAngles(),
+      weaponsOnline: true,
+      enemies: [],
+      missiles: profile.missileMagazine,
+      heatSinks: 0
+    }
+  };
+  return { ...state, powerEffects: powerEffects(state.engineering) };
+}
+
+// Move the crew to another hull, stocked and powered to its profile. Fuel
+// stays as a share of the tank.
+function fitPlayerShip(state: RoomState, vehicle: string) {
+  const profile = getShipProfile(vehicle);
+  const { engineering, pilot, weapons } = state;
+  const power = engineering.powerDistribution;
+
+  // A new hull comes undamaged
+  state.ship = { vehicle, ...createShipCondition() };
+  power.totalPower = power.totalPower - power.reactorOutput + profile.reactorOutput;
+  power.reactorOutput = profile.reactorOutput;
+  fitAllocations(power.powerAllocations, profile.reactorOutput);
+  pilot.hypermatter.maximum = profile.hypermatterCapacity;
+  pilot.hypermatter.current = profile.hypermatterCapacity;
+  // A plotted course is replotted for the new hyperdrive
+  if (pilot.route) plotRoute(state, pilot.route.destination);
+  else setJumpPlan(state, pilot.jumpPlanning.duration);
+  weapons.shields = createShields(profile);
+  weapons.shieldAngles = createShieldAngles();
+  weapons.missiles = profile.missileMagazine;
+}
+
+/* ---------- PILOT ---------- */
+
+function setAlert(pilot: PilotState, level: PilotState['alert'], seconds: number) {
+  pilot.alert = level;
+  pilot.alertTimer = seconds;
+}
+
+function tickPilot(pilot: PilotState, profile: ShipProfile, dt: number) {
+  // Altitude follows the vertical heading component
+  const verticalComponent = (pilot.heading.y / 90) * (pilot.speed / 100);
+  pilot.altitude = Math.max(0, pilot.altitude + verticalComponent * 50 * dt);
+
+  // Fuel consumption based on speed and engine temperature
+  const fuelConsumption = (pilot.speed / 100) * 0.1 + (pilot.engineTemp > 80 ? 0.05 : 0);
+  pilot.fuelLevel = Math.max(0, pilot.fuelLevel - fuelShare(fuelConsumption, profile) * dt);
+
+  // Engine temperature eases towards a speed dependent target
+  const targetTemp = 30 + (pilot.speed / 100) * 50 + (pilot.hyperdriveStatus === 'charging' ? 20 : 0);
+  const tempChange = (targetTemp - pilot.engineTemp) * 0.1 * dt;
+  pilot.engineTemp = clamp(pilot.engineTemp + tempChange, 20, 120);
+
+  if (pilot.alertTimer > 0) {
+    pilot.alertTimer = Math.max(0, pilot.alertTimer - dt);
+    if (pilot.alertTimer === 0) pilot.alert = 'normal';
+  }
+}
+
+/* ---------- ENGINEERING ---------- */
+
+const REPAIR_EFFECTIVENESS: Record<RepairQuality, number> = {
+  failure: 0,
+  success: 1.0,
+  advantage: 1.3,
+  triumph: 1.6
+};
+
+const REPAIR_HEALTH_RESTORATION: Record<RepairQuality, number> = {
+  failure: 0,
+  success: 25,
+  advantage: 35,
+  triumph: 50
+};
+
+const JURY_RIGGED_HEALTH_RESTORATION: Record<RepairQuality, number> = {
+  failure: 0,
+  success: 15,
+  advantage: 20,
+  triumph: 25
+};
+
+// Simulated Edge of the Empire repair check
+function performSkillCheck(difficulty: number, random: Random): RepairQuality {
+  const adjustedRoll = random.next() + 0.1;
+  const threshold = 0.3 + difficulty * 0.15;
+  if (adjustedRoll >= threshold + 0.3) return 'triumph';
+  if (adjustedRoll >= threshold + 0.15) return 'advantage';
+  if (adjustedRoll >= threshold) return 'success';
+  return 'failure';
+}
+
+function completeRepair(
+  engineering: EngineeringState,
+  task: EngineeringState['repairQueue'][number],
+  quality: RepairQuality,
+  notifications: Notification[]
+) {
+  const healthGain = (task.juryRigged ? JURY_RIGGED_HEALTH_RESTORATION : REPAIR_HEALTH_RESTORATION)[quality];
+  const system = engineering.systemStatus[task.systemName];
+  if (system) setSystemHealth(engineering, task.systemName, system.health + healthGain);
+  repairCritical(engineering, task);
+
+  notifications.push({
+    event: 'engineering_action',
+    payload: {
+      type: 'repair_completed',
+      system: task.systemName,
+      quality,
+      healthGain,
+      juryRigged: task.juryRigged
+    }
+  });
+}
+
+function tickEngineering(engineering: EngineeringState, dt: number, random: Random, notifications: Notification[]) {
+  // Droid teams roll a repair check on every queued task each interval
+  engineering.repairTimer -= dt;
+  if (engineering.repairTimer <= 0) {
+    engineering.repairTimer = REPAIR_CHECK_INTERVAL;
+    const finished: string[] = [];
+
+    engineering.repairQueue.forEach(task => {
+      const quality = performSkillCheck(task.difficulty, random);
+      const effectiveness = REPAIR_EFFECTIVENESS[quality] * (task.juryRigged ? 0.7 : 1);
+      const baseProgress = (100 / (task.timeRequired / REPAIR_CHECK_INTERVAL)) * task.assignedCrew;
+      task.progress = Math.min(100, task.progress + baseProgress * effectiveness);
+      if (task.progress >= 100) {
+        completeRepair(engineering, task, quality, notifications);
+        finished.push(task.id);
+      }
+    });
+
+    if (finished.length > 0) {
+      engineering.repairQueue = engineering.repairQueue.filter(task => !finished.includes(task.id));
+    }
+  }
+
+  // Boosts count down and expire
+  if (engineering.activeBoosts.length > 0) {
+    engineering.activeBoosts.forEach(boost => {
+      boost.timeRemaining = Math.max(0, boost.timeRemaining - dt);
+    });
+    engineering.activeBoosts = engineering.activeBoosts.filter(boost => boost.timeRemaining > 0);
+  }
+}
+
+/* ---------- WEAPONS ---------- */
+
+const ENEMY_DEFAULTS: Record<Faction, { hp: number; shields: number }> = {
+  enemy: { hp: 120, shields: 80 },
+  ally: { hp: 120, shields: 80 },
+  neutral: { hp: 80, shields: 40 }
+};
+
+const CONTACT_SPEED_PER_SPEED = 12;
+const HP_PER_HULL_TRAUMA = 10;
+const SHIELDS_PER_DEFENSE = 20;
+
+function consistentEcm(id: string) {
+  const hash = id.split('').reduce((a, b) => {
+    a = ((a << 5) - a) + b.charCodeAt(0);
+    return a & a;
+  }, 0);
+  return Math.abs(hash % 1000);
+}
+
+// Radar stats for a database hull. The radar works in its own units, so the
+// stat block is scaled: hull trauma to hit points, total defense to shields.
+function vehicleContact(vehicle: Vehicle) {
+  const defense = Object.values(vehicle.defense).reduce((total, value) => total + value, 0);
+  return {
+    speed: vehicle.speed * CONTACT_SPEED_PER_SPEED,
+    size: clamp((vehicle.silhouette - 1) / 2, 1, 4),
+    hp: vehicle.hullTrauma * HP_PER_HULL_TRAUMA,
+    shields: defense * SHIELDS_PER_DEFENSE
+  };
+}
+
+// Explicit spawn fields win over the vehicle's stats, which win over the faction
+// defaults. A spawn's x and y place it by radar bearing and range from the crew's ship.
+function createContact(faction: Faction, random: Random, origin: SpaceVector, overrides: ShipSpawn = {}): EnemyShip {
+  const id = overrides.id || `${faction}-${random.tag()}`;
+  const vehicle = getVehicle(overrides.vehicle);
+  const stats = vehicle ? vehicleContact(vehicle) : undefined;
+  const defaults = ENEMY_DEFAULTS[faction];
+  const hp = isNumber(overrides.hp) && overrides.hp > 0 ? overrides.hp : stats?.hp ?? defaults.hp;
+  const x = isNumber(overrides.x) ? overrides.x : random.range(0, 360);
+  const y = isNumber(overrides.y) ? overrides.y : random.range(0, 100);
+  const heading = isNumber(overrides.heading) ? overrides.heading : random.range(0, 360);
+  const speed = isNumber(overrides.speed) ? overrides.speed : stats?.speed ?? random.range(20, 60);
+  return {
+    id,
+    x,
+    y,
+    ...placeContact(origin, x, y, heading, speed),
+    heading,
+    speed,
+    size: isNumber(overrides.size) ? overrides.size : stats?.size ?? random.range(1, 3),
+    hp,
+    maxHp: hp,
+    shields: isNumber(overrides.shields) && overrides.shields > 0 ? overrides.shields : stats?.shields ?? defaults.shields,
+    ecmFreq: consistentEcm(id),
+    alive: true,
+    wreck: false,
+    salvageProgress: 0,
+    faction,
+    vehicle: vehicle?.id,
+    ...(faction === 'enemy' ? hostileSpawn(random, overrides.behavior, overrides.focusArc) : {})
+  };
+}
+
+// A formation of one database hull keeps the template's range but flies with
+// the hull's own stats; every ship starts inbound
+function createFormation(
+  faction: Faction,
+  prefix: string,
+  count: number,
+  random: Random,
+  origin: SpaceVector,
+  template: () => ShipSpawn,
+  vehicle?: string,
+  behavior?: HostileBehavior
+) {
+  const base = random.range(0, 360);
+  const stamp = random.tag();
+  return Array.from({ length: count }).map((_, i) => {
+    const spawn = template();
+    const bearing = wrapDeg(base + i * (360 / count));
+    return createContact(faction, random, origin, {
+      id: `${prefix}-${stamp}-${i}`,
+      x: bearing,
+      heading: inboundHeading(bearing),
+      ...(vehicle ? { y: spawn.y, vehicle } : spawn),
+      behavior
+    });
+  });
+}
+
+// Hostiles fly their behaviour and everything else wanders around the crew's
+// ship; then every contact's radar fix is taken from the new positions
+function tickEnemies(state: RoomState, dt: number, now: number, random: Random) {
+  const { weapons, pilot } = state;
+  weapons.enemies.forEach(e => {
+    if (!e.alive || e.wreck) {
+      e.velocity = { x: 0, y: 0 };
+      return;
+    }
+
+    if (!e.waypoint || now >= e.waypoint.reachTime || waypointReached(e)) {
+      e.waypoint = e.behavior ? hostileWaypoint(e, state, now, random) : {
+        ...pointOnScope(pilot.position, random.range(0, 360), random.range(20, 90)),
+        reachTime: now + random.range(3000, 7000)
+      };
+    }
+    steerContact(e, dt);
+  });
+  fixContacts(weapons, pilot.position);
+}
+
+export function applyWeaponFired(state: RoomState, data: WeaponFired) {
+  const weapons = state.weapons;
+  // A catalogued weapon draws from the magazine only if it has Limited Ammo
+  const weapon = getWeapon(data.weapon);
+  if (weapon ? weapon.sim.usesMissiles : data.consumedMissile) {
+    weapons.missiles = Math.max(0, weapons.missiles - 1);
+  }
+  if (!data.hit) return;
+
+  const target = weapons.enemies.find(e => e.id === data.targetId);
+  if (!target || !target.alive) return;
+
+  const shieldDamage = isNumber(data.damage?.shieldDamage) ? Math.max(0, data.damage.shieldDamage) : 0;
+  const hullDamage = isNumber(data.damage?.hullDamage) ? Math.max(0, data.damage.hullDamage) : 0;
+
+  target.shields = Math.max(0, target.shields - shieldDamage);
+  if (target.shields <= 0) {
+    target.hp = Math.max(0, target.hp - hullDamage);
+  }
+  if (data.aim === 'ENGINES') {
+    target.speed = Math.max(8, target.speed * 0.85);
+  }
+  if (target.hp <= 0) {
+    target.alive = false;
+    target.wreck = true;
+    target.salvageProgress = 0;
+  }
+}
+
+export function applySalvage(state: RoomState, data: SalvageComplete) {
+  const weapons = state.weapons;
+  const wreck = weapons.enemies.find(e => e.id === data.targetId);
+  if (wreck) {
+    if (!wreck.wreck || wreck.salvaged) return;
+    wreck.salvaged = true;
+    wreck.salvageProgress = 1;
+  } else if (!String(data.targetId).startsWith('civilian-')) {
+    // Civilian wrecks only exist on the weapons console
+    return;
+  }
+  if (data.reward === 'missile') weapons.missiles = Math.min(shipProfile(state).missileMagazine, weapons.missiles + 1);
+  if (data.reward === 'heatsink') weapons.heatSinks += 1;
+}
+
+/* ---------- INTENTS ---------- */
+
+// Returns notifications for the caller to act on, as tickGameState does
+export function applyPlayerAction(state: RoomState, data: PlayerAction, random: RandomState) {
+  const notifications: Notification[] = [];
+  const { communications, engineering, pilot } = state;
+  const { action, value } = data;
+
+  switch (action) {
+    case 'set_frequency':
+      communications.primaryFrequency = value;
+      break;
+    case 'set_signal_strength':
+      communications.signalStrength = value;
+      break;
+    case 'set_interference':
+      communications.interference = value;
+      break;
+    case 'toggle_emergency_beacon':
+      communications.emergencyBeacon = value;
+      break;
+
+    case 'set_power_allocation': {
+      // Only ship systems; hints such as maxAvailable are not part of the allocation
+      const allocations = engineering.powerDistribution.powerAllocations;
+      SYSTEM_NAMES.forEach(system => {
+        if (isNumber(value[system])) allocations[system] = value[system];
+      });
+      break;
+    }
+    case 'toggle_emergency_power':
+      engineering.powerDistribution.emergencyPower = value;
+      break;
+    case 'vent_strain':
+      ventStrain(state);
+      break;
+    case 'queue_repair':
+      queueRepair(state, value, randomStream(random, 'malfunctions'));
+      break;
+    case 'assign_repair_droids':
+      assignRepairDroids(state, value.id, value.droids);
+      break;
+    case 'cancel_repair':
+      cancelRepair(state, value.id);
+      break;
+    case 'set_reactor_output':
+      engineering.powerDistribution.reactorOutput = Math.min(shipProfile(state).reactorOutput, value);
+      break;
+
+    case 'set_speed':
+      pilot.speed = Math.min(value, state.powerEffects.engines.maxSpeed);
+      break;
+    case 'update_heading_x': {
+      const turn = MAX_TURN_STEP * state.powerEffects.engines.turnRate;
+      pilot.heading.x = clamp(value, pilot.heading.x - turn, pilot.heading.x + turn);
+      break;
+    }
+    case 'update_heading_y':
+      pilot.heading.y = value;
+      break;
+    case 'set_target_system':
+      pilot.navigationComputer.targetSystem = value;
+      break;
+    case 'plan_route':
+      plotRoute(state, value);
+      break;
+    case 'clear_route':
+      clearRoute(pilot);
+      break;
+    case 'set_jump_plan':
+      setJumpPlan(state, value);
+      break;
+    case 'plot_jump': {
+      const check = startPlot(state, value, randomStream(random, 'checks'));
+      if (check) notifications.push({ event: 'skill_check_result', payload: check });
+      break;
+    }
+    case 'hyperdrive_jump':
+      engageHyperdrive(state);
+      break;
+    case 'toggle_autopilot':
+      pilot.autopilot = Boolean(value);
+      break;
+    case 'emergency_power':
+      pilot.emergencyPower = Boolean(value);
+      break;
+    case 'emergency_stop':
+      pilot.speed = 0;
+      pilot.emergencyPower = true;
+      setAlert(pilot, 'red', 5);
+      break;
+    case 'maneuver': {
+      const check = flyManeuver(state, value, randomStream(random, 'checks'));
+      if (check) notifications.push({ event: 'skill_check_result', payload: check });
+      if (value.maneuver === 'evasive') setAlert(pilot, 'yellow', 3);
+      break;
+    }
+
+    case 'angle_shields':
+      angleShields(state, value.from, value.to);
+      break;
+    case 'level_shields':
+      levelShields(state);
+      break;
+  }
+  return notifications;
+}
+
+// Returns notifications for the caller to act on, as tickGameState does
+export function applyGmBroadcast(state: RoomState, data: GmBroadcast, random: RandomState) {
+  const notifications: Notification[] = [];
+  const arrive = (arrival: ReturnType<typeof forceHyperdrive>) => {
+    if (arrival) notifications.push({ event: 'hyperspace_arrival', payload: { system: arrival.id, region: arrival.region } });
+  };
+  const { communications, engineering, pilot, weapons } = state;
+  const { type, value } = data;
+  const combat = randomStream(random, 'combat');
+  const adjustSystem = (name: string, change: (system: SystemStatus) => Partial<SystemStatus>) => {
+    const system = engineering.systemStatus[name];
+    if (system) engineering.systemStatus[name] = { ...system, ...change(system) };
+  };
+
+  switch (type) {
+    case 'set_player_ship':
+      if (isPlayerShip(value)) fitPlayerShip(state, value);
+      break;
+
+    /* Communications */
+    case 'signal_strength_update':
+      if (isNumber(value)) communications.signalStrength = value;
+      break;
+    case 'interference_update':
+      if (isNumber(value)) communications.interference = value;
+      break;
+    case 'frequency_update':
+      if (isNumber(value)) communications.primaryFrequency = value;
+      break;
+
+    /* Navigation */
+    case 'distance_to_mass_update':
+      pilot.altitude = value;
+      break;
+    case 'navigation_update':
+      if (value?.speed !== undefined) pilot.speed = value.speed;
+      break;
+    case 'navigation_malfunction':
+      setAlert(pilot, 'red', 5);
+      break;
+    case 'navigation_hazard':
+      setHazard(pilot, { type: value.type, intensity: value.intensity ?? 'moderate' });
+      setAlert(pilot, 'yellow', 3);
+      break;
+    case 'set_interdiction':
+      arrive(setInterdiction(state, value));
+      break;
+    case 'enemy_pursuit':
+      if (value?.action === 'activate') setAlert(pilot, 'red', 3);
+      break;
+    case 'hyperdrive_control':
+      arrive(forceHyperdrive(state, value.action));
+      // A disabled drive is a damaged one, down until Engineering repairs it
+      if (value.action === 'disable' && criticalsWith(engineering.criticals, 'hyperdrive_damaged').length === 0) {
+        applyCritical(state, { entry: 'damaged_hyperdrive' }, randomStream(random, 'malfunctions'));
+      }
+      break;
+    case 'fuel_control':
+      if (value?.action === 'refuel') pilot.fuelLevel = Math.min(100, pilot.fuelLevel + value.amount);
+      else if (value?.action === 'drain') pilot.fuelLevel = Math.max(0, pilot.fuelLevel - value.amount);
+      else if (value?.action === 'critical') pilot.fuelLevel = value.level;
+      else if (value?.action === 'set_level') pilot.fuelLevel = clamp(value.level, 0, 100);
+      break;
+    case 'hypermatter_control': {
+      const hypermatter = pilot.hypermatter;
+      if (value?.action === 'set_amount' || value?.action === 'critical') hypermatter.current = Math.min(hypermatter.maximum, value.amount);
+      else if (value?.action === 'refill') hypermatter.current = hypermatter.maximum;
+      else if (value?.action === 'add') hypermatter.current = Math.min(hypermatter.maximum, hypermatter.current + value.amount);
+      else if (value?.action === 'drain') hypermatter.current = Math.max(0, hypermatter.current - value.amount);
+      break;
+    }
+    case 'emergency_scenario':
+      if (value?.type === 'total_system_failure') {
+        pilot.autopilot = false;
+        arrive(forceHyperdrive(state, 'cooldown'));
+        setAlert(pilot, 'red', 0);
+      } else if (value?.type === 'restore_systems') {
+        arrive(forceHyperdrive(state, 'force_ready'));
+        setAlert(pilot, 'normal', 0);
+      }
+      break;
+    case 'shield_update':
+      if (value?.shieldStatus !== undefined) setShieldLevel(state, value.shieldStatus, value.arc);
+      break;
+    case 'engine_temp_control':
+      if (value?.action === 'set_temperature' && value.temperature !== undefined) {
+        pilot.engineTemp = clamp(value.temperature, 0, 120);
+      }
+      break;
+
+    /* Weapons contacts */
+    case 'spawn_enemy_ship':
+      weapons.enemies.push(createContact('enemy', combat, pilot.position, value || {}));
+      break;
+    case 'wave_spawn':
+      weapons.enemies.push(...createFormation('enemy', 'enemy', value?.count ?? 3, combat, pilot.position, () => ({
+        y: combat.range(60, 90),
+        speed: combat.range(30, 70),
+        hp: 100,
+        shields: 60
+      }), value?.vehicle, value?.behavior));
+      break;
+    case 'boss_spawn':
+      weapons.enemies.push(createContact('enemy', combat, pilot.position, {
+        id: value?.id,
+        y: combat.range(40, 60),
+        speed: 25,
+        size: 3.5,
+        hp: 450,
+        shields: 250
+      }));
+      break;
+    case 'spawn_ally_ship':
+      weapons.enemies.push(createContact('ally', combat, pilot.position, value || {}));
+      break;
+    case 'ally_squad_spawn':
+      weapons.enemies.push(...createFormation('ally', 'ally-squad', value?.count ?? 4, combat, pilot.position, () => ({
+        y: combat.range(60, 90),
+        speed: combat.range(30, 70)
+      }), value?.vehicle));
+      break;
+    case 'spawn_neutral_ship':
+      weapons.enemies.push(createContact('neutral', combat, pilot.position, {
+        ...(value?.vehicle ? {} : { speed: combat.range(15, 45) }),
+        ...(value || {})
+      }));
+      break;
+    case 'neutral_convoy_spawn':
+      weapons.enemies.push(...createFormation('neutral', 'neutral-convoy', value?.count ?? 3, combat, pilot.position, () => ({
+        y: combat.range(50, 75),
+        speed: combat.range(15, 35),
+        size: combat.range(1.5, 3),
+        hp: 100,
+        shields: 50
+      }), value?.vehicle));
+      break;
+    case 'clear_all_enemies':
+      weapons.enemies = [];
+      break;
+    case 'clear_all_allies':
+      weapons.enemies = weapons.enemies.filter(e => e.faction !== 'ally');
+      break;
+    case 'clear_all_neutrals':
+      weapons.enemies = weapons.enemies.filter(e => e.faction !== 'neutral');
+      break;
+    case 'move_contact': {
+      const contact = weapons.enemies.find(e => e.id === value.id);
+      if (contact) moveContact(contact, pilot.position, value.x, value.y);
+      break;
+    }
+    case 'remove_contact':
+      weapons.enemies = weapons.enemies.filter(e => e.id !== value.id);
+      break;
+    case 'set_hostile_behavior':
+      orderHostiles(weapons, value);
+      break;
+
+    /* Engineering systems */
+    case 'system_damage':
+      if (engineering.systemStatus[value.system]) {
+        setSystemHealth(engineering, value.system, engineering.systemStatus[value.system].health - value.healthLoss);
+      }
+      break;
+    case 'system_repair':
+      (value.system === 'all' ? SYSTEM_NAMES : [value.system]).forEach(name => {
+        const system = engineering.systemStatus[name];
+        if (system) setSystemHealth(engineering, name, system.health + value.healAmount);
+      });
+      break;
+    case 'system_health_change':
+      setSystemHealth(engineering, value.system, value.health);
+      break;
+    case 'system_malfunction':
+      adjustSystem(value.system, system => (value.type === 'efficiency_loss'
+        ? { efficiency: Math.max(20, system.efficiency - value.severity) }
+        : { strain: Math.min(100, system.strain + value.severity * (value.type === 'strain_buildup' ? 2 : 1)) }));
+      break;
+    case 'system_efficiency_change':
+      adjustSystem(value.system, () => ({ efficiency: clamp(value.efficiency, 0, 100) }));
+      break;
+    case 'system_strain_change':
+      adjustSystem(value.system, () => ({ strain: clamp(value.strain, 0, 100) }));
+      break;
+    case 'critical_hit':
+      applyCritical(state, value, randomStream(random, 'malfunctions'));
+      break;
+    case 'clear_critical':
+      clearCritical(state.engineering, value.id);
+      break;
+    case 'set_ship_condition':
+      setShipCondition(state, value);
+      break;
+    case 'ship_strain_update':
+      setShipCondition(state, { systemStrain: value.current });
+      break;
+  }
+  return notifications;
+}
+
+// Engineering sets its power and runs boosts and emergency procedures at the
+// console and reports them; fold that report into the authoritative state while
+// keeping the boost time the server has already simulated.
+export function mergeStationState(state: RoomState, station: string, report: Record<string, any> | undefined) {
+  if (station !== 'engineering' || !report) return;
+  const engineering = state.engineering;
+
+  // Only the power settings; system health and the repair queue are the server's
+  if (report.powerDistribution) {
+    const distribution = engineering.powerDistribution;
+    const { reactorOutput, emergencyPower, powerAllocations = {} } = report.powerDistribution;
+    if (isNumber(reactorOutput)) distribution.reactorOutput = clamp(reactorOutput, 0, shipProfile(state).reactorOutput);
+    if (typeof emergencyPower === 'boolean') distribution.emergencyPower = emergencyPower;
+    distribution.totalPower = availablePower(engineering);
+    SYSTEM_NAMES.forEach(system => {
+      if (isNumber(powerAllocations[system])) distribution.powerAllocations[system] = powerAllocations[system];
+    });
+  }
+  if (report.emergencyProcedures) {
+    const procedures = engineering.emergencyProcedures;
+    (Object.keys(procedures) as (keyof typeof procedures)[]).forEach(procedure => {
+      if (typeof report.emergencyProcedures[procedure] === 'boolean') procedures[procedure] = report.emergencyProcedures[procedure];
+    });
+  }
+  if (Array.isArray(report.activeBoosts)) {
+    // Boosts coming online strain the ship
+    report.activeBoosts.forEach((boost: EngineeringState['activeBoosts'][number]) => {
+      if (!engineering.activeBoosts.some(b => b.id === boost.id)) addSystemStrain(state, boostStrain(boost));
+    });
+    engineering.activeBoosts = report.activeBoosts.map((boost: EngineeringState['activeBoosts'][number]) => {
+      const known = engineering.activeBoosts.find(b => b.id === boost.id);
+      return known ? { ...boost, timeRemaining: Math.min(known.timeRemaining, boost.timeRemaining) } : boost;
+    });
+  }
+}
+
+/* ---------- POWER ---------- */
+
+// A fresh reactor's output, shared evenly between the systems
+function evenAllocations(reactorOutput: number): PowerAllocations {
+  const share = Math.floor(reactorOutput / SYSTEM_NAMES.length);
+  return { weapons: share, shields: share, engines: share, sensors: share, lifeSupport: share, communications: share };
+}
+
+// A smaller reactor keeps Engineering's split, scaled down until it fits
+function fitAllocations(allocations: PowerAllocations, reactorOutput: number) {
+  const total = SYSTEM_NAMES.reduce((sum, system) => sum + allocations[system], 0);
+  if (total <= reactorOutput) return;
+  SYSTEM_NAMES.forEach(system => {
+    allocations[system] = Math.floor((allocations[system] * reactorOutput) / total);
+  });
+}
+
+// Work out what the allocations deliver and hold the helm and comms to it;
+// Weapons and sensors read the effects at their consoles. A disabled or
+// destroyed ship has no helm and no guns whatever the allocations say.
+function tickPower(state: RoomState) {
+  const effects = powerEffects(state.engineering);
+  const operational = state.ship.condition === 'operational';
+  if (!operational) {
+    effects.engines = { maxSpeed: 0, turnRate: 0 };
+    effects.weapons = { heatDissipation: effects.weapons.heatDissipation, fireRate: 0 };
+  }
+  state.weapons.weaponsOnline = operational;
+  state.powerEffects = effects;
+  state.pilot.speed = Math.min(state.pilot.speed, effects.engines.maxSpeed);
+  const { signalFloor, signalCeiling } = effects.communications;
+  state.communications.signalStrength = clamp(state.communications.signalStrength, signalFloor, signalCeiling);
+}
+
+/* ---------- LOOP ---------- */
+
+// Advance a room's state by dt seconds. Returns notifications the caller
+// should emit to the room (event name + payload).
+export function tickGameState(state: RoomState, dt: number, random: RandomState, now = Date.now()) {
+  const notifications: Notification[] = [];
+  const combat = randomStream(random, 'combat');
+  tickPower(state);
+  tickPilot(state.pilot, shipProfile(state), dt);
+  moveShip(state.pilot, dt);
+  tickManeuvers(state, dt);
+  const arrival = tickHyperdrive(state, dt, now);
+  if (arrival) notifications.push({ event: 'hyperspace_arrival', payload: { system: arrival.id, region: arrival.region } });
+  tickEngineering(state.engineering, dt, randomStream(random, 'malfunctions'), notifications);
+  tickCriticals(state.engineering, dt);
+  // Contacts hold where they are until the ship comes back out of hyperspace
+  if (!inHyperspace(state.pilot)) {
+    tickEnemies(state, dt, now, combat);
+    tickHostiles(state, dt, combat).forEach(payload => notifications.push({ event: 'hostile_fire', payload }));
+  }
+  tickShields(state, dt);
+  tickHull(state, dt);
+  return notifications;
+}
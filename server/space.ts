@@ -0,0 +1,90 @@
+// Sublight motion in local space.
+// The helm's heading and throttle fly the crew's ship across the plane in
+// src/space.ts; contacts steer for their waypoints at their own speed and
+// sensor traffic drifts. After every tick each contact's radar bearing and
+// range (x and y) are worked out again from the positions, so the Weapons
+// radar, hostile fire, Comms and the GM all read one picture.
+
+import type { EnemyShip, Ship, SpaceVector } from '../src/types';
+import type { Random } from '../src/random';
+import { bearingBetween, headingAlong, pointOnScope, rangeBetween, velocityFor } from '../src/space';
+import type { RoomState } from './simulation';
+
+type PilotState = RoomState['pilot'];
+type WeaponsState = RoomState['weapons'];
+
+export const WAYPOINT_REACHED = 10; // radar range units from its waypoint a contact counts as there
+const CONTACT_TURN_RATE = 45; // degrees a contact turns per second
+// Radar range sensor traffic arrives at from the crew's ship, and how fast it drifts
+const TRAFFIC_RANGE = { min: 10, max: 95 };
+const TRAFFIC_DRIFT = { min: 2, max: 15 }; // sublight speed points
+
+const wrapDeg = (d: number) => ((d % 360) + 360) % 360;
+const ORIGIN: SpaceVector = { x: 0, y: 0 };
+
+const advance = (position: SpaceVector, velocity: SpaceVector, dt: number): SpaceVector => ({
+  x: position.x + velocity.x * dt,
+  y: position.y + velocity.y * dt
+});
+
+export function createShipMotion() {
+  return { position: { ...ORIGIN }, velocity: { ...ORIGIN } };
+}
+
+// The helm's heading and throttle set the ship's velocity
+export function moveShip(pilot: PilotState, dt: number) {
+  pilot.velocity = velocityFor(pilot.heading.x, pilot.speed);
+  pilot.position = advance(pilot.position, pilot.velocity, dt);
+}
+
+// Where a contact spawned by radar bearing and range sits, flying on its heading
+export function placeContact(origin: SpaceVector, bearing: number, range: number, heading: number, speed: number) {
+  return { position: pointOnScope(origin, bearing, range), velocity: velocityFor(heading, speed) };
+}
+
+// Heading that points a contact at a bearing from the crew's ship towards it
+export const inboundHeading = (bearing: number) => headingAlong(bearing + 180);
+
+export function waypointReached(contact: EnemyShip) {
+  return !!contact.waypoint && rangeBetween(contact.position, contact.waypoint) < WAYPOINT_REACHED;
+}
+
+// Turn towards the waypoint at the contact's turn rate and fly on
+export function steerContact(contact: EnemyShip, dt: number) {
+  if (contact.waypoint) {
+    let turn = wrapDeg(headingAlong(bearingBetween(contact.position, contact.waypoint)) - contact.heading);
+    if (turn > 180) turn -= 360;
+    const maxTurn = CONTACT_TURN_RATE * dt;
+    contact.heading = wrapDeg(contact.heading + Math.sign(turn) * Math.min(Math.abs(turn), maxTurn));
+  }
+  contact.velocity = velocityFor(contact.heading, contact.speed);
+  contact.position = advance(contact.position, contact.velocity, dt);
+}
+
+// The GM drops a contact at a radar bearing and range; it picks a fresh waypoint from there
+export function moveContact(contact: EnemyShip, origin: SpaceVector, bearing: number, range: number) {
+  contact.position = pointOnScope(origin, bearing, range);
+  contact.waypoint = undefined;
+  contact.x = bearing;
+  contact.y = range;
+}
+
+// Radar bearing and range of every contact from the crew's ship
+export function fixContacts(weapons: WeaponsState, origin: SpaceVector) {
+  weapons.enemies.forEach(contact => {
+    contact.x = bearingBetween(origin, contact.position);
+    contact.y = rangeBetween(origin, contact.position);
+  });
+}
+
+/* ---------- SENSOR TRAFFIC ---------- */
+
+// A ship arriving on sensors somewhere around the crew's ship; inactive ships hold station
+export function trafficMotion(random: Random, origin: SpaceVector = ORIGIN): Pick<Ship, 'position' | 'velocity'> {
+  const position = pointOnScope(origin, random.range(0, 360), random.range(TRAFFIC_RANGE.min, TRAFFIC_RANGE.max));
+  return { position, velocity: velocityFor(random.range(0, 360), random.range(TRAFFIC_DRIFT.min, TRAFFIC_DRIFT.max)) };
+}
+
+export function driftShip(ship: Ship, dt: number): Ship {
+  return ship.status === 'Active' ? { ...ship, position: advance(ship.position, ship.velocity, dt) } : ship;
+}
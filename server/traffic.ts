@@ -0,0 +1,248 @@
+// Server-side sensor traffic.
+// Every room owns one ShipTraffic picture. Ships arrive as a Poisson process
+// sized by the galaxy region, convoys tend to leave together and pinned ships
+// stay put. Each ship flies a civilian hull from the vehicle database and
+// arrives somewhere around the crew's ship in local space (see space.ts).
+// Stations only render the ship_data_update broadcasts and send pin commands,
+// so Communications, Weapons and the GM always see the same ships.
+// All rolls come from the room's 'traffic' stream.
+
+import type { Ship, ShipRegion, ShipTraffic, SpaceVector } from '../src/types';
+import type { ShipDataUpdate } from '../src/protocol';
+import type { Random } from '../src/random';
+import { listTrafficVehicles } from './vehicles';
+import { driftShip, trafficMotion } from './space';
+
+export const TRAFFIC_TICK_MS = 5000;
+
+// Arrivals per tick (lambda) and the steady-state ship count for each region
+const REGION_PARAMS: Record<ShipRegion, { lambda: number; target: number }> = {
+  'Core Worlds': { lambda: 25, target: 250 },
+  'Colonies': { lambda: 12.5, target: 125 },
+  'Inner Rim': { lambda: 5.2, target: 52 },
+  'Mid Rim': { lambda: 1.5, target: 15 },
+  'Outer Rim': { lambda: 0.4, target: 4 },
+  'Wild Space': { lambda: 0.1, target: 1 },
+  'Unknown Regions': { lambda: 0.05, target: 0.5 }
+};
+
+export const SHIP_REGIONS = Object.keys(REGION_PARAMS) as ShipRegion[];
+
+const DEPARTURE_PROBABILITY: Record<Ship['type'], number> = {
+  transient: 0.3,
+  regular: 0.1,
+  persistent: 0.01
+};
+
+const CONVOY_DEPARTURE_MULTIPLIER = 3;
+const STATUS_TOGGLE_CHANCE = 0.05;
+
+// Organization list for ship designations
+const ORGANIZATIONS = [
+  "Imperial Galactic Governance Authority",
+  "Imperial Security & Intelligence Directorate",
+  "Imperial Inquisitorial Command",
+  "Sith High Command",
+  "Gerrera Resistance Movement",
+  "Mandalorian Death Watch",
+  "Mandalorian Children's Watch",
+  "Mandalorian Clan Alliance",
+  "Local Swoop Gang Networks",
+  "Hutt Cartel Crime Syndicate",
+  "Black Sun Criminal Enterprise",
+  "Pyke Syndicate Operations",
+  "Shadow Collective Alliance",
+  "Crymorah Syndicate Network",
+  "Zygerrian Slave Trade Empire",
+  "Kintan Striders Mercenary Group",
+  "Car'das Smuggling Consortium",
+  "Bounty Hunters' Guild Network",
+  "Czerka Arms Manufacturing",
+  "BlasTech Industrial Systems",
+  "Merr-Sonn Defense Solutions",
+  "Arakyd Industrial Technologies",
+  "Industrial Automaton Droidworks",
+  "Baktoid Combat Systems",
+  "Colla Design Collective",
+  "Tagge Industrial Mining Group",
+  "Techno Union Conglomerate",
+  "Haor Chall Engineering Corps",
+  "Santhe-Sienar Technologies Group",
+  "Sienar Fleet Systems Division",
+  "Kuat Drive Yards Shipbuilding",
+  "Kuat Systems Engineering Division",
+  "Rendili StarDrive Corporation",
+  "Corellian Engineering Works",
+  "Cygnus Spaceworks Limited",
+  "Loramarr Shipyards Consortium",
+  "Trade Federation Commerce Authority",
+  "InterGalactic Banking Federation",
+  "Corporate Alliance Board",
+  "Commerce Guild Trading Authority",
+  "Commerce Guild Executive Council",
+  "Mining Guild Extraction Services",
+  "Commerce Guild Security Forces",
+  "Arcona Mineral Resources Group",
+  "Dorvalla Mining Operations",
+  "Offworld Mining Corporation",
+  "SoroSuub Industrial Group",
+  "Commerce Guild Financial Services",
+  "Commerce Guild Arbitration Bureau",
+  "Kelris Industrial Tools & Supplies",
+  "Koensayr Equipment Distribution",
+  "Blarn Heavy Industrial Exchange",
+  "Reelo Modular Systems",
+  "Vyndra Commercial Trade Centers",
+  "Foshan Starport Retail Network",
+  "Crionex Consumer Markets",
+  "Qiraal Metalworks & Fabrication",
+  "Molvar Field Equipment Services",
+  "Polis Massa Scientific Procurement",
+  "Yarith Galactic Logistics",
+  "Caduceus Shipping Network",
+  "Dressem Cargo Systems",
+  "Trandoshan StarLift Services",
+  "Vandelhelm Bulk Transport",
+  "Yag'Dhul Route Navigation",
+  "Ylesia Freight Cooperative",
+  "Entralla Standard Shipping",
+  "Skako HydroLift Services",
+  "Bespin Tibanna Gas Solutions",
+  "Gentes ForgeFuel Refineries",
+  "Abhean Fuel Distribution",
+  "Kwenn Station Maintenance",
+  "Neimoidian Trade Commission",
+  "Zeltros Business Arbitration",
+  "Muunilinst Financial Compliance",
+  "Guild Standard Hostel Network",
+  "Bonadan MealStation Franchise",
+  "No Registered Designation"
+];
+
+export function isShipRegion(region: unknown): region is ShipRegion {
+  return typeof region === 'string' && SHIP_REGIONS.includes(region as ShipRegion);
+}
+
+function createShip(random: Random, existingShips: Ship[], origin?: SpaceVector): Ship {
+  // 60% transient, 35% regular, 5% persistent
+  const typeRoll = random.next();
+  const type: Ship['type'] = typeRoll < 0.6 ? 'transient' : typeRoll < 0.95 ? 'regular' : 'persistent';
+
+  // 30% fly in a convoy, usually one that is already on sensors
+  let groupId: string | undefined;
+  if (random.chance(0.3)) {
+    const existingGroups = Array.from(new Set(
+      existingShips.map(ship => ship.groupId).filter((group): group is string => group !== undefined)
+    ));
+    groupId = existingGroups.length > 0 && random.chance(0.7)
+      ? random.pick(existingGroups)
+      : `convoy-${random.tag()}`;
+  }
+
+  return {
+    id: `ship-${random.tag()}`,
+    designation: random.chance(0.77) ? random.pick(ORGANIZATIONS) : null,
+    status: random.chance(0.7) ? 'Active' : 'Inactive',
+    entryTime: Date.now(),
+    type,
+    age: 0,
+    groupId,
+    vehicle: random.pick(listTrafficVehicles()).id,
+    ...trafficMotion(random, origin)
+  };
+}
+
+// Fill the scope to roughly the region's steady-state count
+function populate(random: Random, region: ShipRegion, origin?: SpaceVector) {
+  const { target } = REGION_PARAMS[region];
+  const count = Math.max(0, Math.round(target + (random.next() - 0.5) * target * 0.3));
+  const ships: Ship[] = [];
+  for (let i = 0; i < count; i++) ships.push(createShip(random, ships, origin));
+  return ships;
+}
+
+// Knuth's method; fine for the small lambdas used here
+function poissonArrivals(random: Random, lambda: number) {
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = 1;
+  do {
+    k++;
+    p *= random.next();
+  } while (p > limit);
+  return k - 1;
+}
+
+export function createTraffic(random: Random, region: ShipRegion = 'Core Worlds', origin?: SpaceVector): ShipTraffic {
+  return {
+    ships: populate(random, region, origin),
+    pinnedShips: {},
+    doublePinnedShipId: null,
+    currentRegion: region
+  };
+}
+
+// A new region means a new scope full of ships around the crew's ship; pins on the old ones go with them
+export function setRegion(traffic: ShipTraffic, region: ShipRegion, random: Random, origin?: SpaceVector) {
+  traffic.currentRegion = region;
+  traffic.ships = populate(random, region, origin);
+  traffic.pinnedShips = {};
+  traffic.doublePinnedShipId = null;
+}
+
+// Advance one TRAFFIC_TICK_MS step: age, drift, departures, status flips and
+// arrivals around the crew's ship at origin
+export function tickTraffic(traffic: ShipTraffic, random: Random, origin?: SpaceVector) {
+  const pinned = traffic.pinnedShips;
+  const aged = traffic.ships.map(ship => driftShip({ ...ship, age: ship.age + 1 }, TRAFFIC_TICK_MS / 1000));
+
+  // A convoy leaves when any of its ships decides to
+  const departingGroups = new Set<string>();
+  aged.forEach(ship => {
+    if (pinned[ship.id] || !ship.groupId) return;
+    if (random.chance(DEPARTURE_PROBABILITY[ship.type])) departingGroups.add(ship.groupId);
+  });
+
+  const staying = aged
+    .filter(ship => {
+      if (pinned[ship.id]) return true;
+      let departure = DEPARTURE_PROBABILITY[ship.type];
+      if (ship.groupId && departingGroups.has(ship.groupId)) departure *= CONVOY_DEPARTURE_MULTIPLIER;
+      return !random.chance(departure);
+    })
+    .map(ship => (random.chance(STATUS_TOGGLE_CHANCE)
+      ? { ...ship, status: ship.status === 'Active' ? 'Inactive' as const : 'Active' as const }
+      : ship));
+
+  const arrivals = poissonArrivals(random, REGION_PARAMS[traffic.currentRegion].lambda);
+  for (let i = 0; i < arrivals; i++) staying.push(createShip(random, staying, origin));
+  traffic.ships = staying;
+}
+
+// White pin on or off. Unpinning the red ship also clears the red pin.
+// Returns false when the ship is no longer on sensors.
+export function pinShip(traffic: ShipTraffic, shipId: string, pinned: boolean) {
+  if (!traffic.ships.some(ship => ship.id === shipId)) return false;
+
+  if (pinned) {
+    traffic.pinnedShips[shipId] = traffic.pinnedShips[shipId] || 'white';
+  } else {
+    delete traffic.pinnedShips[shipId];
+    if (traffic.doublePinnedShipId === shipId) traffic.doublePinnedShipId = null;
+  }
+  return true;
+}
+
+// Move the red pin to a ship (null clears it). The previous red ship is unpinned.
+export function doublePinShip(traffic: ShipTraffic, shipId: string | null) {
+  if (shipId !== null && !traffic.ships.some(ship => ship.id === shipId)) return false;
+
+  if (traffic.doublePinnedShipId) delete traffic.pinnedShips[traffic.doublePinnedShipId];
+  traffic.doublePinnedShipId = shipId;
+  if (shipId) traffic.pinnedShips[shipId] = 'red';
+  return true;
+}
+
+export function shipDataUpdate(room: string, traffic: ShipTraffic): ShipDataUpdate {
+  return { ...traffic, room, timestamp: Date.now() };
+}
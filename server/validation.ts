@@ -0,0 +1,513 @@
+// Inbound payload validation.
+// Every client event is checked before any handler or relay sees it. A check
+// returns null for a good value or a short reason, which the server sends back
+// to the sender as action_rejected instead of applying the payload.
+
+import type { ManeuverName, PowerAllocations, PowerSystem, StationName } from '../src/types';
+import type {
+  ClientEventName,
+  CommBroadcastMap,
+  GmBroadcastType,
+  ManeuverOrder,
+  PlayerActionType,
+  RepairOrder,
+  ShieldAngle,
+  WeaponFired
+} from '../src/protocol';
+import { shipProfile, type RoomState } from './simulation';
+import { SKILL_CHECKS } from '../src/dice';
+import { CRITICAL_HITS, lostBandAt } from '../src/criticals';
+import { MANEUVER_NAMES } from '../src/maneuvers';
+import { AMMO_DEF } from '../src/gunnery';
+import { availablePower } from '../src/power';
+import { SHIP_REGIONS } from './traffic';
+import { isPlayerShip, isVehicleId } from './vehicles';
+import { HOSTILE_BEHAVIORS } from './combat';
+import { checkShieldAngle } from './shields';
+import { checkStrainVent } from './hull';
+import { checkRoutePlot, isSystemId } from './galaxy';
+import { checkJump, checkPlot, inHyperspace } from './hyperdrive';
+import { checkManeuver } from './maneuvers';
+import { isValidRoomName } from './rooms';
+import { checkDroidAssignment, checkRepairCancel, checkRepairOrder } from './repairs';
+import { checkShotDamage } from './weapons';
+
+type Check = (value: unknown) => string | null;
+type PowerSettings = Partial<Pick<RoomState['engineering']['powerDistribution'], 'reactorOutput' | 'emergencyPower'>>;
+
+export const SPEED_RANGE = { min: 0, max: 100 };
+export const HEADING_RANGE = { min: -180, max: 180 };
+export const POWER_SYSTEM_MAX = 150;
+
+const STATION_NAMES: StationName[] = ['communications', 'engineering', 'navigation', 'pilot', 'weapons', 'gm'];
+const POWER_SYSTEMS: PowerSystem[] = ['weapons', 'shields', 'engines', 'sensors', 'lifeSupport', 'communications'];
+// What a disabled ship cannot do until Engineering vents its strain
+const HELM_ACTIONS: PlayerActionType[] = ['set_speed', 'update_heading_x', 'update_heading_y', 'hyperdrive_jump', 'toggle_autopilot', 'maneuver'];
+
+/* ---------- CHECKS ---------- */
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const anything: Check = () => null;
+
+const number = (min = -Infinity, max = Infinity): Check => (v) => {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return 'must be a number';
+  if (v < min || v > max) return `must be between ${min} and ${max}`;
+  return null;
+};
+
+const boolean: Check = (v) => (typeof v === 'boolean' ? null : 'must be true or false');
+
+const string = (maxLength = 256): Check => (v) => {
+  if (typeof v !== 'string') return 'must be text';
+  if (v.length === 0 || v.length > maxLength) return `must be 1-${maxLength} characters`;
+  return null;
+};
+
+const oneOf = (...options: readonly string[]): Check => (v) => {
+  if (typeof v === 'string' && options.includes(v)) return null;
+  return options.length > 6 ? 'is not recognised' : `must be one of ${options.join(', ')}`;
+};
+
+const list: Check = (v) => (Array.isArray(v) ? null : 'must be a list');
+
+// A list whose every entry passes the check
+const listOf = (check: Check): Check => (v) => {
+  if (!Array.isArray(v)) return 'must be a list';
+  for (const [index, entry] of v.entries()) {
+    const reason = check(entry);
+    if (reason) return `entry ${index + 1} ${reason}`;
+  }
+  return null;
+};
+
+const optional = (check: Check): Check => (v) => (v === undefined ? null : check(v));
+
+const either = (...checks: Check[]): Check => (v) => {
+  const reasons = checks.map(check => check(v));
+  return reasons.includes(null) ? null : reasons[0];
+};
+
+// An object whose listed fields pass their checks; unlisted fields are left alone
+const shape = (fields: Record<string, Check>): Check => (v) => {
+  if (!isObject(v)) return 'must be an object';
+  for (const [key, check] of Object.entries(fields)) {
+    const reason = check(v[key]);
+    if (reason) return `${key} ${reason}`;
+  }
+  return null;
+};
+
+const object = shape({});
+
+// An order whose action picks the fields it has to carry
+const actionOrder = (fields: Record<string, Check>): Check => (v) => (
+  shape({ action: oneOf(...Object.keys(fields)) })(v) ?? fields[(v as { action: string }).action](v)
+);
+
+const powerAllocation: Check = (v) => {
+  if (!isObject(v)) return 'must be an object';
+  for (const [key, amount] of Object.entries(v)) {
+    if (key === 'maxAvailable') continue;
+    if (!POWER_SYSTEMS.includes(key as PowerSystem)) return `${key} is not a ship system`;
+    const reason = number(0, POWER_SYSTEM_MAX)(amount);
+    if (reason) return `${key} ${reason}`;
+  }
+  return null;
+};
+
+// Snapshot folders are named after the room, so nothing that could leave SAVE_DIR
+const roomName: Check = (v) => (isValidRoomName(v) ? null : 'is not a valid room name');
+
+const count = optional(number(1, 20));
+const percent = number(0, 100);
+
+const vehicle: Check = (v) => (isVehicleId(v) ? null : 'is not in the vehicle database');
+const playerShip: Check = (v) => (isPlayerShip(v) ? null : 'is not a ship the crew can fly');
+const behavior = oneOf(...HOSTILE_BEHAVIORS);
+const firingArc = oneOf('fore', 'aft', 'port', 'starboard');
+const shipSpawn = shape({ vehicle: optional(vehicle), behavior: optional(behavior), focusArc: optional(firingArc) });
+const formationSpawn = shape({ count, ecmFreqs: optional(list), vehicle: optional(vehicle), behavior: optional(behavior) });
+
+const EMERGENCY_PROCEDURES = ['emergencyPowerActive', 'emergencyShutdownActive', 'lifeSupportPriority'];
+
+const emergencyProcedures: Check = (v) => {
+  if (!isObject(v)) return 'must be an object';
+  for (const [key, active] of Object.entries(v)) {
+    if (!EMERGENCY_PROCEDURES.includes(key)) return `${key} is not an emergency procedure`;
+    const reason = boolean(active);
+    if (reason) return `${key} ${reason}`;
+  }
+  return null;
+};
+
+const systemBoost = shape({
+  id: string(),
+  systemName: string(),
+  boostType: oneOf('performance', 'efficiency', 'output'),
+  magnitude: number(0),
+  duration: number(0),
+  strainCost: number(0),
+  timeRemaining: number(0)
+});
+
+// Engineering's console reports its power settings; repairs and system health
+// are the server's, and so is the total power (the reactor plus any emergency power)
+const stationReport = shape({
+  powerDistribution: optional(shape({
+    reactorOutput: optional(number(0)),
+    emergencyPower: optional(boolean),
+    powerAllocations: optional(powerAllocation)
+  })),
+  activeBoosts: optional(listOf(systemBoost)),
+  emergencyProcedures: optional(emergencyProcedures)
+});
+
+// A whole number of dice or ranks
+const dice = (min: number, max: number): Check => (v) => (
+  Number.isInteger(v) ? number(min, max)(v) : 'must be a whole number'
+);
+
+// A helm manoeuvre and the fields its kind carries
+const MANEUVER_FIELDS: Partial<Record<ManeuverName, Check>> = {
+  fly: shape({ contact: string(), close: boolean }),
+  gain_the_advantage: shape({ characteristic: dice(1, 6), skill: dice(0, 5) }),
+  angle_shields: shape({ from: firingArc, to: firingArc })
+};
+const maneuverOrder: Check = (v) => (
+  shape({ maneuver: oneOf(...MANEUVER_NAMES) })(v) ?? MANEUVER_FIELDS[(v as ManeuverOrder).maneuver]?.(v) ?? null
+);
+
+/* ---------- RULES ---------- */
+
+const PLAYER_ACTION_RULES: Record<PlayerActionType, Check> = {
+  set_frequency: number(0, 999.9),
+  set_secondary_frequency: number(0, 999.9),
+  set_signal_strength: percent,
+  set_interference: percent,
+  toggle_emergency_beacon: boolean,
+  set_power_allocation: powerAllocation,
+  toggle_emergency_power: boolean,
+  set_reactor_output: number(0),
+  vent_strain: object,
+  queue_repair: shape({
+    system: oneOf(...POWER_SYSTEMS),
+    damageType: oneOf('minor', 'major', 'critical'),
+    droids: dice(1, 20),
+    juryRigged: optional(boolean)
+  }),
+  assign_repair_droids: shape({ id: string(), droids: dice(1, 20) }),
+  cancel_repair: shape({ id: string() }),
+  set_speed: number(SPEED_RANGE.min, SPEED_RANGE.max),
+  update_heading_x: number(HEADING_RANGE.min, HEADING_RANGE.max),
+  update_heading_y: number(HEADING_RANGE.min, HEADING_RANGE.max),
+  set_target_system: string(64),
+  plan_route: (v) => (isSystemId(v) ? null : 'is not in the galaxy database'),
+  clear_route: object,
+  set_jump_plan: number(0.1, 24),
+  plot_jump: shape({ characteristic: dice(1, 6), skill: dice(0, 5) }),
+  hyperdrive_jump: number(0),
+  toggle_autopilot: number(0, 1),
+  emergency_power: number(0, 1),
+  emergency_stop: number(),
+  maneuver: maneuverOrder,
+  angle_shields: shape({ from: firingArc, to: firingArc }),
+  level_shields: object,
+  red_alert: boolean,
+  clear_all_assigned_weapons: object,
+  weapons_offline: boolean,
+  hyperdrive_ready: boolean,
+  fuel_empty: boolean,
+  communications_blackout: boolean,
+  gm_interference_change: percent,
+  reduce_interference: percent,
+  add_interference: percent,
+  jam_all_signals: boolean,
+  set_distance_to_mass: number(0)
+};
+
+const GM_BROADCAST_RULES: Record<GmBroadcastType, Check> = {
+  test_connection: either(string(), object),
+
+  set_player_ship: playerShip,
+
+  signal_strength_update: percent,
+  interference_update: percent,
+  frequency_update: number(0, 999.9),
+  region_update: oneOf(...SHIP_REGIONS),
+  emergency_beacon_update: boolean,
+  new_message: shape({ id: string(), from: string(), content: string(2000) }),
+  scan_started: shape({ analysisMode: string(64) }),
+  scan_response: object,
+  composer_protocol_change: string(64),
+
+  distance_to_mass_update: number(0),
+  navigation_update: shape({ speed: optional(number(SPEED_RANGE.min, SPEED_RANGE.max)) }),
+  navigation_malfunction: anything,
+  navigation_hazard: shape({ type: oneOf('asteroid_field', 'gravity_well', 'ion_storm', 'solar_flare') }),
+  hyperdrive_control: shape({ action: oneOf('force_ready', 'force_charge', 'force_jump', 'emergency_stop', 'disable', 'cooldown', 'pull_out') }),
+  set_interdiction: boolean,
+  fuel_control: actionOrder({
+    set_level: shape({ level: percent }),
+    critical: shape({ level: percent }),
+    refuel: shape({ amount: number(0, 100) }),
+    drain: shape({ amount: number(0, 100) })
+  }),
+  hypermatter_control: actionOrder({
+    set_amount: shape({ amount: number(0) }),
+    critical: shape({ amount: number(0) }),
+    add: shape({ amount: number(0) }),
+    drain: shape({ amount: number(0) }),
+    refill: object
+  }),
+  asteroid_field_control: shape({ action: oneOf('start', 'stop') }),
+  enemy_pursuit: shape({ action: oneOf('activate', 'deactivate') }),
+  shield_update: shape({ shieldStatus: percent, arc: optional(firingArc) }),
+  engine_temp_control: shape({ action: oneOf('set_temperature'), temperature: number(0, 120) }),
+  emergency_scenario: shape({ type: string(64) }),
+
+  spawn_enemy_ship: shipSpawn,
+  wave_spawn: formationSpawn,
+  boss_spawn: object,
+  spawn_ally_ship: shipSpawn,
+  ally_squad_spawn: formationSpawn,
+  spawn_neutral_ship: shipSpawn,
+  neutral_convoy_spawn: formationSpawn,
+  clear_all_enemies: anything,
+  clear_all_allies: anything,
+  clear_all_neutrals: anything,
+  move_contact: shape({ id: string(), x: number(0, 360), y: number(0, 100) }),
+  remove_contact: shape({ id: string() }),
+  set_hostile_behavior: shape({ id: optional(string()), behavior, focusArc: optional(firingArc) }),
+  ecm_burst: anything,
+  add_primary_weapon: shape({ weapon: string(64) }),
+  add_secondary_weapon: shape({ weapon: string(64) }),
+  clear_primary_weapons: anything,
+  clear_secondary_weapons: anything,
+
+  set_power_allocation: shape({ system: oneOf(...POWER_SYSTEMS), value: number(0, POWER_SYSTEM_MAX) }),
+  system_damage: shape({ system: string(64), healthLoss: number(0) }),
+  system_repair: shape({ system: string(64), healAmount: number(0) }),
+  system_malfunction: shape({ system: string(64), type: oneOf('power_surge', 'efficiency_loss', 'strain_buildup'), severity: number(0) }),
+  system_efficiency_change: shape({ system: string(64), efficiency: percent }),
+  system_strain_change: shape({ system: string(64), strain: percent }),
+  system_health_change: shape({ system: string(64), health: percent }),
+  power_update: shape({ reactorOutput: optional(number(0)), emergencyPower: optional(boolean) }),
+  reactor_fluctuation: shape({ intensity: number(0), duration: number(0) }),
+  system_configuration: object,
+  random_event: object,
+  droid_allocation: shape({ availableDroids: number(0) }),
+  ship_strain_update: shape({ current: number(0), maximum: number(0) }),
+  ship_emergency_shutdown: shape({ message: string(500) }),
+  critical_hit: shape({
+    entry: optional(oneOf(...CRITICAL_HITS.map(entry => entry.id))),
+    roll: optional(number(1, 200)),
+    modifier: optional(number(-100, 100))
+  }),
+  clear_critical: shape({ id: string() }),
+  set_ship_condition: shape({
+    hullTrauma: optional(number(0)),
+    systemStrain: optional(number(0)),
+    condition: optional(oneOf('operational', 'disabled', 'destroyed'))
+  })
+};
+
+const COMM_BROADCAST_RULES: Record<keyof CommBroadcastMap, Check> = {
+  frequency_update: number(0, 999.9),
+  analysis_mode_update: string(64)
+};
+
+// Envelope checks for every event a client may send
+const EVENT_RULES: Record<ClientEventName, Check> = {
+  join: shape({
+    station: oneOf(...STATION_NAMES),
+    room: optional(string(32)),
+    name: optional(string(32)),
+    password: optional(string(64)),
+    token: optional(string(64))
+  }),
+  list_rooms: anything,
+  create_room: shape({
+    name: string(32),
+    gmPassword: optional(string(64)),
+    seed: optional(number(0, 0xffffffff)),
+    ship: optional(playerShip)
+  }),
+  archive_room: shape({ name: string(32) }),
+  player_action: shape({ action: oneOf(...Object.keys(PLAYER_ACTION_RULES)), room: optional(string(32)) }),
+  gm_broadcast: shape({ type: oneOf(...Object.keys(GM_BROADCAST_RULES)), room: optional(string(32)) }),
+  comm_broadcast: shape({ type: oneOf(...Object.keys(COMM_BROADCAST_RULES)), room: optional(string(32)) }),
+  pin_ship: shape({ room: string(32), shipId: string(), pinned: boolean }),
+  double_pin_ship: shape({ room: string(32), shipId: (v) => (v === null ? null : string()(v)) }),
+  skill_check: shape({
+    room: string(32),
+    check: oneOf(...Object.keys(SKILL_CHECKS)),
+    characteristic: dice(1, 6),
+    skill: dice(0, 5),
+    challenge: optional(dice(0, 5)),
+    boost: optional(dice(0, 5)),
+    setback: optional(dice(0, 5))
+  }),
+
+  state_update: shape({ station: oneOf(...STATION_NAMES), state: stationReport }),
+  engineering_action: shape({ type: string(64) }),
+  engineering_performance: shape({ type: string(64) }),
+  weapon_fired: shape({
+    targetId: string(),
+    hit: boolean,
+    weapon: optional(string(64)),
+    ammo: optional(oneOf(...Object.keys(AMMO_DEF))),
+    damage: optional(shape({ shieldDamage: number(0), hullDamage: number(0) })),
+    consumedMissile: optional(boolean)
+  }),
+  salvage_complete: shape({ targetId: string(), reward: oneOf('missile', 'heatsink') }),
+  targeting_data_update: shape({ targets: list }),
+  lrc_update: shape({ html: (v) => (typeof v === 'string' ? null : 'must be text') }),
+  lrc_request: object,
+  actuator_stream: shape({ imageData: string(5_000_000) }),
+  debug_room_request: object,
+
+  save_snapshot: shape({ room: roomName, label: optional(string(48)) }),
+  load_snapshot: shape({ room: roomName, id: string(128) }),
+  list_snapshots: shape({ room: roomName })
+};
+
+/* ---------- VALIDATION ---------- */
+
+// The reactor plus emergency reserve has to cover every system's allocation.
+// A station report may change the reactor settings in the same breath.
+function checkPowerBudget(allocation: Partial<PowerAllocations>, state: RoomState, reactor: PowerSettings = {}) {
+  const distribution = state.engineering.powerDistribution;
+  const merged = { ...distribution.powerAllocations };
+  POWER_SYSTEMS.forEach(system => {
+    if (allocation[system] !== undefined) merged[system] = allocation[system]!;
+  });
+
+  const total = POWER_SYSTEMS.reduce((sum, system) => sum + merged[system], 0);
+  const reactorOutput = Math.min(reactor.reactorOutput ?? distribution.reactorOutput, shipProfile(state).reactorOutput);
+  const available = availablePower({
+    ...state.engineering,
+    powerDistribution: { ...distribution, reactorOutput, emergencyPower: reactor.emergencyPower ?? distribution.emergencyPower }
+  });
+  return total > available ? `${total} units requested, only ${available} available` : null;
+}
+
+// Reactor output and droid counts are capped by the crew's ship profile
+function checkShipLimit(name: string, amount: unknown, limit: number) {
+  return typeof amount === 'number' && amount > limit ? `${name} ${amount} is over the ship's ${limit}` : null;
+}
+
+export function isValidatedEvent(event: string): event is ClientEventName {
+  return Object.prototype.hasOwnProperty.call(EVENT_RULES, event);
+}
+
+// Validate one inbound event. `state` is the sender's room, when it exists.
+// Returns null when the payload may be applied, otherwise the rejection reason.
+export function validateClientEvent(event: ClientEventName, data: unknown, state?: RoomState): string | null {
+  const envelope = EVENT_RULES[event](data);
+  if (envelope) return `${event}: ${envelope}`;
+  if (!isObject(data)) return null;
+
+  switch (event) {
+    case 'player_action': {
+      const action = data.action as PlayerActionType;
+      const reason = PLAYER_ACTION_RULES[action](data.value);
+      if (reason) return `${action}: value ${reason}`;
+      if (state?.ship.condition === 'destroyed') return `${action}: the ship has been destroyed`;
+      if (state?.ship.condition === 'disabled' && HELM_ACTIONS.includes(action)) return `${action}: the ship is disabled`;
+      if (action === 'vent_strain' && state) {
+        const vent = checkStrainVent(state);
+        if (vent) return `${action}: ${vent}`;
+      }
+      if (action === 'set_power_allocation' && state) {
+        const budget = checkPowerBudget(data.value as Partial<PowerAllocations>, state);
+        if (budget) return `${action}: ${budget}`;
+      }
+      if (action === 'queue_repair' && state) {
+        const repair = checkRepairOrder(state, data.value as RepairOrder);
+        if (repair) return `${action}: ${repair}`;
+      }
+      if (action === 'assign_repair_droids' && state) {
+        const { id, droids } = data.value as { id: string; droids: number };
+        const assignment = checkDroidAssignment(state, id, droids);
+        if (assignment) return `${action}: ${assignment}`;
+      }
+      if (action === 'cancel_repair' && state) {
+        const cancel = checkRepairCancel(state, (data.value as { id: string }).id);
+        if (cancel) return `${action}: ${cancel}`;
+      }
+      if (action === 'set_reactor_output' && state) {
+        const limit = checkShipLimit('reactor output', data.value, shipProfile(state).reactorOutput);
+        if (limit) return `${action}: ${limit}`;
+      }
+      if (action === 'set_frequency' && state) {
+        const lost = lostBandAt(state.engineering.criticals, data.value as number);
+        if (lost) return `${action}: ${lost.band!.min}-${lost.band!.max} MHz is out after ${lost.name}`;
+      }
+      if (action === 'plan_route' && state) {
+        const plot = checkRoutePlot(state, data.value as string);
+        if (plot) return `${action}: ${plot}`;
+      }
+      if (action === 'plot_jump' && state) {
+        const plot = checkPlot(state);
+        if (plot) return `${action}: ${plot}`;
+      }
+      if (action === 'hyperdrive_jump' && state) {
+        const jump = checkJump(state);
+        if (jump) return `${action}: ${jump}`;
+      }
+      if (action === 'maneuver' && state) {
+        const maneuver = checkManeuver(state, data.value as ManeuverOrder);
+        if (maneuver) return `${action}: ${maneuver}`;
+      }
+      if (action === 'angle_shields' && state) {
+        const { from, to } = data.value as ShieldAngle;
+        const angle = checkShieldAngle(state, from, to);
+        if (angle) return `${action}: ${angle}`;
+      }
+      return null;
+    }
+    case 'gm_broadcast': {
+      const type = data.type as GmBroadcastType;
+      const reason = GM_BROADCAST_RULES[type](data.value);
+      if (reason) return `${type}: value ${reason}`;
+      if (!state || !isObject(data.value)) return null;
+
+      if (type === 'move_contact' || type === 'remove_contact') {
+        const id = data.value.id;
+        return state.weapons.enemies.some(contact => contact.id === id) ? null : `${type}: no contact ${id}`;
+      }
+      const profile = shipProfile(state);
+      const limit = type === 'power_update' ? checkShipLimit('reactor output', data.value.reactorOutput, profile.reactorOutput)
+        : type === 'droid_allocation' ? checkShipLimit('droid count', data.value.availableDroids, profile.droids)
+        : null;
+      return limit ? `${type}: ${limit}` : null;
+    }
+    case 'comm_broadcast': {
+      const type = data.type as keyof CommBroadcastMap;
+      const reason = COMM_BROADCAST_RULES[type](data.value);
+      return reason ? `${type}: value ${reason}` : null;
+    }
+    case 'state_update': {
+      const report = data.state as { powerDistribution?: PowerSettings & { powerAllocations?: Partial<PowerAllocations> } };
+      if (data.station !== 'engineering' || !report.powerDistribution || !state) return null;
+      const { powerAllocations = {}, ...reactor } = report.powerDistribution;
+      const budget = checkPowerBudget(powerAllocations, state, reactor);
+      return budget ? `state_update: ${budget}` : null;
+    }
+    case 'weapon_fired': {
+      // Guns with no power behind them, or knocked off their mount, cannot have fired,
+      // and no hit deals more than its weapon could
+      if (!state) return null;
+      if (state.ship.condition !== 'operational') return `weapon_fired: the ship is ${state.ship.condition}`;
+      if (inHyperspace(state.pilot)) return 'weapon_fired: the ship is in hyperspace';
+      if (state.powerEffects.weapons.fireRate <= 0) return 'weapon_fired: the weapons have no power';
+      const lost = state.engineering.criticals.find(critical => critical.weapon !== undefined && critical.weapon === data.weapon);
+      if (lost) return `weapon_fired: ${lost.weapon} is offline after ${lost.name}`;
+      const damage = data.hit ? checkShotDamage(data.weapon, data.ammo, data.damage as WeaponFired['damage'] | undefined) : null;
+      return damage ? `weapon_fired: ${damage}` : null;
+    }
+    default:
+      return null;
+  }
+}
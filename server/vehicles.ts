@@ -0,0 +1,114 @@
+// Vehicle database.
+// Ship stat blocks live in data/vehicles.json (or the file named by VEHICLE_DB)
+// and are loaded once at start. The GM picks the crew's ship and spawns NPCs
+// from it, traffic ships are drawn from its civilian hulls, and every station
+// receives the list as vehicle_db so they all read the same stats. Hulls the
+// crew can fly also carry a ship profile with the limits the stations work to.
+
+import fs from 'fs';
+import path from 'path';
+import type { FiringArc, RangeBand, ShipProfile, Vehicle, VehicleCategory } from '../src/types';
+
+const VEHICLE_DB = process.env.VEHICLE_DB || path.join(__dirname, '..', 'data', 'vehicles.json');
+
+export const DEFAULT_PLAYER_VEHICLE = 'yt-1300';
+
+const FIRING_ARCS: FiringArc[] = ['fore', 'aft', 'port', 'starboard'];
+const RANGE_BANDS: RangeBand[] = ['Close', 'Short', 'Medium', 'Long', 'Extreme'];
+const CATEGORIES: VehicleCategory[] = [
+  'starfighter', 'shuttle', 'freighter', 'yacht', 'transport', 'cruiser', 'corvette', 'frigate', 'capital'
+];
+
+// Hulls that fly through the sensor traffic; warships only arrive when the GM spawns them
+const TRAFFIC_CATEGORIES: VehicleCategory[] = ['shuttle', 'freighter', 'yacht', 'transport', 'cruiser'];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isNameList = (v: unknown) => Array.isArray(v) && v.every(name => typeof name === 'string');
+
+function checkProfile(profile: any): string | null {
+  const numbers = ['reactorOutput', 'fuelCapacity', 'hypermatterCapacity', 'missileMagazine', 'droids'];
+  const bad = numbers.find(key => !isNumber(profile?.[key]) || profile[key] < 0);
+  if (bad) return `profile ${bad} must be a number of at least 0`;
+  if (!Array.isArray(profile.shieldArcs) || !profile.shieldArcs.every((arc: unknown) => FIRING_ARCS.includes(arc as FiringArc))) {
+    return 'profile shieldArcs must list fire arcs';
+  }
+  const { primary, backup } = profile.hyperdrive ?? {};
+  if (!isNumber(primary) || primary <= 0 || !(backup === null || (isNumber(backup) && backup > 0))) {
+    return 'profile hyperdrive needs a primary class and a backup class or null';
+  }
+  if (!isNameList(profile.loadout?.primary) || !isNameList(profile.loadout?.secondary)) {
+    return 'profile loadout needs primary and secondary weapon lists';
+  }
+  return null;
+}
+
+// Returns what is wrong with an entry, or null when it can be used
+function checkVehicle(entry: any): string | null {
+  if (typeof entry?.id !== 'string' || !entry.id) return 'missing id';
+  if (typeof entry.name !== 'string' || !entry.name) return 'missing name';
+  if (!CATEGORIES.includes(entry.category)) return `unknown category ${entry.category}`;
+  const numbers = ['silhouette', 'speed', 'handling', 'armor', 'hullTrauma', 'systemStrain', 'hardpoints', 'passengers', 'encumbrance', 'cost'];
+  const bad = numbers.find(key => !isNumber(entry[key]));
+  if (bad) return `${bad} must be a number`;
+  if (!FIRING_ARCS.every(arc => isNumber(entry.defense?.[arc]))) return 'defense needs fore, aft, port and starboard';
+  if (!RANGE_BANDS.includes(entry.sensorRange)) return `unknown sensor range ${entry.sensorRange}`;
+  if (typeof entry.crew !== 'string') return 'crew must be text';
+  if (!Array.isArray(entry.weapons)) return 'weapons must be a list';
+  const badWeapon = entry.weapons.find((mount: any) => (
+    typeof mount?.name !== 'string' || !Array.isArray(mount.arcs) || !mount.arcs.every((arc: unknown) => FIRING_ARCS.includes(arc as FiringArc))
+  ));
+  if (badWeapon) return `weapon ${badWeapon?.name ?? '?'} needs a name and fire arcs`;
+  return entry.profile === undefined ? null : checkProfile(entry.profile);
+}
+
+// A broken entry is skipped with a warning; an unreadable file stops the server
+function loadVehicles(file: string): Vehicle[] {
+  const entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(entries)) throw new Error(`${file} must hold a list of vehicles`);
+
+  const loaded = new Map<string, Vehicle>();
+  entries.forEach((entry, index) => {
+    const problem = checkVehicle(entry) || (loaded.has(entry.id) ? 'duplicate id' : null);
+    if (problem) {
+      console.warn(`Skipping vehicle ${entry?.id ?? `#${index}`} in ${file}: ${problem}`);
+      return;
+    }
+    loaded.set(entry.id, entry);
+  });
+
+  if (!loaded.get(DEFAULT_PLAYER_VEHICLE)?.profile) {
+    throw new Error(`${file} has no ${DEFAULT_PLAYER_VEHICLE} with a ship profile for the default player ship`);
+  }
+  return Array.from(loaded.values());
+}
+
+const vehicles = loadVehicles(VEHICLE_DB);
+const civilian = vehicles.filter(vehicle => TRAFFIC_CATEGORIES.includes(vehicle.category));
+const trafficVehicles = civilian.length > 0 ? civilian : vehicles;
+console.log(`🚀 Loaded ${vehicles.length} vehicles from ${VEHICLE_DB}`);
+
+export function listVehicles() {
+  return vehicles;
+}
+
+export function getVehicle(id: unknown) {
+  return typeof id === 'string' ? vehicles.find(vehicle => vehicle.id === id) : undefined;
+}
+
+export function isVehicleId(id: unknown): id is string {
+  return getVehicle(id) !== undefined;
+}
+
+export function listTrafficVehicles() {
+  return trafficVehicles;
+}
+
+// Hulls with a ship profile, which the crew can be given
+export function isPlayerShip(id: unknown): id is string {
+  return getVehicle(id)?.profile !== undefined;
+}
+
+// The limits of the crew's ship; a hull without a profile flies with the default ship's
+export function getShipProfile(id: string): ShipProfile {
+  return getVehicle(id)?.profile ?? getVehicle(DEFAULT_PLAYER_VEHICLE)!.profile!;
+}
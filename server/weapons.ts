@@ -0,0 +1,210 @@
+// Ship weapon database.
+// The catalogue lives in data/weapons.csv (or the file named by WEAPON_DB) and
+// is parsed once at start into typed records: the rulebook stats the GM reads
+// plus the qualities and simulation stats the Weapons station fires with.
+// Stations fetch it from /api/weapons.
+
+import fs from 'fs';
+import path from 'path';
+import type { RangeBand, WeaponQuality, WeaponRecord, WeaponSimStats } from '../src/types';
+import type { WeaponFired } from '../src/protocol';
+import { ammoShot, isAmmo, shotDamageLimit } from '../src/gunnery';
+
+const WEAPON_DB = process.env.WEAPON_DB || path.join(__dirname, '..', 'data', 'weapons.csv');
+
+const RANGE_BANDS: RangeBand[] = ['Close', 'Short', 'Medium', 'Long', 'Extreme'];
+const QUALITIES: WeaponQuality[] = [
+  'Accurate', 'Auto-fire', 'Blast', 'Breach', 'Disorient', 'Ensnare', 'Guided',
+  'Inaccurate', 'Ion', 'Limited Ammo', 'Linked', 'Slow-Firing', 'Tractor'
+];
+const COLUMNS = ['Type', 'Name', 'Damage', 'Crit', 'Range', 'Sil Req', 'Price', 'Rarity', 'Special'];
+
+// Seconds a Slow-Firing weapon waits per rating before it can fire again
+const SLOW_FIRING_SECONDS = 1.5;
+// Rounding room on the damage a station reports
+const DAMAGE_TOLERANCE = 0.01;
+
+// Splits CSV text into rows of fields; quoted fields may hold commas, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+// "Breach 2, Guided 3, Ion" -> { Breach: 2, Guided: 3, Ion: 1 }; returns the names it did not know
+function parseQualities(special: string) {
+  const qualities: Partial<Record<WeaponQuality, number>> = {};
+  const unknown: string[] = [];
+  if (!special || special.toLowerCase() === 'none') return { qualities, unknown };
+
+  special.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const match = /^(.*?)\s*(\d+)?$/.exec(part)!;
+    const quality = QUALITIES.find(name => name.toLowerCase() === match[1].toLowerCase());
+    if (quality) {
+      qualities[quality] = match[2] ? Number(match[2]) : 1;
+    } else {
+      unknown.push(part);
+    }
+  });
+  return { qualities, unknown };
+}
+
+// How the Weapons station fires it: the rulebook numbers scaled to the radar's damage and aim
+function simStats(damage: number | null, range: RangeBand, qualities: Partial<Record<WeaponQuality, number>>): WeaponSimStats {
+  const rating = (quality: WeaponQuality) => qualities[quality] ?? 0;
+  const guided = rating('Guided') > 0;
+  const ion = rating('Ion') > 0;
+
+  const spread = rating('Tractor') > 0
+    ? 20
+    : guided
+      ? 6
+      : Math.max(4, 12 - 2 * RANGE_BANDS.indexOf(range) - 2 * rating('Accurate') + 2 * rating('Inaccurate'));
+
+  return {
+    heat: damage === null ? 8 : 6 + 2 * damage - (ion ? 4 : 0),
+    damage: damage === null ? 0 : 2 * damage,
+    spread,
+    shieldMult: ion ? 1.8 : guided ? 1.2 : 1,
+    hullMult: ion ? 0.4 : 1 + 0.1 * rating('Breach'),
+    requiresLock: guided,
+    usesMissiles: rating('Limited Ammo') > 0,
+    bolts: 1 + rating('Linked'),
+    cooldown: rating('Slow-Firing') * SLOW_FIRING_SECONDS
+  };
+}
+
+// "-" and "—" mark a stat the weapon does not have
+const optionalNumber = (value: string) => (/^[-—–]?$/.test(value) ? null : Number(value));
+
+// Returns the record, or what is wrong with the row
+function parseWeapon(row: string[]): WeaponRecord | string {
+  const [type, name, damageText, critText, range, silhouetteText, priceText, rarityText, special = ''] = row;
+  if (!name) return 'missing name';
+  const damage = optionalNumber(damageText ?? '');
+  const crit = optionalNumber(critText ?? '');
+  if (Number.isNaN(damage) || Number.isNaN(crit)) return 'damage and crit must be numbers or -';
+  if (!RANGE_BANDS.includes(range as RangeBand)) return `unknown range ${range}`;
+
+  const restricted = /^\(R\)/i.test(priceText ?? '');
+  const price = Number((priceText ?? '').replace(/^\(R\)/i, '').replace(/,/g, '').trim());
+  const silhouette = Number(silhouetteText);
+  const rarity = Number(rarityText);
+  if (![price, silhouette, rarity].every(Number.isFinite)) return 'silhouette, price and rarity must be numbers';
+
+  const { qualities, unknown } = parseQualities(special);
+  if (unknown.length > 0) console.warn(`Weapon ${name} in ${WEAPON_DB}: ignoring unknown qualities ${unknown.join(', ')}`);
+
+  return {
+    name,
+    type: type ?? '',
+    damage,
+    crit,
+    range: range as RangeBand,
+    silhouette,
+    price,
+    restricted,
+    rarity,
+    special: special || 'None',
+    qualities,
+    sim: simStats(damage, range as RangeBand, qualities)
+  };
+}
+
+// A broken row is skipped with a warning; an unreadable file stops the server
+function loadWeapons(file: string): WeaponRecord[] {
+  const [header, ...rows] = parseCsv(fs.readFileSync(file, 'utf8'));
+  if (!header || COLUMNS.some((column, index) => header[index]?.toLowerCase() !== column.toLowerCase())) {
+    throw new Error(`${file} must start with the columns ${COLUMNS.join(',')}`);
+  }
+
+  const loaded = new Map<string, WeaponRecord>();
+  rows.forEach((row, index) => {
+    const weapon = parseWeapon(row);
+    if (typeof weapon === 'string' || loaded.has(weapon.name)) {
+      const problem = typeof weapon === 'string' ? weapon : 'duplicate name';
+      console.warn(`Skipping weapon ${row[1] || `row ${index + 2}`} in ${file}: ${problem}`);
+      return;
+    }
+    loaded.set(weapon.name, weapon);
+  });
+  return Array.from(loaded.values());
+}
+
+const weapons = loadWeapons(WEAPON_DB);
+console.log(`🔫 Loaded ${weapons.length} weapons from ${WEAPON_DB}`);
+
+export function listWeapons() {
+  return weapons;
+}
+
+export function getWeapon(name: unknown) {
+  return typeof name === 'string' ? weapons.find(weapon => weapon.name.toLowerCase() === name.toLowerCase()) : undefined;
+}
+
+// A hit the Weapons station reports can deal no more than the weapon or round it
+// names; returns null when it is within that, otherwise the reason
+export function checkShotDamage(name: unknown, ammo: unknown, damage: WeaponFired['damage'] | undefined): string | null {
+  if (!damage) return null;
+  const weapon = getWeapon(name);
+  const stats = weapon ? weapon.sim : isAmmo(ammo) ? ammoShot(ammo) : null;
+  if (!stats) return 'a hit must name a catalogued weapon or ammunition';
+
+  const limit = shotDamageLimit(stats);
+  const fired = weapon ? weapon.name : ammo;
+  if (damage.shieldDamage > limit.shieldDamage + DAMAGE_TOLERANCE) return `${fired} cannot deal ${damage.shieldDamage} shield damage`;
+  if (damage.hullDamage > limit.hullDamage + DAMAGE_TOLERANCE) return `${fired} cannot deal ${damage.hullDamage} hull damage`;
+  return null;
+}
+
+export function isWeaponQuality(name: unknown): name is WeaponQuality {
+  return QUALITIES.includes(name as WeaponQuality);
+}
+
+export interface WeaponQuery {
+  name?: string; // part of the name, any case
+  type?: string;
+  quality?: WeaponQuality;
+  range?: RangeBand;
+}
+
+export function findWeapons(query: WeaponQuery) {
+  const name = query.name?.toLowerCase();
+  return weapons.filter(weapon => (
+    (!name || weapon.name.toLowerCase().includes(name)) &&
+    (!query.type || weapon.type.toLowerCase() === query.type.toLowerCase()) &&
+    (!query.quality || weapon.qualities[query.quality] !== undefined) &&
+    (!query.range || weapon.range === query.range)
+  ));
+}
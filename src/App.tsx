@@ -1,308 +1,469 @@
-import React, { useState, useEffect } from 'react';
-import { io, Socket } from 'socket.io-client';
-import { GameState, User } from './types';
-
-// Import your existing TSX station components
-import CommunicationsStation from './stations/CommunicationsStation';
-import EngineeringStation from './stations/EngineeringStation';
-import PilotStation from './stations/PilotStation';
-import WeaponsStation from './stations/WeaponsStation';
-import GMStation from './stations/GMStation';
-
-interface AppProps {}
-
-const App: React.FC<AppProps> = () => {
-  const [socket, setSocket] = useState<Socket | null>(null);
-  const [gameState, setGameState] = useState<GameState>({});
-  const [users, setUsers] = useState<Record<string, User>>({});
-  const [selectedStation, setSelectedStation] = useState<string>('');
-  const [playerName, setPlayerName] = useState<string>('');
-  const [room, setRoom] = useState<string>('default');
-  const [isConnected, setIsConnected] = useState<boolean>(false);
-
-  // Initialize socket connection
-  useEffect(() => {
-    const newSocket = io();
-    setSocket(newSocket);
-
-    newSocket.on('connect', () => {
-      console.log('Connected to server:', newSocket.id);
-      setIsConnected(true);
-    });
-
-    newSocket.on('disconnect', () => {
-      console.log('Disconnected from server');
-      setIsConnected(false);
-    });
-
-    newSocket.on('game_state_update', (state: GameState) => {
-      console.log('Game state updated:', state);
-      setGameState(state);
-    });
-
-    newSocket.on('users_update', (userList: Record<string, User>) => {
-      console.log('Users updated:', userList);
-      setUsers(userList);
-    });
-
-    newSocket.on('gm_broadcast', (data: any) => {
-      console.log('GM broadcast received:', data);
-      // Handle GM broadcasts if needed
-    });
-
-    newSocket.on('comm_broadcast', (data: any) => {
-      console.log('Comm broadcast received:', data);
-      // Handle communication broadcasts if needed
-    });
-
-    return () => {
-      newSocket.disconnect();
-    };
-  }, []);
-
-  const joinStation = () => {
-    if (!socket || !selectedStation || !playerName.trim()) return;
-
-    socket.emit('join', {
-      room,
-      station: selectedStation,
-      name: playerName.trim()
-    });
-  };
-
-  const handlePlayerAction = (action: string, value: any) => {
-    if (!socket) return;
-
-    socket.emit('player_action', {
-      room,
-      action,
-      value
-    });
-  };
-
-  // Station selection screen
-  if (!selectedStation) {
-    return (
-      <div style={{
-        display: 'flex',
-        flexDirection: 'column',
-        alignItems: 'center',
-        justifyContent: 'center',
-        height: '100vh',
-        background: 'linear-gradient(135deg, #0a0a0a 0%, #1a1a2e 50%, #16213e 100%)',
-        color: '#fff',
-        fontFamily: 'Orbitron, monospace'
-      }}>
-        <h1 style={{
-          fontSize: '3rem',
-          marginBottom: '2rem',
-          color: '#00ffff',
-          textShadow: '0 0 20px #00ffff',
-          letterSpacing: '4px'
-        }}>
-          BRIDGE SIMULATOR
-        </h1>
-
-        <div style={{
-          background: 'rgba(0, 20, 40, 0.8)',
-          padding: '2rem',
-          borderRadius: '10px',
-          border: '2px solid #00ffff',
-          boxShadow: '0 0 30px rgba(0, 255, 255, 0.3)',
-          minWidth: '400px'
-        }}>
-          <div style={{ marginBottom: '1.5rem' }}>
-            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#00ffff' }}>
-              Your Name:
-            </label>
-            <input
-              type="text"
-              value={playerName}
-              onChange={(e) => setPlayerName(e.target.value)}
-              placeholder="Enter your name"
-              style={{
-                width: '100%',
-                padding: '10px',
-                background: 'rgba(0, 0, 0, 0.7)',
-                border: '1px solid #00ffff',
-                borderRadius: '5px',
-                color: '#fff',
-                fontSize: '1rem',
-                fontFamily: 'inherit'
-              }}
-            />
-          </div>
-
-          <div style={{ marginBottom: '1.5rem' }}>
-            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#00ffff' }}>
-              Room:
-            </label>
-            <input
-              type="text"
-              value={room}
-              onChange={(e) => setRoom(e.target.value)}
-              placeholder="Room name (default: 'default')"
-              style={{
-                width: '100%',
-                padding: '10px',
-                background: 'rgba(0, 0, 0, 0.7)',
-                border: '1px solid #00ffff',
-                borderRadius: '5px',
-                color: '#fff',
-                fontSize: '1rem',
-                fontFamily: 'inherit'
-              }}
-            />
-          </div>
-
-          <div style={{ marginBottom: '1.5rem' }}>
-            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#00ffff' }}>
-              Select Station:
-            </label>
-            <select
-              value={selectedStation}
-              onChange={(e) => setSelectedStation(e.target.value)}
-              style={{
-                width: '100%',
-                padding: '10px',
-                background: 'rgba(0, 0, 0, 0.7)',
-                border: '1px solid #00ffff',
-                borderRadius: '5px',
-                color: '#fff',
-                fontSize: '1rem',
-                fontFamily: 'inherit'
-              }}
-            >
-              <option value="">Choose a station...</option>
-              <option value="communications">Communications</option>
-              <option value="engineering">Engineering</option>
-              <option value="pilot">Navigation/Pilot</option>
-              <option value="weapons">Weapons</option>
-              <option value="gm">Game Master</option>
-            </select>
-          </div>
-
-          <button
-            onClick={joinStation}
-            disabled={!selectedStation || !playerName.trim() || !isConnected}
-            style={{
-              width: '100%',
-              padding: '12px',
-              background: selectedStation && playerName.trim() && isConnected 
-                ? 'linear-gradient(45deg, #00ff88, #00ffff)' 
-                : '#666',
-              border: 'none',
-              borderRadius: '5px',
-              color: '#000',
-              fontSize: '1.1rem',
-              fontWeight: 'bold',
-              cursor: selectedStation && playerName.trim() && isConnected ? 'pointer' : 'not-allowed',
-              textTransform: 'uppercase',
-              letterSpacing: '2px',
-              transition: 'all 0.3s ease'
-            }}
-          >
-            {!isConnected ? 'Connecting...' : 'Join Bridge'}
-          </button>
-        </div>
-
-        <div style={{
-          marginTop: '2rem',
-          padding: '1rem',
-          background: 'rgba(0, 0, 0, 0.5)',
-          borderRadius: '5px',
-          border: '1px solid #444'
-        }}>
-          <h3 style={{ color: '#00ffff', marginBottom: '1rem' }}>Active Crew:</h3>
-          {Object.keys(users).length === 0 ? (
-            <p style={{ color: '#888' }}>No crew members online</p>
-          ) : (
-            Object.values(users).map((user) => (
-              <div key={user.socketId} style={{
-                display: 'flex',
-                justifyContent: 'space-between',
-                padding: '5px 0',
-                borderBottom: '1px solid #333'
-              }}>
-                <span style={{ color: '#fff' }}>{user.name}</span>
-                <span style={{ color: '#00ff88' }}>{user.station}</span>
-              </div>
-            ))
-          )}
-        </div>
-      </div>
-    );
-  }
-
-  // Render the selected station component
-  const renderStation = () => {
-    const commonProps = {
-      gameState,
-      onPlayerAction: handlePlayerAction,
-      socket
-    };
-
-    switch (selectedStation) {
-      case 'communications':
-        return <CommunicationsStation {...commonProps} />;
-      case 'engineering':
-        return <EngineeringStation {...commonProps} />;
-      case 'pilot':
-        return <PilotStation />;
-      case 'weapons':
-        return <WeaponsStation />;
-      case 'gm':
-        return <GMStation {...commonProps} />;
-      default:
-        return <div>Station not found</div>;
-    }
-  };
-
-  return (
-    <div style={{ width: '100vw', height: '100vh', overflow: 'hidden' }}>
-      {/* Connection status indicator */}
-      <div style={{
-        position: 'fixed',
-        top: '10px',
-        right: '10px',
-        zIndex: 1000,
-        padding: '5px 10px',
-        background: isConnected ? 'rgba(0, 255, 0, 0.2)' : 'rgba(255, 0, 0, 0.2)',
-        border: `1px solid ${isConnected ? '#00ff00' : '#ff0000'}`,
-        borderRadius: '5px',
-        color: isConnected ? '#00ff00' : '#ff0000',
-        fontSize: '0.8rem',
-        fontFamily: 'Orbitron, monospace'
-      }}>
-        {isConnected ? '🟢 CONNECTED' : '🔴 DISCONNECTED'}
-      </div>
-
-      {/* Station selector button */}
-      <button
-        onClick={() => setSelectedStation('')}
-        style={{
-          position: 'fixed',
-          top: '10px',
-          left: '10px',
-          zIndex: 1000,
-          padding: '8px 12px',
-          background: 'rgba(0, 255, 255, 0.2)',
-          border: '1px solid #00ffff',
-          borderRadius: '5px',
-          color: '#00ffff',
-          fontSize: '0.8rem',
-          fontFamily: 'Orbitron, monospace',
-          cursor: 'pointer',
-          textTransform: 'uppercase'
-        }}
-      >
-        ← Change Station
-      </button>
-
-      {/* Render the selected station */}
-      {renderStation()}
-    </div>
-  );
-};
-
+import React, { useState, useEffect } from 'react';
+import {
+  emitToServer,
+  onServerEvent,
+  type PlayerAction,
+  type PlayerActionHandler
+} from './protocol';
+import ActionRejectedNotice from './components/ActionRejectedNotice';
+import ShieldArcsPanel from './components/ShieldArcsPanel';
+import ShipConditionBanner from './components/ShipConditionBanner';
+import SkillCheckPanel from './components/SkillCheckPanel';
+import { useBridge } from './context/BridgeContext';
+import type { SkillCheckName } from './dice';
+import { GameState, RoomSummary, StationName, User } from './types';
+
+// Import your existing TSX station components
+import CommunicationsStation from './stations/CommunicationsStation';
+import EngineeringStation from './stations/EngineeringStation';
+import PilotStation from './stations/PilotStation';
+import WeaponsStation from './stations/WeaponsStation';
+import GMStation from './stations/GMStation';
+
+interface AppProps {}
+
+// The dice check each console can call for; the GM sees every roll
+const STATION_CHECKS: Partial<Record<StationName, SkillCheckName>> = {
+  pilot: 'maneuver',
+  weapons: 'gunnery',
+  communications: 'slice'
+};
+
+// Consoles that can angle the deflector shields; every other one just shows them
+const SHIELD_CONTROLS: StationName[] = ['pilot', 'engineering'];
+
+const App: React.FC<AppProps> = () => {
+  const {
+    socket,
+    connected: isConnected,
+    room,
+    setRoom,
+    playerName,
+    setPlayerName,
+    station: selectedStation,
+    setStation,
+    setGmPassword,
+    vehicles
+  } = useBridge();
+  const [gameState, setGameState] = useState<GameState>({});
+  const [users, setUsers] = useState<Record<string, User>>({});
+  const [pendingStation, setPendingStation] = useState<StationName | ''>('');
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [newRoomName, setNewRoomName] = useState<string>('');
+  const [newRoomPassword, setNewRoomPassword] = useState<string>('');
+  const [newRoomSeed, setNewRoomSeed] = useState<string>('');
+  const [newRoomShip, setNewRoomShip] = useState<string>('');
+
+  // Lobby and shared station feeds
+  useEffect(() => {
+    if (!socket) return;
+
+    const unsubscribe = [
+      onServerEvent(socket, 'game_state_update', (state) => {
+        setGameState(state);
+      }),
+      onServerEvent(socket, 'rooms_update', (roomList) => {
+        setRooms(roomList);
+      }),
+      onServerEvent(socket, 'users_update', (userList) => {
+        console.log('Users updated:', userList);
+        setUsers(userList);
+      })
+    ];
+
+    // The socket may have connected before this listener existed
+    emitToServer(socket, 'list_rooms');
+
+    return () => {
+      unsubscribe.forEach(off => off());
+    };
+  }, [socket]);
+
+  const createRoom = () => {
+    const name = newRoomName.trim();
+    if (!socket || !name) return;
+
+    // A seed replays the same traffic and encounters; blank picks a fresh one
+    const seed = newRoomSeed.trim() === '' ? undefined : Number(newRoomSeed);
+    // Blank ship leaves the server's default hull
+    emitToServer(socket, 'create_room', { name, gmPassword: newRoomPassword || undefined, seed, ship: newRoomShip || undefined });
+    // Whoever locked the room can take its gm seat without being asked
+    if (newRoomPassword) setGmPassword(newRoomPassword);
+    setRoom(name);
+    setNewRoomName('');
+    setNewRoomPassword('');
+    setNewRoomSeed('');
+    setNewRoomShip('');
+  };
+
+  // The provider takes the seat once a station is set
+  const joinStation = () => {
+    if (!socket || !pendingStation || !playerName.trim()) return;
+    setStation(pendingStation);
+  };
+
+  const handlePlayerAction: PlayerActionHandler = (action, value) => {
+    if (!socket) return;
+
+    emitToServer(socket, 'player_action', {
+      room,
+      action,
+      value
+    } as PlayerAction);
+  };
+
+  // Station selection screen
+  if (!selectedStation) {
+    return (
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        height: '100vh',
+        background: 'linear-gradient(135deg, #0a0a0a 0%, #1a1a2e 50%, #16213e 100%)',
+        color: '#fff',
+        fontFamily: 'Orbitron, monospace'
+      }}>
+        <h1 style={{
+          fontSize: '3rem',
+          marginBottom: '2rem',
+          color: '#00ffff',
+          textShadow: '0 0 20px #00ffff',
+          letterSpacing: '4px'
+        }}>
+          BRIDGE SIMULATOR
+        </h1>
+
+        <div style={{
+          background: 'rgba(0, 20, 40, 0.8)',
+          padding: '2rem',
+          borderRadius: '10px',
+          border: '2px solid #00ffff',
+          boxShadow: '0 0 30px rgba(0, 255, 255, 0.3)',
+          minWidth: '400px'
+        }}>
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#00ffff' }}>
+              Your Name:
+            </label>
+            <input
+              type="text"
+              value={playerName}
+              onChange={(e) => setPlayerName(e.target.value)}
+              placeholder="Enter your name"
+              style={{
+                width: '100%',
+                padding: '10px',
+                background: 'rgba(0, 0, 0, 0.7)',
+                border: '1px solid #00ffff',
+                borderRadius: '5px',
+                color: '#fff',
+                fontSize: '1rem',
+                fontFamily: 'inherit'
+              }}
+            />
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#00ffff' }}>
+              Room:
+            </label>
+            <div style={{
+              maxHeight: '160px',
+              overflowY: 'auto',
+              border: '1px solid #00ffff',
+              borderRadius: '5px',
+              background: 'rgba(0, 0, 0, 0.7)'
+            }}>
+              {rooms.length === 0 ? (
+                <p style={{ color: '#888', padding: '10px', margin: 0 }}>No rooms available</p>
+              ) : (
+                rooms.map((r) => (
+                  <div
+                    key={r.name}
+                    onClick={() => setRoom(r.name)}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      padding: '8px 10px',
+                      cursor: 'pointer',
+                      background: r.name === room ? 'rgba(0, 255, 255, 0.2)' : 'transparent',
+                      borderBottom: '1px solid #333',
+                      color: r.archived ? '#888' : '#fff'
+                    }}
+                  >
+                    <span>{r.gmLocked ? '🔒 ' : ''}{r.name}{r.archived ? ' (archived)' : ''}</span>
+                    <span style={{ color: '#00ff88' }}>{r.crew} crew</span>
+                  </div>
+                ))
+              )}
+            </div>
+            <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+              <input
+                type="text"
+                value={newRoomName}
+                onChange={(e) => setNewRoomName(e.target.value)}
+                placeholder="New room name"
+                maxLength={32}
+                style={{
+                  flex: 1,
+                  padding: '10px',
+                  background: 'rgba(0, 0, 0, 0.7)',
+                  border: '1px solid #00ffff',
+                  borderRadius: '5px',
+                  color: '#fff',
+                  fontSize: '1rem',
+                  fontFamily: 'inherit'
+                }}
+              />
+              <button
+                onClick={createRoom}
+                disabled={!newRoomName.trim() || !isConnected}
+                style={{
+                  padding: '10px 14px',
+                  background: newRoomName.trim() && isConnected ? '#00ffff' : '#666',
+                  border: 'none',
+                  borderRadius: '5px',
+                  color: '#000',
+                  fontWeight: 'bold',
+                  cursor: newRoomName.trim() && isConnected ? 'pointer' : 'not-allowed',
+                  fontFamily: 'inherit'
+                }}
+              >
+                Create
+              </button>
+            </div>
+            <input
+              type="password"
+              value={newRoomPassword}
+              onChange={(e) => setNewRoomPassword(e.target.value)}
+              placeholder="GM password (optional)"
+              maxLength={64}
+              style={{
+                width: '100%',
+                boxSizing: 'border-box',
+                marginTop: '8px',
+                padding: '10px',
+                background: 'rgba(0, 0, 0, 0.7)',
+                border: '1px solid #00ffff',
+                borderRadius: '5px',
+                color: '#fff',
+                fontSize: '1rem',
+                fontFamily: 'inherit'
+              }}
+            />
+            <input
+              type="number"
+              min={0}
+              max={4294967295}
+              value={newRoomSeed}
+              onChange={(e) => setNewRoomSeed(e.target.value)}
+              placeholder="Random seed (optional)"
+              style={{
+                width: '100%',
+                boxSizing: 'border-box',
+                marginTop: '8px',
+                padding: '10px',
+                background: 'rgba(0, 0, 0, 0.7)',
+                border: '1px solid #00ffff',
+                borderRadius: '5px',
+                color: '#fff',
+                fontSize: '1rem',
+                fontFamily: 'inherit'
+              }}
+            />
+            <select
+              value={newRoomShip}
+              onChange={(e) => setNewRoomShip(e.target.value)}
+              style={{
+                width: '100%',
+                boxSizing: 'border-box',
+                marginTop: '8px',
+                padding: '10px',
+                background: 'rgba(0, 0, 0, 0.7)',
+                border: '1px solid #00ffff',
+                borderRadius: '5px',
+                color: '#fff',
+                fontSize: '1rem',
+                fontFamily: 'inherit'
+              }}
+            >
+              <option value="">Crew ship (default)</option>
+              {vehicles.filter(vehicle => vehicle.profile).map(vehicle => (
+                <option key={vehicle.id} value={vehicle.id}>{vehicle.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', marginBottom: '0.5rem', color: '#00ffff' }}>
+              Select Station:
+            </label>
+            <select
+              value={pendingStation}
+              onChange={(e) => setPendingStation(e.target.value as StationName | '')}
+              style={{
+                width: '100%',
+                padding: '10px',
+                background: 'rgba(0, 0, 0, 0.7)',
+                border: '1px solid #00ffff',
+                borderRadius: '5px',
+                color: '#fff',
+                fontSize: '1rem',
+                fontFamily: 'inherit'
+              }}
+            >
+              <option value="">Choose a station...</option>
+              <option value="communications">Communications</option>
+              <option value="engineering">Engineering</option>
+              <option value="pilot">Navigation/Pilot</option>
+              <option value="weapons">Weapons</option>
+              <option value="gm">Game Master</option>
+            </select>
+          </div>
+
+          <button
+            onClick={joinStation}
+            disabled={!pendingStation || !playerName.trim() || !isConnected}
+            style={{
+              width: '100%',
+              padding: '12px',
+              background: pendingStation && playerName.trim() && isConnected 
+                ? 'linear-gradient(45deg, #00ff88, #00ffff)' 
+                : '#666',
+              border: 'none',
+              borderRadius: '5px',
+              color: '#000',
+              fontSize: '1.1rem',
+              fontWeight: 'bold',
+              cursor: pendingStation && playerName.trim() && isConnected ? 'pointer' : 'not-allowed',
+              textTransform: 'uppercase',
+              letterSpacing: '2px',
+              transition: 'all 0.3s ease'
+            }}
+          >
+            {!isConnected ? 'Connecting...' : 'Join Bridge'}
+          </button>
+        </div>
+
+        <div style={{
+          marginTop: '2rem',
+          padding: '1rem',
+          background: 'rgba(0, 0, 0, 0.5)',
+          borderRadius: '5px',
+          border: '1px solid #444'
+        }}>
+          <h3 style={{ color: '#00ffff', marginBottom: '1rem' }}>Active Crew:</h3>
+          {Object.keys(users).length === 0 ? (
+            <p style={{ color: '#888' }}>No crew members online</p>
+          ) : (
+            Object.values(users).map((user) => (
+              <div key={user.socketId} style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '5px 0',
+                borderBottom: '1px solid #333'
+              }}>
+                <span style={{ color: '#fff' }}>{user.name}</span>
+                {user.status === 'reconnecting' ? (
+                  <span style={{ color: '#ffaa44' }}>{user.station} (reconnecting…)</span>
+                ) : (
+                  <span style={{ color: '#00ff88' }}>{user.station}</span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Render the selected station component
+  const renderStation = () => {
+    const commonProps = {
+      gameState,
+      onPlayerAction: handlePlayerAction
+    };
+
+    switch (selectedStation) {
+      case 'communications':
+        return <CommunicationsStation {...commonProps} />;
+      case 'engineering':
+        return <EngineeringStation {...commonProps} />;
+      case 'pilot':
+        return <PilotStation />;
+      case 'weapons':
+        return <WeaponsStation />;
+      case 'gm':
+        return <GMStation {...commonProps} />;
+      default:
+        return <div>Station not found</div>;
+    }
+  };
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', overflow: 'hidden' }}>
+      {/* Connection status indicator */}
+      <div style={{
+        position: 'fixed',
+        top: '10px',
+        right: '10px',
+        zIndex: 1000,
+        padding: '5px 10px',
+        background: isConnected ? 'rgba(0, 255, 0, 0.2)' : 'rgba(255, 0, 0, 0.2)',
+        border: `1px solid ${isConnected ? '#00ff00' : '#ff0000'}`,
+        borderRadius: '5px',
+        color: isConnected ? '#00ff00' : '#ff0000',
+        fontSize: '0.8rem',
+        fontFamily: 'Orbitron, monospace'
+      }}>
+        {isConnected ? '🟢 CONNECTED' : '🔴 DISCONNECTED'}
+      </div>
+
+      {/* Station selector button */}
+      <button
+        onClick={() => setStation('')}
+        style={{
+          position: 'fixed',
+          top: '10px',
+          left: '10px',
+          zIndex: 1000,
+          padding: '8px 12px',
+          background: 'rgba(0, 255, 255, 0.2)',
+          border: '1px solid #00ffff',
+          borderRadius: '5px',
+          color: '#00ffff',
+          fontSize: '0.8rem',
+          fontFamily: 'Orbitron, monospace',
+          cursor: 'pointer',
+          textTransform: 'uppercase'
+        }}
+      >
+        ← Change Station
+      </button>
+
+      {/* Render the selected station */}
+      {renderStation()}
+
+      {STATION_CHECKS[selectedStation] && <SkillCheckPanel check={STATION_CHECKS[selectedStation]!} />}
+
+      <ShieldArcsPanel
+        gameState={gameState}
+        onPlayerAction={SHIELD_CONTROLS.includes(selectedStation) ? handlePlayerAction : undefined}
+        asManeuver={selectedStation === 'pilot'}
+      />
+
+      {/* Engineering vents the strain that disables the ship */}
+      <ShipConditionBanner
+        gameState={gameState}
+        onPlayerAction={selectedStation === 'engineering' ? handlePlayerAction : undefined}
+      />
+
+      {/* Every station shares the one socket, so one notice covers them all */}
+      <ActionRejectedNotice socket={socket} />
+    </div>
+  );
+};
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { onServerEvent, type ActionRejected, type ClientSocket } from '../protocol';
+
+interface ActionRejectedNoticeProps {
+  socket: ClientSocket | null;
+}
+
+const NOTICE_DURATION_MS = 5000;
+
+// Shows why the server refused the last action so the console does not silently desync
+const ActionRejectedNotice: React.FC<ActionRejectedNoticeProps> = ({ socket }) => {
+  const [rejection, setRejection] = useState<ActionRejected | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+    return onServerEvent(socket, 'action_rejected', (data) => {
+      console.warn('Action rejected by server:', data);
+      setRejection(data);
+    });
+  }, [socket]);
+
+  useEffect(() => {
+    if (!rejection) return;
+    const timer = setTimeout(() => setRejection(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [rejection]);
+
+  if (!rejection) return null;
+
+  return (
+    <div
+      role="alert"
+      onClick={() => setRejection(null)}
+      style={{
+        position: 'fixed',
+        bottom: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 2000,
+        maxWidth: '80vw',
+        padding: '10px 16px',
+        background: 'rgba(40, 0, 0, 0.9)',
+        border: '1px solid #ff4444',
+        borderRadius: '5px',
+        color: '#ff8888',
+        fontSize: '0.85rem',
+        fontFamily: 'Orbitron, monospace',
+        cursor: 'pointer'
+      }}
+    >
+      ⚠️ ACTION REJECTED: {rejection.reason}
+    </div>
+  );
+};
+
+export default ActionRejectedNotice;
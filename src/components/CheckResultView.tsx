@@ -0,0 +1,62 @@
+import React from 'react';
+import { DIE_COLORS, SKILL_CHECKS, describeOutcome, type DieSymbol } from '../dice';
+import type { SkillCheckResult } from '../protocol';
+
+interface CheckResultViewProps {
+  result: SkillCheckResult;
+  // Show who rolled it (the GM log does, the acting station does not need to)
+  showRoller?: boolean;
+}
+
+const SYMBOL_GLYPHS: Record<DieSymbol, string> = {
+  success: '✔',
+  advantage: '▲',
+  triumph: '★',
+  failure: '✖',
+  threat: '▼',
+  despair: '☠',
+  light: '○',
+  dark: '●'
+};
+
+// One rolled check: each die with its face, then the net outcome
+const CheckResultView: React.FC<CheckResultViewProps> = ({ result, showRoller }) => {
+  const { label, skill } = SKILL_CHECKS[result.check];
+
+  return (
+    <div style={{ fontSize: '0.75rem', fontFamily: 'Orbitron, monospace' }}>
+      <div style={{ color: '#00ffff', marginBottom: '4px' }}>
+        {showRoller && `${result.player || 'Unknown'} (${result.station || '?'}) · `}
+        {label} · {skill}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '3px', marginBottom: '4px' }}>
+        {result.dice.map((rolled, index) => (
+          <span
+            key={index}
+            title={rolled.die}
+            style={{
+              minWidth: '20px',
+              padding: '1px 4px',
+              textAlign: 'center',
+              border: `1px solid ${DIE_COLORS[rolled.die]}`,
+              borderRadius: '3px',
+              color: DIE_COLORS[rolled.die]
+            }}
+          >
+            {rolled.symbols.length > 0 ? rolled.symbols.map(symbol => SYMBOL_GLYPHS[symbol]).join('') : '–'}
+          </span>
+        ))}
+      </div>
+      <div style={{ color: result.outcome.succeeded ? '#44ff44' : '#ff6666', fontWeight: 'bold' }}>
+        {result.outcome.succeeded ? 'SUCCESS' : 'FAILURE'}: {describeOutcome(result.outcome)}
+      </div>
+      {result.bonuses.length > 0 && (
+        <div style={{ color: '#aaaaaa', marginTop: '2px' }}>
+          Engineering: {result.bonuses.map(bonus => bonus.name).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckResultView;
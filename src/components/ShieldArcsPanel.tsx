@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useShipProfile } from '../context/BridgeContext';
+import type { PlayerActionHandler } from '../protocol';
+import type { FiringArc, GameState } from '../types';
+
+interface ShieldArcsPanelProps {
+  gameState: GameState;
+  // Consoles that may angle the deflectors pass their action sender
+  onPlayerAction?: PlayerActionHandler;
+  // The Pilot angles them as a manoeuvre, counted against the round's limit
+  asManeuver?: boolean;
+}
+
+type Quadrant = keyof NonNullable<GameState['weapons']>['shields'];
+
+const ARC_QUADRANTS: Record<FiringArc, Quadrant> = { fore: 'front', aft: 'rear', port: 'left', starboard: 'right' };
+
+// Where each arc sits in the 3x3 grid, bow at the top
+const ARC_CELLS: Record<FiringArc, { row: number; column: number }> = {
+  fore: { row: 1, column: 2 },
+  port: { row: 2, column: 1 },
+  starboard: { row: 2, column: 3 },
+  aft: { row: 3, column: 2 }
+};
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  bottom: '20px',
+  left: '20px',
+  zIndex: 1500,
+  width: '220px',
+  padding: '10px',
+  background: 'rgba(0, 20, 30, 0.92)',
+  border: '1px solid #00ffff',
+  borderRadius: '5px',
+  color: '#00ffff',
+  fontSize: '0.75rem',
+  fontFamily: 'Orbitron, monospace'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  background: 'rgba(0, 255, 255, 0.2)',
+  border: '1px solid #00ffff',
+  borderRadius: '5px',
+  color: '#00ffff',
+  fontSize: '0.75rem',
+  fontFamily: 'Orbitron, monospace',
+  cursor: 'pointer',
+  textTransform: 'uppercase'
+};
+
+const levelColor = (value: number) => (value < 30 ? '#ff0040' : value < 60 ? '#ffd700' : '#00ff88');
+
+// The four deflector arcs as the server holds them. Consoles with controls
+// angle them by picking the arc to draw from and then the arc to feed.
+const ShieldArcsPanel: React.FC<ShieldArcsPanelProps> = ({ gameState, onPlayerAction, asManeuver = false }) => {
+  const profile = useShipProfile();
+  const [open, setOpen] = useState(false);
+  const [angleFrom, setAngleFrom] = useState<FiringArc | null>(null);
+
+  const shields = gameState.weapons?.shields;
+  const angles = gameState.weapons?.shieldAngles;
+  const covered = profile?.shieldArcs ?? [];
+  const heading = gameState.pilot?.heading.x ?? 0;
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={{ ...buttonStyle, position: 'fixed', bottom: '20px', left: '20px', zIndex: 1500 }}>
+        🛡️ {(gameState.pilot?.shieldStatus ?? 0).toFixed(0)}%
+      </button>
+    );
+  }
+
+  const pickArc = (arc: FiringArc) => {
+    if (!onPlayerAction || !covered.includes(arc)) return;
+    if (!angleFrom || angleFrom === arc) {
+      setAngleFrom(angleFrom === arc ? null : arc);
+      return;
+    }
+    if (asManeuver) onPlayerAction('maneuver', { maneuver: 'angle_shields', from: angleFrom, to: arc });
+    else onPlayerAction('angle_shields', { from: angleFrom, to: arc });
+    setAngleFrom(null);
+  };
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px', fontWeight: 'bold' }}>
+        <span>🛡️ DEFLECTOR SHIELDS</span>
+        <span onClick={() => setOpen(false)} style={{ cursor: 'pointer' }}>✕</span>
+      </div>
+      <div style={{ color: '#aaaaaa', marginBottom: '6px' }}>Heading {heading.toFixed(0)}°</div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gridTemplateRows: 'repeat(3, 1fr)', gap: '4px', marginBottom: '6px' }}>
+        {(Object.keys(ARC_CELLS) as FiringArc[]).map(arc => {
+          const quadrant = ARC_QUADRANTS[arc];
+          const value = shields?.[quadrant] ?? 0;
+          const angle = angles?.[quadrant] ?? 0;
+          const hasProjector = covered.includes(arc);
+          return (
+            <div
+              key={arc}
+              onClick={() => pickArc(arc)}
+              title={hasProjector ? `${arc}: ${value.toFixed(0)}` : `${arc}: no projector`}
+              style={{
+                gridRow: ARC_CELLS[arc].row,
+                gridColumn: ARC_CELLS[arc].column,
+                padding: '4px 2px',
+                textAlign: 'center',
+                border: `1px solid ${angleFrom === arc ? '#ffd700' : hasProjector ? levelColor(value) : '#444'}`,
+                borderRadius: '3px',
+                color: hasProjector ? levelColor(value) : '#666',
+                cursor: onPlayerAction && hasProjector ? 'pointer' : 'default'
+              }}
+            >
+              <div style={{ fontSize: '0.6rem', color: '#aaaaaa' }}>{arc.toUpperCase()}</div>
+              <div style={{ fontWeight: 'bold' }}>{hasProjector ? value.toFixed(0) : '—'}</div>
+              {angle !== 0 && <div style={{ fontSize: '0.6rem' }}>{angle > 0 ? `+${angle}` : angle}</div>}
+            </div>
+          );
+        })}
+        <div style={{ gridRow: 2, gridColumn: 2, textAlign: 'center', alignSelf: 'center', fontSize: '1rem' }}>▲</div>
+      </div>
+
+      {onPlayerAction && (
+        <>
+          <div style={{ color: '#aaaaaa', marginBottom: '6px' }}>
+            {angleFrom ? `Angle from ${angleFrom} to…` : 'Pick an arc to angle from'}
+          </div>
+          <button
+            onClick={() => { setAngleFrom(null); onPlayerAction('level_shields', {}); }}
+            style={{ ...buttonStyle, width: '100%' }}
+          >
+            Level Shields
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShieldArcsPanel;
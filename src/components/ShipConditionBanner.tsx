@@ -0,0 +1,115 @@
+import React from 'react';
+import { useBridge } from '../context/BridgeContext';
+import { emitToServer, gmBroadcast, type PlayerActionHandler } from '../protocol';
+import type { GameState } from '../types';
+
+interface ShipConditionBannerProps {
+  gameState: GameState;
+  // Engineering passes its action sender so it can vent strain from here
+  onPlayerAction?: PlayerActionHandler;
+}
+
+const bannerStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: '50px',
+  left: '50%',
+  transform: 'translateX(-50%)',
+  zIndex: 1800,
+  display: 'flex',
+  alignItems: 'center',
+  gap: '12px',
+  padding: '8px 16px',
+  background: 'rgba(40, 0, 0, 0.92)',
+  border: '1px solid #ff4444',
+  borderRadius: '5px',
+  color: '#ff8888',
+  fontSize: '0.85rem',
+  fontFamily: 'Orbitron, monospace'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  background: 'rgba(255, 68, 68, 0.2)',
+  border: '1px solid #ff4444',
+  borderRadius: '5px',
+  color: '#ff8888',
+  fontSize: '0.75rem',
+  fontFamily: 'Orbitron, monospace',
+  cursor: 'pointer',
+  textTransform: 'uppercase'
+};
+
+// The ship's condition for every console: a banner while strain has it disabled
+// and a game-over screen once its hull gives out. The GM keeps their console
+// under a banner with the override that brings the ship back.
+const ShipConditionBanner: React.FC<ShipConditionBannerProps> = ({ gameState, onPlayerAction }) => {
+  const { socket, room, station, playerShip } = useBridge();
+  const ship = gameState.ship;
+  if (!ship || ship.condition === 'operational') return null;
+
+  const hull = `${Math.round(ship.hullTrauma)}/${playerShip?.hullTrauma ?? '?'}`;
+  const strain = `${Math.round(ship.systemStrain)}/${playerShip?.systemStrain ?? '?'}`;
+
+  const restoreShip = () => {
+    if (!socket) return;
+    emitToServer(socket, 'gm_broadcast', gmBroadcast(room, 'set_ship_condition', {
+      hullTrauma: 0,
+      systemStrain: 0,
+      condition: 'operational'
+    }, { source: 'gm', timestamp: Date.now() }));
+  };
+
+  if (ship.condition === 'disabled') {
+    return (
+      <div role="alert" style={bannerStyle}>
+        <span>⚠️ SHIP DISABLED · STRAIN {strain} · HELM AND WEAPONS OFFLINE</span>
+        {onPlayerAction && (
+          <button
+            onClick={() => onPlayerAction('vent_strain', {})}
+            disabled={ship.strainVentTimer > 0}
+            style={{ ...buttonStyle, opacity: ship.strainVentTimer > 0 ? 0.5 : 1 }}
+          >
+            {ship.strainVentTimer > 0 ? `Venting… ${Math.ceil(ship.strainVentTimer)}s` : 'Vent Strain'}
+          </button>
+        )}
+        {!onPlayerAction && station !== 'gm' && <span>Engineering must vent strain</span>}
+      </div>
+    );
+  }
+
+  if (station === 'gm') {
+    return (
+      <div role="alert" style={bannerStyle}>
+        <span>💥 SHIP DESTROYED · HULL {hull}</span>
+        <button onClick={restoreShip} style={buttonStyle}>Restore Ship</button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="alert"
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 3000,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: 'rgba(10, 0, 0, 0.95)',
+        color: '#ff4444',
+        fontFamily: 'Orbitron, monospace',
+        textAlign: 'center'
+      }}
+    >
+      <div style={{ fontSize: '3rem', letterSpacing: '6px', textShadow: '0 0 20px #ff0000' }}>SHIP DESTROYED</div>
+      <div style={{ marginTop: '1rem', color: '#ff8888' }}>
+        {playerShip?.name ?? 'The ship'} took {hull} hull trauma and broke apart.
+      </div>
+      <div style={{ marginTop: '0.5rem', color: '#888' }}>Waiting for the Game Master…</div>
+    </div>
+  );
+};
+
+export default ShipConditionBanner;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { useBridge } from '../context/BridgeContext';
+import { SKILL_CHECKS, type SkillCheckName } from '../dice';
+import { emitToServer, onServerEvent, type SkillCheckResult } from '../protocol';
+import CheckResultView from './CheckResultView';
+
+interface SkillCheckPanelProps {
+  check: SkillCheckName;
+}
+
+const panelStyle: React.CSSProperties = {
+  position: 'fixed',
+  bottom: '20px',
+  right: '20px',
+  zIndex: 1500,
+  width: '260px',
+  padding: '10px',
+  background: 'rgba(0, 20, 30, 0.92)',
+  border: '1px solid #00ffff',
+  borderRadius: '5px',
+  color: '#00ffff',
+  fontSize: '0.75rem',
+  fontFamily: 'Orbitron, monospace'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '42px',
+  background: 'rgba(0, 0, 0, 0.6)',
+  border: '1px solid #00ffff',
+  color: '#00ffff',
+  fontFamily: 'inherit'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  background: 'rgba(0, 255, 255, 0.2)',
+  border: '1px solid #00ffff',
+  borderRadius: '5px',
+  color: '#00ffff',
+  fontSize: '0.75rem',
+  fontFamily: 'Orbitron, monospace',
+  cursor: 'pointer',
+  textTransform: 'uppercase'
+};
+
+// Fields the player fills in from their character sheet and the GM's call;
+// the server sets the difficulty
+const FIELDS = [
+  { key: 'characteristic', label: 'Characteristic', min: 1, max: 6 },
+  { key: 'skill', label: 'Skill ranks', min: 0, max: 5 },
+  { key: 'setback', label: 'Setback', min: 0, max: 5 }
+] as const;
+
+type FieldKey = typeof FIELDS[number]['key'];
+
+// Asks the server to roll this station's check; the GM sees the same result
+const SkillCheckPanel: React.FC<SkillCheckPanelProps> = ({ check }) => {
+  const { socket, room } = useBridge();
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<FieldKey, number>>({
+    characteristic: 2,
+    skill: 1,
+    setback: 0
+  });
+  const [result, setResult] = useState<SkillCheckResult | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+    return onServerEvent(socket, 'skill_check_result', (data) => {
+      if (data.room === room && data.check === check) setResult(data);
+    });
+  }, [socket, room, check]);
+
+  const roll = () => {
+    emitToServer(socket, 'skill_check', { room, check, ...values });
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={{ ...buttonStyle, position: 'fixed', bottom: '20px', right: '20px', zIndex: 1500 }}>
+        🎲 {SKILL_CHECKS[check].label}
+      </button>
+    );
+  }
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '8px', fontWeight: 'bold' }}>
+        <span>🎲 {SKILL_CHECKS[check].label.toUpperCase()}</span>
+        <span onClick={() => setOpen(false)} style={{ cursor: 'pointer' }}>✕</span>
+      </div>
+      <div style={{ color: '#aaaaaa', marginBottom: '6px' }}>
+        {SKILL_CHECKS[check].skill} · Difficulty {SKILL_CHECKS[check].difficulty}
+      </div>
+
+      {FIELDS.map(field => (
+        <label key={field.key} style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+          {field.label}
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={values[field.key]}
+            onChange={(e) => {
+              const value = Math.round(Number(e.target.value));
+              if (Number.isNaN(value)) return;
+              setValues(current => ({ ...current, [field.key]: Math.max(field.min, Math.min(field.max, value)) }));
+            }}
+            style={inputStyle}
+          />
+        </label>
+      ))}
+
+      <button onClick={roll} disabled={!socket} style={{ ...buttonStyle, width: '100%', margin: '6px 0' }}>
+        Roll Check
+      </button>
+
+      {result && <CheckResultView result={result} />}
+    </div>
+  );
+};
+
+export default SkillCheckPanel;
@@ -0,0 +1,327 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useBridge } from '../context/BridgeContext';
+import { onServerEvent } from '../protocol';
+import { BOW_BEARING, RANGE_BAND_LIMITS, bearingBetween, distanceBetween, polar, rangeBandAt } from '../space';
+import type { EnemyShip, GameState, NavigationHazardType, RangeBand, SpaceVector } from '../types';
+
+interface TacticalPlotProps {
+  gameState?: GameState;
+  spawnLabel: string; // what a click on open space drops in
+  onSpawn: (bearing: number, range: number) => void;
+  onMove: (id: string, bearing: number, range: number) => void;
+  onRemove: (id: string) => void;
+}
+
+// A shot in flight between the crew's ship and a contact
+interface Shot {
+  from: string;
+  to: string;
+  hostile: boolean;
+  at: number;
+}
+
+const SIZE = 320;
+const CENTER: SpaceVector = { x: SIZE / 2, y: SIZE / 2 };
+const SCOPE_RADIUS = 150; // px out to radar range 100
+const PICK_RADIUS = 8; // px beyond a contact's hull that still grabs it
+const DRAG_THRESHOLD = 4; // px a press has to travel before it is a drag
+const SHOT_MS = 600; // how long a shot takes to cross the plot
+const CREW = 'crew';
+
+const FACTION_COLORS: Record<NonNullable<EnemyShip['faction']>, string> = {
+  enemy: '#ff2a2a',
+  ally: '#00ff88',
+  neutral: '#ffd700'
+};
+
+const HAZARD_COLORS: Record<NavigationHazardType, string> = {
+  asteroid_field: 'rgba(170, 140, 110, 0.2)',
+  gravity_well: 'rgba(170, 0, 255, 0.2)',
+  ion_storm: 'rgba(0, 136, 255, 0.2)',
+  solar_flare: 'rgba(255, 120, 0, 0.2)'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  background: 'rgba(0, 255, 136, 0.1)',
+  border: '1px solid #00ff88',
+  borderRadius: '4px',
+  color: '#00ff88',
+  fontSize: '0.75rem',
+  fontFamily: 'inherit',
+  cursor: 'pointer'
+};
+
+const wrapDeg = (d: number) => ((d % 360) + 360) % 360;
+
+// Plot point for a radar bearing and range; contacts past the scope sit on its rim
+const toPlot = (bearing: number, range: number): SpaceVector => {
+  const offset = polar(bearing, (Math.min(range, 100) / 100) * SCOPE_RADIUS);
+  return { x: CENTER.x + offset.x, y: CENTER.y + offset.y };
+};
+
+const fromPlot = (point: SpaceVector) => ({
+  bearing: bearingBetween(CENTER, point),
+  range: Math.min(100, (distanceBetween(CENTER, point) / SCOPE_RADIUS) * 100)
+});
+
+function drawHazard(ctx: CanvasRenderingContext2D, hazard: NonNullable<GameState['pilot']>['hazard']) {
+  if (!hazard) return;
+  ctx.fillStyle = HAZARD_COLORS[hazard.type];
+  ctx.beginPath(); ctx.arc(CENTER.x, CENTER.y, SCOPE_RADIUS, 0, Math.PI * 2); ctx.fill();
+
+  if (hazard.type === 'asteroid_field') {
+    // A fixed scatter of rocks, so the field does not flicker between frames
+    ctx.fillStyle = 'rgba(200, 180, 150, 0.6)';
+    for (let i = 0; i < 40; i++) {
+      const rock = toPlot((i * 137.5) % 360, 8 + ((i * 53) % 90));
+      ctx.beginPath(); ctx.arc(rock.x, rock.y, 1.5 + (i % 3), 0, Math.PI * 2); ctx.fill();
+    }
+  } else if (hazard.type === 'gravity_well') {
+    ctx.strokeStyle = 'rgba(170, 0, 255, 0.5)';
+    [0.2, 0.45, 0.75].forEach(share => {
+      ctx.beginPath(); ctx.arc(CENTER.x, CENTER.y, SCOPE_RADIUS * share, 0, Math.PI * 2); ctx.stroke();
+    });
+  }
+
+  ctx.fillStyle = '#ffd700';
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'left';
+  ctx.fillText(`${hazard.type.replace('_', ' ').toUpperCase()} (${hazard.intensity})`, 6, 14);
+}
+
+function drawRangeBands(ctx: CanvasRenderingContext2D) {
+  ctx.strokeStyle = 'rgba(0, 136, 255, 0.35)';
+  ctx.fillStyle = 'rgba(0, 136, 255, 0.7)';
+  ctx.font = '9px monospace';
+  ctx.textAlign = 'center';
+  (Object.keys(RANGE_BAND_LIMITS) as RangeBand[]).forEach(band => {
+    const radius = (RANGE_BAND_LIMITS[band] / 100) * SCOPE_RADIUS;
+    ctx.beginPath(); ctx.arc(CENTER.x, CENTER.y, radius, 0, Math.PI * 2); ctx.stroke();
+    ctx.fillText(band.toUpperCase(), CENTER.x, CENTER.y - radius + 10);
+  });
+}
+
+// The crew's ship at the centre, bow along the helm heading
+function drawCrewShip(ctx: CanvasRenderingContext2D, heading: number) {
+  const bow = wrapDeg(BOW_BEARING + heading);
+  const at = (bearing: number, px: number) => {
+    const offset = polar(bearing, px);
+    return { x: CENTER.x + offset.x, y: CENTER.y + offset.y };
+  };
+  const course = at(bow, 35);
+  ctx.strokeStyle = 'rgba(0, 255, 255, 0.5)';
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath(); ctx.moveTo(CENTER.x, CENTER.y); ctx.lineTo(course.x, course.y); ctx.stroke();
+  ctx.setLineDash([]);
+
+  const nose = at(bow, 10);
+  const port = at(bow - 140, 7);
+  const starboard = at(bow + 140, 7);
+  ctx.fillStyle = '#00ffff';
+  ctx.beginPath();
+  ctx.moveTo(nose.x, nose.y);
+  ctx.lineTo(port.x, port.y);
+  ctx.lineTo(starboard.x, starboard.y);
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawContact(ctx: CanvasRenderingContext2D, contact: EnemyShip, point: SpaceVector, selected: boolean) {
+  const radius = 4 + contact.size;
+  if (contact.wreck || !contact.alive) {
+    ctx.strokeStyle = '#ffaa00';
+    ctx.beginPath(); ctx.arc(point.x, point.y, radius, 0, Math.PI * 2); ctx.stroke();
+  } else {
+    const color = FACTION_COLORS[contact.faction ?? 'enemy'];
+    const course = polar(wrapDeg(BOW_BEARING + contact.heading), radius + 6);
+    ctx.strokeStyle = color;
+    ctx.beginPath(); ctx.moveTo(point.x, point.y); ctx.lineTo(point.x + course.x, point.y + course.y); ctx.stroke();
+    ctx.fillStyle = color;
+    ctx.beginPath(); ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+    // Past the edge of the scope the contact shows hollow on the rim
+    if (contact.y > 100) ctx.stroke(); else ctx.fill();
+  }
+  if (selected) {
+    ctx.strokeStyle = '#ffffff';
+    ctx.beginPath(); ctx.arc(point.x, point.y, radius + 4, 0, Math.PI * 2); ctx.stroke();
+  }
+  ctx.fillStyle = '#aaaaaa';
+  ctx.font = '8px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(contact.vehicle ?? contact.id, point.x, point.y + radius + 10);
+}
+
+// The encounter from above for the GM: the crew's ship at the centre, every
+// contact by faction, shots in flight, the navigation hazard and the range
+// bands. Click open space to drop a contact, drag one to move it and
+// right-click one to remove it; the server sends the change to every station.
+const TacticalPlot: React.FC<TacticalPlotProps> = ({ gameState, spawnLabel, onSpawn, onMove, onRemove }) => {
+  const { socket, room } = useBridge();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [placing, setPlacing] = useState(false);
+  const dragRef = useRef<{ id: string; start: SpaceVector; point: SpaceVector; moved: boolean } | null>(null);
+  const shotsRef = useRef<Shot[]>([]);
+
+  const contacts = gameState?.weapons?.enemies ?? [];
+  // The draw loop reads the latest snapshot without restarting
+  const view = { contacts, heading: gameState?.pilot?.heading.x ?? 0, hazard: gameState?.pilot?.hazard ?? null, selectedId };
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  // Our guns and the hostiles' shots, drawn as bolts crossing the plot
+  useEffect(() => {
+    if (!socket) return;
+    const stops = [
+      onServerEvent(socket, 'weapon_fired', (data) => {
+        if (data.room === room) shotsRef.current.push({ from: CREW, to: data.targetId, hostile: false, at: performance.now() });
+      }),
+      onServerEvent(socket, 'hostile_fire', (data) => {
+        if (data.room === room) shotsRef.current.push({ from: data.attackerId, to: CREW, hostile: true, at: performance.now() });
+      })
+    ];
+    return () => stops.forEach(stop => stop());
+  }, [socket, room]);
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const { contacts: shown, heading, hazard, selectedId: selected } = viewRef.current;
+      const drag = dragRef.current;
+      const pointOf = (id: string) => {
+        if (id === CREW) return CENTER;
+        if (drag?.moved && drag.id === id) return drag.point;
+        const contact = shown.find(c => c.id === id);
+        return contact ? toPlot(contact.x, contact.y) : null;
+      };
+
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, SIZE, SIZE);
+      ctx.lineWidth = 1;
+      drawHazard(ctx, hazard);
+      drawRangeBands(ctx);
+      drawCrewShip(ctx, heading);
+      shown.forEach(contact => drawContact(ctx, contact, pointOf(contact.id)!, contact.id === selected));
+
+      const now = performance.now();
+      shotsRef.current = shotsRef.current.filter(shot => now - shot.at < SHOT_MS);
+      ctx.lineWidth = 2;
+      shotsRef.current.forEach(shot => {
+        const from = pointOf(shot.from);
+        const to = pointOf(shot.to);
+        if (!from || !to) return;
+        const t = (now - shot.at) / SHOT_MS;
+        const tail = Math.max(0, t - 0.15);
+        ctx.strokeStyle = shot.hostile ? '#ff4444' : '#00ffff';
+        ctx.beginPath();
+        ctx.moveTo(from.x + (to.x - from.x) * tail, from.y + (to.y - from.y) * tail);
+        ctx.lineTo(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+        ctx.stroke();
+      });
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const plotPoint = (e: React.MouseEvent<HTMLCanvasElement>): SpaceVector => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) * SIZE) / rect.width, y: ((e.clientY - rect.top) * SIZE) / rect.height };
+  };
+
+  const contactAt = (point: SpaceVector) => contacts.find(contact => (
+    distanceBetween(toPlot(contact.x, contact.y), point) <= 4 + contact.size + PICK_RADIUS
+  ));
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    const point = plotPoint(e);
+    const contact = contactAt(point);
+    if (contact) {
+      setSelectedId(contact.id);
+      dragRef.current = { id: contact.id, start: point, point, moved: false };
+    } else if (placing) {
+      const { bearing, range } = fromPlot(point);
+      onSpawn(bearing, range);
+    } else {
+      setSelectedId(null);
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    drag.point = plotPoint(e);
+    if (distanceBetween(drag.start, drag.point) > DRAG_THRESHOLD) drag.moved = true;
+  };
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag?.moved) return;
+    const { bearing, range } = fromPlot(drag.point);
+    onMove(drag.id, bearing, range);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const contact = contactAt(plotPoint(e));
+    if (contact) onRemove(contact.id);
+  };
+
+  const selected = contacts.find(contact => contact.id === selectedId);
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={SIZE}
+        height={SIZE}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => { dragRef.current = null; }}
+        onContextMenu={handleContextMenu}
+        style={{
+          display: 'block',
+          width: '100%',
+          maxWidth: SIZE,
+          margin: '0 auto',
+          border: '1px solid var(--gm-blue)',
+          borderRadius: '4px',
+          cursor: placing ? 'crosshair' : 'pointer'
+        }}
+      />
+      <div style={{ fontSize: 10, color: '#888', margin: '6px 0' }}>
+        Drag a contact to move it · right-click to remove it
+      </div>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => setPlacing(!placing)}
+          style={placing ? { ...buttonStyle, background: '#00ff88', color: '#000' } : buttonStyle}
+        >
+          {placing ? `Placing ${spawnLabel}` : 'Place Contacts'}
+        </button>
+        {selected && (
+          <>
+            <span style={{ fontSize: 11, color: FACTION_COLORS[selected.faction ?? 'enemy'] }}>
+              {selected.vehicle ?? selected.id} · {rangeBandAt(selected.y)} · {Math.round(selected.x)}° ·
+              HP {Math.round(selected.hp)}{selected.maxHp ? `/${selected.maxHp}` : ''}
+            </span>
+            <button
+              onClick={() => { onRemove(selected.id); setSelectedId(null); }}
+              style={{ ...buttonStyle, borderColor: '#ff0040', color: '#ff0040' }}
+            >
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TacticalPlot;
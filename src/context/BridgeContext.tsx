@@ -0,0 +1,194 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { io } from 'socket.io-client';
+import { onServerEvent, type ClientSocket, type SeatAssignment } from '../protocol';
+import { consoleSeed, createRandomState, newSeed, randomStream, type Random, type RandomStreamName } from '../random';
+import { joinSeat } from '../seat';
+import { ActiveCritical, Galaxy, GameState, PowerEffects, ShipProfile, StationName, Vehicle } from '../types';
+
+// One provider owns the socket plus the room, player name and station picked in
+// the lobby, and keeps this browser seated there. Stations read all of it from
+// here instead of opening their own connection or parsing the URL.
+interface BridgeContextValue {
+  socket: ClientSocket | null;
+  connected: boolean;
+  room: string;
+  setRoom: (room: string) => void;
+  playerName: string;
+  setPlayerName: (name: string) => void;
+  station: StationName | '';
+  setStation: (station: StationName | '') => void;
+  // The seat the server confirmed for the current join, null until then
+  seat: SeatAssignment | null;
+  // Retries the gm seat of a password-locked room
+  setGmPassword: (password: string) => void;
+  // Ship stat blocks from the server's vehicle database
+  vehicles: Vehicle[];
+  // The crew's own hull, once the room's state and the database have arrived
+  playerShip: Vehicle | undefined;
+  // Systems and hyperlanes from the server's galaxy database
+  galaxy: Galaxy;
+}
+
+const BridgeContext = createContext<BridgeContextValue | null>(null);
+
+// The lobby's Navigation/Pilot choice sits in the navigation seat
+const seatFor = (station: StationName): StationName => (station === 'pilot' ? 'navigation' : station);
+const NO_CRITICALS: ActiveCritical[] = [];
+const NO_GALAXY: Galaxy = { systems: [], hyperlanes: [] };
+// Salt for this page load's console streams (useRandomStream)
+const SESSION_SALT = newSeed();
+
+export const BridgeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [socket, setSocket] = useState<ClientSocket | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [room, setRoom] = useState(
+    () => new URLSearchParams(window.location.search).get('room') || 'default'
+  );
+  const [playerName, setPlayerName] = useState('');
+  const [station, setStation] = useState<StationName | ''>('');
+  const [seat, setSeat] = useState<SeatAssignment | null>(null);
+  const [gmPassword, setGmPassword] = useState<string | undefined>(undefined);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [galaxy, setGalaxy] = useState<Galaxy>(NO_GALAXY);
+  const [shipVehicle, setShipVehicle] = useState<string | undefined>(undefined);
+
+  // Initialize the one socket connection every station shares
+  useEffect(() => {
+    const newSocket: ClientSocket = io({
+      transports: ['websocket', 'polling'],
+      timeout: 20000,
+      reconnection: true
+    });
+    setSocket(newSocket);
+
+    newSocket.on('connect', () => {
+      console.log('Connected to server:', newSocket.id);
+      setConnected(true);
+    });
+
+    newSocket.on('disconnect', (reason) => {
+      console.log('Disconnected from server:', reason);
+      setConnected(false);
+      setSeat(null);
+    });
+
+    onServerEvent(newSocket, 'vehicle_db', setVehicles);
+    onServerEvent(newSocket, 'galaxy_db', setGalaxy);
+
+    // Only the id is kept, so the steady stream of snapshots does not re-render every station
+    onServerEvent(newSocket, 'game_state_update', (state) => {
+      if (state.ship) setShipVehicle(state.ship.vehicle);
+    });
+
+    onServerEvent(newSocket, 'seat_assigned', (assignment) => {
+      setSeat(assignment);
+      // A reclaimed seat brings its name back
+      setPlayerName(name => name || assignment.name);
+    });
+
+    return () => {
+      newSocket.disconnect();
+    };
+  }, []);
+
+  // Keep the room in the URL so a reload lands in the same room
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('room', room);
+    window.history.replaceState(null, '', url.toString());
+  }, [room]);
+
+  // Sit at the chosen station, and again after every reconnect
+  useEffect(() => {
+    setSeat(null);
+    if (!socket || !station) return;
+
+    return joinSeat(socket, {
+      room,
+      station: seatFor(station),
+      name: playerName.trim() || undefined,
+      password: station === 'gm' ? gmPassword : undefined
+    });
+  }, [socket, room, station, playerName, gmPassword]);
+
+  const playerShip = useMemo(
+    () => vehicles.find(vehicle => vehicle.id === shipVehicle),
+    [vehicles, shipVehicle]
+  );
+
+  const value = useMemo<BridgeContextValue>(() => ({
+    socket,
+    connected,
+    room,
+    setRoom,
+    playerName,
+    setPlayerName,
+    station,
+    setStation,
+    seat,
+    setGmPassword,
+    vehicles,
+    playerShip,
+    galaxy
+  }), [socket, connected, room, playerName, station, seat, vehicles, playerShip, galaxy]);
+
+  return <BridgeContext.Provider value={value}>{children}</BridgeContext.Provider>;
+};
+
+export function useBridge() {
+  const context = useContext(BridgeContext);
+  if (!context) throw new Error('useBridge must be used inside a BridgeProvider');
+  return context;
+}
+
+// The limits of the crew's ship; undefined until the room's state has arrived
+export function useShipProfile(): ShipProfile | undefined {
+  return useBridge().playerShip?.profile;
+}
+
+// One slice of the room's state for consoles that do not get the whole of it;
+// only re-renders when the slice changes
+function useGameStateSlice<T>(pick: (state: GameState) => T | undefined): T | undefined {
+  const { socket } = useBridge();
+  const [slice, setSlice] = useState<T>();
+
+  useEffect(() => {
+    if (!socket) return;
+    return onServerEvent(socket, 'game_state_update', (state) => {
+      const next = pick(state);
+      if (next === undefined) return;
+      setSlice(current => (JSON.stringify(current) === JSON.stringify(next) ? current : next));
+    });
+    // pick is a plain accessor, so the subscription only follows the socket
+  }, [socket]);
+
+  return slice;
+}
+
+// What Engineering's power allocations currently let this console do
+export function usePowerEffects(): PowerEffects | undefined {
+  return useGameStateSlice(state => state.powerEffects);
+}
+
+// Critical hits the ship is carrying until their repairs finish
+export function useCriticals(): ActiveCritical[] {
+  return useGameStateSlice(state => state.engineering?.criticals) ?? NO_CRITICALS;
+}
+
+// A console's own seeded stream. It draws from a throwaway seed until the server
+// seats us and then restarts from this console's seed for the room; the
+// returned object never changes, so effects and intervals can hold on to it.
+export function useRandomStream(name: RandomStreamName): Random {
+  const { seat } = useBridge();
+  const [state] = useState(() => createRandomState());
+  const [random] = useState(() => randomStream(state, name));
+
+  const seed = seat ? consoleSeed(seat.seed, seat.station, SESSION_SALT) : undefined;
+  useEffect(() => {
+    if (seed === undefined || seed === state.seed) return;
+    state.seed = seed;
+    state.streams = {};
+  }, [seed, state]);
+
+  return random;
+}
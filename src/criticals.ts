@@ -0,0 +1,65 @@
+// Vehicle critical hits.
+// The Edge of the Empire d100 vehicle critical table, cut down to what the bridge
+// simulates. Every entry lands on one ship system and leaves a lasting effect
+// on the stations that use it until Engineering's droids repair it; the roll
+// gets +10 for each critical the ship is already carrying. The server rolls and
+// applies them (server/criticals.ts); the GM station lists the table to pick from.
+
+import type { ActiveCritical, CriticalEffect, PowerSystem } from './types';
+
+export type CriticalSeverity = 1 | 2 | 3 | 4;
+
+export interface CriticalHit {
+  id: string;
+  name: string;
+  min: number; // lowest d100 result for this entry
+  max: number; // highest result; the last entry is open-ended
+  severity: CriticalSeverity; // repair difficulty
+  system: PowerSystem | 'random';
+  effect: CriticalEffect;
+  description: string;
+}
+
+export const CRITICAL_MODIFIER_PER_HIT = 10;
+
+export const CRITICAL_HITS: CriticalHit[] = [
+  { id: 'mechanical_stress', name: 'Mechanical Stress', min: 1, max: 9, severity: 1, system: 'random', effect: 'system_strain', description: 'A system takes a jolt of strain.' },
+  { id: 'jostled', name: 'Jostled', min: 10, max: 18, severity: 1, system: 'random', effect: 'system_strain', description: 'The ship is rocked and a system knocked out of true.' },
+  { id: 'losing_power_to_shields', name: 'Losing Power to Shields', min: 19, max: 27, severity: 1, system: 'shields', effect: 'shields_weakened', description: 'Every shield arc holds 25 less.' },
+  { id: 'sensor_ghosting', name: 'Sensor Ghosting', min: 28, max: 36, severity: 1, system: 'sensors', effect: 'sensors_damaged', description: 'The radar reaches half as far.' },
+  { id: 'comms_band_burnout', name: 'Comms Band Burnout', min: 37, max: 45, severity: 1, system: 'communications', effect: 'comms_band_lost', description: 'Comms cannot tune inside one frequency band.' },
+  { id: 'component_hit', name: 'Component Hit', min: 46, max: 54, severity: 1, system: 'weapons', effect: 'weapon_mount_lost', description: 'One weapon mount is knocked offline.' },
+  { id: 'shields_failing', name: 'Shields Failing', min: 55, max: 63, severity: 2, system: 'shields', effect: 'shield_arc_down', description: 'One shield arc collapses.' },
+  { id: 'navicomputer_failure', name: 'Navicomputer Failure', min: 64, max: 72, severity: 2, system: 'sensors', effect: 'navicomputer_failure', description: 'No hyperspace jump can be plotted.' },
+  { id: 'power_fluctuations', name: 'Power Fluctuations', min: 73, max: 81, severity: 2, system: 'engines', effect: 'power_fluctuation', description: 'The reactor delivers a fifth less power.' },
+  { id: 'engine_damaged', name: 'Engine Damaged', min: 82, max: 90, severity: 3, system: 'engines', effect: 'engines_damaged', description: 'Top speed drops by a quarter.' },
+  { id: 'damaged_hyperdrive', name: 'Damaged Hyperdrive', min: 91, max: 99, severity: 3, system: 'engines', effect: 'hyperdrive_damaged', description: 'The hyperdrive cannot charge.' },
+  { id: 'fire', name: 'Fire!', min: 100, max: 108, severity: 4, system: 'random', effect: 'fire', description: 'A system burns down until the fire is put out.' },
+  { id: 'major_system_failure', name: 'Major System Failure', min: 109, max: Infinity, severity: 4, system: 'random', effect: 'system_failure', description: 'A system gets no power at all.' }
+];
+
+export function getCriticalHit(id: string) {
+  return CRITICAL_HITS.find(entry => entry.id === id);
+}
+
+// Table entry for a modified roll; anything under 1 counts as 1
+export function criticalForRoll(roll: number) {
+  return CRITICAL_HITS.find(entry => roll <= entry.max) ?? CRITICAL_HITS[CRITICAL_HITS.length - 1];
+}
+
+// The active criticals with one effect
+export function criticalsWith(criticals: ActiveCritical[] | undefined, effect: CriticalEffect) {
+  return (criticals ?? []).filter(critical => critical.effect === effect);
+}
+
+// The first active critical that keeps the hyperdrive from charging, if any
+export function hyperdriveBlocker(criticals: ActiveCritical[] | undefined) {
+  return (criticals ?? []).find(critical => critical.effect === 'navicomputer_failure' || critical.effect === 'hyperdrive_damaged');
+}
+
+// The lost band a Comms frequency falls in, if any
+export function lostBandAt(criticals: ActiveCritical[] | undefined, frequency: number) {
+  return criticalsWith(criticals, 'comms_band_lost').find(critical => (
+    critical.band && frequency >= critical.band.min && frequency <= critical.band.max
+  ));
+}
@@ -0,0 +1,213 @@
+// Edge of the Empire narrative dice.
+// Builds Genesys dice pools, rolls them from a seeded stream and resolves the
+// symbols. The server rolls every bridge check so the GM and the acting
+// station always see the same result; Engineering's power bonuses for the
+// check's ship system are merged into the pool first.
+
+import type { PowerSystem } from './types';
+import type { Random } from './random';
+
+export type DieType = 'ability' | 'proficiency' | 'boost' | 'difficulty' | 'challenge' | 'setback' | 'force';
+export type DieSymbol = 'success' | 'advantage' | 'triumph' | 'failure' | 'threat' | 'despair' | 'light' | 'dark';
+
+// Dice of each type in a pool
+export type DicePool = Record<DieType, number>;
+
+export interface RolledDie {
+  die: DieType;
+  symbols: DieSymbol[];
+}
+
+// Net result after cancelling. Negative success means net failures,
+// negative advantage means net threat.
+export interface CheckOutcome {
+  success: number;
+  advantage: number;
+  triumph: number;
+  despair: number;
+  light: number;
+  dark: number;
+  succeeded: boolean;
+}
+
+// A power bonus Engineering grants to checks on one system
+export interface DiceBonus {
+  type: 'boost' | 'ability' | 'upgrade';
+  name: string;
+  color: string;
+  description: string;
+}
+
+/* ---------- DICE ---------- */
+
+const S: DieSymbol = 'success';
+const A: DieSymbol = 'advantage';
+const TR: DieSymbol = 'triumph';
+const F: DieSymbol = 'failure';
+const TH: DieSymbol = 'threat';
+const DE: DieSymbol = 'despair';
+const L: DieSymbol = 'light';
+const D: DieSymbol = 'dark';
+
+// Face tables from the core rulebook
+const FACES: Record<DieType, DieSymbol[][]> = {
+  boost: [[], [], [S], [S, A], [A, A], [A]],
+  setback: [[], [], [F], [F], [TH], [TH]],
+  ability: [[], [S], [S], [S, S], [A], [A], [S, A], [A, A]],
+  difficulty: [[], [F], [F, F], [TH], [TH], [TH], [TH, TH], [F, TH]],
+  proficiency: [[], [S], [S], [S, S], [S, S], [A], [S, A], [S, A], [S, A], [A, A], [A, A], [TR]],
+  challenge: [[], [F], [F], [F, F], [F, F], [TH], [TH], [F, TH], [F, TH], [TH, TH], [TH, TH], [DE]],
+  force: [[D], [D], [D], [D], [D], [D], [D, D], [L], [L], [L, L], [L, L], [L, L]]
+};
+
+// Rolling order, positive dice first, matching the way pools are read out at the table
+export const DIE_TYPES: DieType[] = ['proficiency', 'ability', 'boost', 'challenge', 'difficulty', 'setback', 'force'];
+
+export const DIE_COLORS: Record<DieType, string> = {
+  ability: '#44ff44',
+  proficiency: '#ffff44',
+  boost: '#88ccff',
+  difficulty: '#aa66ff',
+  challenge: '#ff4444',
+  setback: '#888888',
+  force: '#ffffff'
+};
+
+export function emptyPool(): DicePool {
+  return { ability: 0, proficiency: 0, boost: 0, difficulty: 0, challenge: 0, setback: 0, force: 0 };
+}
+
+export interface PoolSpec {
+  characteristic: number;
+  skill: number;
+  difficulty: number;
+  // Difficulty dice upgraded to challenge dice
+  challenge?: number;
+  boost?: number;
+  setback?: number;
+  force?: number;
+}
+
+// The larger of characteristic and skill sets the pool size, the smaller how many are upgraded
+export function buildPool(spec: PoolSpec): DicePool {
+  const pool = emptyPool();
+  pool.ability = Math.max(spec.characteristic, spec.skill);
+  upgradeAbility(pool, Math.min(spec.characteristic, spec.skill));
+  pool.difficulty = spec.difficulty;
+  upgradeDifficulty(pool, spec.challenge || 0);
+  pool.boost = spec.boost || 0;
+  pool.setback = spec.setback || 0;
+  pool.force = spec.force || 0;
+  return pool;
+}
+
+// Each upgrade turns an ability die into proficiency, or adds an ability die when none are left
+export function upgradeAbility(pool: DicePool, times = 1) {
+  for (let i = 0; i < times; i++) {
+    if (pool.ability > 0) {
+      pool.ability--;
+      pool.proficiency++;
+    } else {
+      pool.ability++;
+    }
+  }
+  return pool;
+}
+
+export function upgradeDifficulty(pool: DicePool, times = 1) {
+  for (let i = 0; i < times; i++) {
+    if (pool.difficulty > 0) {
+      pool.difficulty--;
+      pool.challenge++;
+    } else {
+      pool.difficulty++;
+    }
+  }
+  return pool;
+}
+
+/* ---------- ENGINEERING BONUSES ---------- */
+
+// What a system's power level adds to checks that rely on it
+export function systemDiceBonuses(powerLevel: number): DiceBonus[] {
+  const bonuses: DiceBonus[] = [];
+  if (powerLevel >= 115) {
+    bonuses.push({ type: 'boost', name: 'Blue Boost Die', color: '#88ff88', description: 'Add 1 Boost Die to checks' });
+  }
+  if (powerLevel >= 130) {
+    bonuses.push({ type: 'ability', name: 'Green Die', color: '#44ff44', description: 'Add 1 Green Die to checks' });
+  }
+  if (powerLevel >= 150) {
+    bonuses.push({ type: 'upgrade', name: 'Upgrade Die', color: '#ffff44', description: 'Upgrade 1 Green Die to Yellow Die' });
+  }
+  return bonuses;
+}
+
+// Added dice go in before upgrades so an upgrade can land on them
+export function applyDiceBonuses(pool: DicePool, bonuses: DiceBonus[]) {
+  const merged = { ...pool };
+  bonuses.forEach(bonus => {
+    if (bonus.type === 'boost') merged.boost++;
+    if (bonus.type === 'ability') merged.ability++;
+  });
+  upgradeAbility(merged, bonuses.filter(bonus => bonus.type === 'upgrade').length);
+  return merged;
+}
+
+/* ---------- BRIDGE CHECKS ---------- */
+
+export type SkillCheckName = 'maneuver' | 'gunnery' | 'slice' | 'astrogation';
+
+// Which skill each station check uses, which system's power backs it and the
+// difficulty a station's own roll is made against
+export const SKILL_CHECKS: Record<SkillCheckName, { label: string; skill: string; system: PowerSystem; difficulty: number }> = {
+  maneuver: { label: 'Maneuver', skill: 'Piloting (Space)', system: 'engines', difficulty: 2 },
+  gunnery: { label: 'Gunnery Shot', skill: 'Gunnery', system: 'weapons', difficulty: 2 },
+  slice: { label: 'Slice Attempt', skill: 'Computers', system: 'communications', difficulty: 3 },
+  astrogation: { label: 'Astrogation', skill: 'Astrogation', system: 'sensors', difficulty: 2 }
+};
+
+/* ---------- ROLLING ---------- */
+
+export function rollPool(pool: DicePool, random: Random): RolledDie[] {
+  const dice: RolledDie[] = [];
+  DIE_TYPES.forEach(die => {
+    for (let i = 0; i < pool[die]; i++) {
+      dice.push({ die, symbols: random.pick(FACES[die]) });
+    }
+  });
+  return dice;
+}
+
+// Triumph also counts as a success and despair as a failure
+export function resolveRoll(dice: RolledDie[]): CheckOutcome {
+  const count = (symbol: DieSymbol) => dice.reduce(
+    (total, rolled) => total + rolled.symbols.filter(s => s === symbol).length,
+    0
+  );
+
+  const triumph = count('triumph');
+  const despair = count('despair');
+  const success = count('success') + triumph - count('failure') - despair;
+  return {
+    success,
+    advantage: count('advantage') - count('threat'),
+    triumph,
+    despair,
+    light: count('light'),
+    dark: count('dark'),
+    succeeded: success > 0
+  };
+}
+
+// "2 Success, 1 Threat, 1 Triumph"
+export function describeOutcome(outcome: CheckOutcome) {
+  const parts: string[] = [];
+  if (outcome.success !== 0) parts.push(`${Math.abs(outcome.success)} ${outcome.success > 0 ? 'Success' : 'Failure'}`);
+  if (outcome.advantage !== 0) parts.push(`${Math.abs(outcome.advantage)} ${outcome.advantage > 0 ? 'Advantage' : 'Threat'}`);
+  if (outcome.triumph > 0) parts.push(`${outcome.triumph} Triumph`);
+  if (outcome.despair > 0) parts.push(`${outcome.despair} Despair`);
+  if (outcome.light > 0) parts.push(`${outcome.light} Light`);
+  if (outcome.dark > 0) parts.push(`${outcome.dark} Dark`);
+  return parts.length > 0 ? parts.join(', ') : 'No net symbols';
+}
@@ -0,0 +1,58 @@
+// Gunnery tables shared by the Weapons station and the server.
+// The station aims and rolls its own shots from these; the server holds the
+// damage it reports to what the fired weapon (server/weapons.ts) or the loaded
+// ammunition could have dealt.
+
+import type { WeaponSimStats } from './types';
+
+export type Subsystem = 'ENGINES' | 'WEAPONS' | 'SHIELDS' | 'COMMS' | 'ANYWHERE';
+export type Ammo = 'KINETIC' | 'ION' | 'SEEKER' | 'PIERCING';
+
+export const CRIT_SUBSYSTEM_CHANCE = 0.2; // chance a critSubsystem round finds a weak spot
+export const CRIT_SUBSYSTEM_MULT = 1.5; // hull damage when it does
+
+export const AMMO_DEF: Record<Ammo, {
+  name: string;
+  heatPerShot: number;
+  baseDamage: number;
+  shieldMult: number;
+  hullMult: number;
+  spreadMult: number;
+  requiresLock?: boolean;
+  critSubsystem?: boolean;
+}> = {
+  KINETIC: { name: 'KINETIC', heatPerShot: 18, baseDamage: 12, shieldMult: 0.7, hullMult: 1.2, spreadMult: 1.0 },
+  ION: { name: 'ION', heatPerShot: 14, baseDamage: 8, shieldMult: 1.8, hullMult: 0.4, spreadMult: 1.1 },
+  SEEKER: { name: 'SEEKER', heatPerShot: 25, baseDamage: 20, shieldMult: 1.0, hullMult: 1.0, spreadMult: 0.6, requiresLock: true },
+  PIERCING: { name: 'PIERCING', heatPerShot: 22, baseDamage: 14, shieldMult: 0.9, hullMult: 1.1, spreadMult: 0.9, critSubsystem: true }
+};
+
+export const SUBSYS_DEF: Record<Subsystem, { name: string; dmgMult: number; special?: string }> = {
+  ENGINES: { name: 'ENGINES', dmgMult: 1.0, special: 'slow_on_hit' },
+  WEAPONS: { name: 'WEAPONS', dmgMult: 1.0, special: 'accuracy_debuff' },
+  SHIELDS: { name: 'SHIELDS', dmgMult: 1.15 },
+  COMMS: { name: 'COMMS', dmgMult: 0.9, special: 'lock_weaken' },
+  ANYWHERE: { name: 'ANYWHERE', dmgMult: 1.0, special: 'random_targeting' }
+};
+
+const MAX_AIM_MULT = Math.max(...Object.values(SUBSYS_DEF).map(subsystem => subsystem.dmgMult));
+
+export const isAmmo = (v: unknown): v is Ammo => typeof v === 'string' && Object.prototype.hasOwnProperty.call(AMMO_DEF, v);
+
+// Most one shot can take off a contact's shields and hull: every bolt hitting
+// the best-paying subsystem
+export function shotDamageLimit(shot: Pick<WeaponSimStats, 'damage' | 'bolts' | 'shieldMult' | 'hullMult'>) {
+  const damage = shot.damage * shot.bolts * MAX_AIM_MULT;
+  return { shieldDamage: damage * shot.shieldMult, hullDamage: damage * shot.hullMult };
+}
+
+// A round of the old ammunition fired as a one-bolt weapon
+export function ammoShot(ammo: Ammo) {
+  const round = AMMO_DEF[ammo];
+  return {
+    damage: round.baseDamage,
+    bolts: 1,
+    shieldMult: round.shieldMult,
+    hullMult: round.hullMult * (round.critSubsystem ? CRIT_SUBSYSTEM_MULT : 1)
+  };
+}
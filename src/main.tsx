@@ -1,9 +1,12 @@
-import React from 'react'
-import ReactDOM from 'react-dom/client'
-import App from './App'
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import App from './App'
+import { BridgeProvider } from './context/BridgeContext'
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <BridgeProvider>
+      <App />
+    </BridgeProvider>
+  </React.StrictMode>,
 )
\ No newline at end of file
@@ -0,0 +1,126 @@
+// Starship manoeuvres.
+// The Pilot-only manoeuvres from the Edge of the Empire vehicle rules. Each
+// needs the ship at or above a speed (the hull's 0-6 speed, read off the
+// throttle) and at or below a silhouette, and some cost system strain; a
+// second manoeuvre in the same combat round costs one more. Evasive Maneuvers
+// and Stay on Target hold for the round and change the combat checks made at
+// and from the ship. The server flies them (server/maneuvers.ts); the Pilot's
+// console lists them and Weapons reads what they do to its gunnery.
+
+import type { HelmStance, ManeuverName, ManeuverState } from './types';
+
+export interface Maneuver {
+  name: string;
+  minSpeed: number; // slowest vehicle speed it can be flown at
+  maxSilhouette: number | null; // largest hull that can fly it
+  strain: number; // system strain it costs; Punch It costs one per point of speed gained
+  description: string;
+}
+
+export const MANEUVERS: Record<ManeuverName, Maneuver> = {
+  accelerate: { name: 'Accelerate', minSpeed: 0, maxSilhouette: null, strain: 0, description: 'Speed up by one.' },
+  decelerate: { name: 'Decelerate', minSpeed: 1, maxSilhouette: null, strain: 0, description: 'Slow down by one.' },
+  fly: { name: 'Fly/Drive', minSpeed: 1, maxSilhouette: null, strain: 0, description: 'Turn to close on or open from a contact.' },
+  evasive: {
+    name: 'Evasive Maneuvers',
+    minSpeed: 3,
+    maxSilhouette: 4,
+    strain: 1,
+    description: 'Attacks on the ship and from it are one difficulty harder for a round.'
+  },
+  stay_on_target: {
+    name: 'Stay on Target',
+    minSpeed: 3,
+    maxSilhouette: 4,
+    strain: 1,
+    description: 'Attacks from the ship and at it are upgraded once for a round.'
+  },
+  punch_it: { name: 'Punch It', minSpeed: 0, maxSilhouette: 4, strain: 1, description: 'Straight to top speed.' },
+  gain_the_advantage: {
+    name: 'Gain the Advantage',
+    minSpeed: 4,
+    maxSilhouette: null,
+    strain: 1,
+    description: 'A Piloting check to get on the hostiles\' tails: gunnery gains a boost die and pursuers lose their edge for a round.'
+  },
+  angle_shields: { name: 'Angle Deflector Shields', minSpeed: 0, maxSilhouette: null, strain: 0, description: 'Move shield capacity between arcs.' }
+};
+
+export const MANEUVER_NAMES = Object.keys(MANEUVERS) as ManeuverName[];
+
+export const ROUND_SECONDS = 10; // one combat round at the bridge's pace
+export const MAX_MANEUVERS = 2; // Pilot-only manoeuvres per round
+export const EXTRA_MANEUVER_STRAIN = 1; // for the second one
+
+// Hit chance one upgrade, or one boost die, moves a shot the bridge resolves by odds
+const UPGRADE_ODDS = 0.1;
+const BOOST_ODDS = 0.05;
+
+export function createManeuvers(): ManeuverState {
+  return { stance: null, stanceTimer: 0, advantage: 0, flown: 0, roundTimer: 0 };
+}
+
+// The hull's speed (0 to its top speed) at a throttle setting, and back
+export function vehicleSpeed(throttle: number, topSpeed: number) {
+  return Math.round((throttle / 100) * topSpeed);
+}
+
+export function throttleFor(speed: number, topSpeed: number) {
+  return topSpeed > 0 ? Math.round((speed / topSpeed) * 100) : 0;
+}
+
+// What the helm has to work with: the hull, its speed now and the fastest the engines allow
+export interface HelmReading {
+  silhouette: number;
+  speed: number;
+  topSpeed: number;
+  flown: number;
+}
+
+// Why the ship cannot fly a manoeuvre right now, or null
+export function maneuverBlocker(name: ManeuverName, helm: HelmReading): string | null {
+  const maneuver = MANEUVERS[name];
+  if (helm.flown >= MAX_MANEUVERS) return `only ${MAX_MANEUVERS} manoeuvres a round`;
+  if (maneuver.maxSilhouette !== null && helm.silhouette > maneuver.maxSilhouette) {
+    return `silhouette ${helm.silhouette} is too big, ${maneuver.maxSilhouette} at most`;
+  }
+  if (helm.speed < maneuver.minSpeed) return `needs speed ${maneuver.minSpeed}, the ship is at ${helm.speed}`;
+  if ((name === 'accelerate' || name === 'punch_it') && helm.speed >= helm.topSpeed) return 'the ship is at top speed';
+  return null;
+}
+
+// System strain a manoeuvre costs, counting the round's earlier ones
+export function maneuverStrain(name: ManeuverName, helm: HelmReading) {
+  const base = name === 'punch_it' ? Math.max(0, helm.topSpeed - helm.speed) : MANEUVERS[name].strain;
+  return base + (helm.flown > 0 ? EXTRA_MANEUVER_STRAIN : 0);
+}
+
+/* ---------- COMBAT CHECKS ---------- */
+
+// What the helm does to a combat check
+export interface CheckUpgrades {
+  difficulty: number;
+  ability: number;
+  boost: number;
+}
+
+const stanceUpgrades = (stance: HelmStance | null): CheckUpgrades => ({
+  difficulty: stance === 'evasive' ? 1 : 0,
+  ability: stance === 'stay_on_target' ? 1 : 0,
+  boost: 0
+});
+
+// Hostile attacks on the crew's ship
+export function incomingUpgrades(maneuvers: ManeuverState | undefined): CheckUpgrades {
+  return stanceUpgrades(maneuvers?.stance ?? null);
+}
+
+// The crew's own gunnery
+export function gunneryUpgrades(maneuvers: ManeuverState | undefined): CheckUpgrades {
+  return { ...stanceUpgrades(maneuvers?.stance ?? null), boost: maneuvers && maneuvers.advantage > 0 ? 1 : 0 };
+}
+
+// The same upgrades for a shot resolved by hit chance instead of dice
+export function hitChanceShift(upgrades: CheckUpgrades) {
+  return (upgrades.ability - upgrades.difficulty) * UPGRADE_ODDS + upgrades.boost * BOOST_ODDS;
+}
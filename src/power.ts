@@ -0,0 +1,80 @@
+// Power effects shared by the server and the stations.
+// Engineering's allocations reach the rest of the ship through one model: each
+// system's effective power (its allocation after efficiency, damage and any
+// reactor shortfall; 100 is nominal) turns into the modifiers the other
+// stations fly, fight and talk with. The server works them out every tick and
+// sends them with the room's state; Engineering reads the same formula.
+// Critical hits (src/criticals.ts) cut into the reactor, engines and sensors here.
+
+import { criticalsWith } from './criticals';
+import type { GameState, PowerAllocations, PowerEffects, PowerSystem, SystemStatus } from './types';
+
+type EngineeringState = NonNullable<GameState['engineering']>;
+
+export const NOMINAL_POWER = 100;
+export const EMERGENCY_POWER_BONUS = 100; // extra units while emergency power is on
+const OVERCHARGE_LIMIT = 1.5; // most a system gains from power above nominal
+const FLUCTUATION_SUPPLY = 0.8; // share of the reactor each Power Fluctuations critical leaves
+const DAMAGED_ENGINE_SPEED = 0.75; // top speed each Engine Damaged critical leaves
+const DAMAGED_SENSOR_RANGE = 0.5; // radar range each Sensor Ghosting critical leaves
+
+const POWER_SYSTEMS: PowerSystem[] = ['weapons', 'shields', 'engines', 'sensors', 'lifeSupport', 'communications'];
+
+const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// What an allocation delivers through a worn or damaged system
+export function effectivePower(allocated: number, status: SystemStatus | undefined) {
+  const efficiency = (status?.efficiency ?? 100) / 100;
+  const damagePenalty = status?.damaged ? 0.8 : 1.0;
+  const criticalPenalty = status?.criticalDamage ? 0.5 : 1.0;
+  return allocated * efficiency * damagePenalty * criticalPenalty;
+}
+
+// Units the reactor can hand out right now
+export function availablePower(engineering: EngineeringState) {
+  const { reactorOutput, emergencyPower } = engineering.powerDistribution;
+  return reactorOutput + (emergencyPower ? EMERGENCY_POWER_BONUS : 0);
+}
+
+export function powerEffects(engineering: EngineeringState): PowerEffects {
+  const allocations = engineering.powerDistribution.powerAllocations;
+  const requested = POWER_SYSTEMS.reduce((total, system) => total + allocations[system], 0);
+  // A reactor that falls short of the allocations shares what it has evenly
+  const fluctuation = FLUCTUATION_SUPPLY ** criticalsWith(engineering.criticals, 'power_fluctuation').length;
+  const supply = requested > 0 ? Math.min(1, (availablePower(engineering) * fluctuation) / requested) : 1;
+  const failed = criticalsWith(engineering.criticals, 'system_failure').map(critical => critical.system);
+  const penalty = (effect: 'engines_damaged' | 'sensors_damaged', factor: number) => (
+    factor ** criticalsWith(engineering.criticals, effect).length
+  );
+
+  const effective: PowerAllocations = { ...allocations };
+  POWER_SYSTEMS.forEach(system => {
+    effective[system] = failed.includes(system)
+      ? 0
+      : Math.round(effectivePower(allocations[system] * supply, engineering.systemStatus[system]));
+  });
+  const level = (system: PowerSystem) => clamp(effective[system] / NOMINAL_POWER, 0, OVERCHARGE_LIMIT);
+
+  return {
+    effectivePower: effective,
+    weapons: {
+      heatDissipation: round2(level('weapons')),
+      fireRate: round2(level('weapons'))
+    },
+    engines: {
+      maxSpeed: Math.round(clamp(level('engines'), 0, 1) * 100 * penalty('engines_damaged', DAMAGED_ENGINE_SPEED)),
+      turnRate: round2(level('engines'))
+    },
+    shields: {
+      regen: round2(level('shields'))
+    },
+    sensors: {
+      radarRange: Math.round(clamp(25 + 75 * level('sensors'), 25, 100) * penalty('sensors_damaged', DAMAGED_SENSOR_RANGE))
+    },
+    communications: {
+      signalFloor: Math.round(clamp(40 * (level('communications') - 0.5), 0, 40)),
+      signalCeiling: Math.round(clamp(level('communications'), 0, 1) * 100)
+    }
+  };
+}
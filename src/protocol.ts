@@ -0,0 +1,623 @@
+// Socket protocol shared by the server and every station.
+// Each event name and payload lives here so a typo or a mismatched payload is a
+// compile error instead of a silently ignored message.
+import type { Socket as ClientSocketBase } from 'socket.io-client';
+import type { BroadcastOperator, Server, Socket as ServerSocketBase } from 'socket.io';
+import type {
+  EnemyShip,
+  FiringArc,
+  Galaxy,
+  GameState,
+  HostileBehavior,
+  ManeuverName,
+  NavigationHazardType,
+  PowerAllocations,
+  PowerSystem,
+  RepairTask,
+  RoomSummary,
+  ShipCondition,
+  ShipRegion,
+  ShipTraffic,
+  StationName,
+  SystemBoost,
+  User,
+  Vehicle,
+  WeaponLoadout
+} from './types';
+import type { CheckOutcome, DiceBonus, DicePool, RolledDie, SkillCheckName } from './dice';
+import type { Ammo } from './gunnery';
+
+/* ---------- PLAYER ACTIONS ---------- */
+
+// Angle deflector shields: move one step of capacity from one arc to another
+export interface ShieldAngle {
+  from: FiringArc;
+  to: FiringArc;
+}
+
+// Engineering asks for a repair; the server sizes the task. A jury-rig order for
+// a system already in the queue speeds that repair up instead.
+export interface RepairOrder {
+  system: PowerSystem;
+  damageType: RepairTask['damageType'];
+  droids: number;
+  juryRigged?: boolean;
+}
+
+// player_action: action name -> value
+export interface PlayerActionMap {
+  // Communications
+  set_frequency: number;
+  set_secondary_frequency: number;
+  set_signal_strength: number;
+  set_interference: number;
+  toggle_emergency_beacon: boolean;
+  // Engineering
+  set_power_allocation: Partial<PowerAllocations> & { maxAvailable?: number };
+  toggle_emergency_power: boolean;
+  set_reactor_output: number;
+  vent_strain: Record<string, never>;
+  queue_repair: RepairOrder;
+  assign_repair_droids: { id: string; droids: number };
+  cancel_repair: { id: string };
+  // Navigation
+  set_speed: number;
+  update_heading_x: number;
+  update_heading_y: number;
+  set_target_system: string;
+  plan_route: string; // destination system id
+  clear_route: Record<string, never>;
+  set_jump_plan: number;
+  plot_jump: AstrogationOrder;
+  hyperdrive_jump: number;
+  toggle_autopilot: number;
+  emergency_power: number;
+  emergency_stop: number;
+  maneuver: ManeuverOrder;
+  // Deflector shields
+  angle_shields: ShieldAngle;
+  level_shields: Record<string, never>;
+  // GM presets
+  red_alert: boolean;
+  clear_all_assigned_weapons: Record<string, never>;
+  weapons_offline: boolean;
+  hyperdrive_ready: boolean;
+  fuel_empty: boolean;
+  communications_blackout: boolean;
+  gm_interference_change: number;
+  reduce_interference: number;
+  add_interference: number;
+  jam_all_signals: boolean;
+  set_distance_to_mass: number;
+}
+
+export type PlayerActionType = keyof PlayerActionMap;
+
+export type PlayerAction = {
+  [A in PlayerActionType]: {
+    room: string;
+    action: A;
+    value: PlayerActionMap[A];
+    target?: StationName;
+  };
+}[PlayerActionType];
+
+export type PlayerActionHandler = <A extends PlayerActionType>(action: A, value: PlayerActionMap[A]) => void;
+
+export interface PlayerActionBroadcast {
+  action: PlayerActionType;
+  value: unknown;
+  target?: StationName;
+  station?: StationName;
+  player?: string;
+}
+
+/* ---------- GM BROADCASTS ---------- */
+
+export interface CommsMessage {
+  id: string;
+  from: string;
+  to: string;
+  content: string;
+  // The GM stamps a Date (an ISO string once it crosses the wire), Comms epoch ms
+  timestamp: Date | string | number;
+  priority: 'low' | 'normal' | 'high' | 'emergency';
+  frequency?: number;
+  onAir?: string;
+  encrypted?: boolean;
+  acknowledged?: boolean;
+  analysisMode?: string;
+}
+
+// The broadcast type decides the faction; the GM still tags its spawns with it
+// A vehicle id takes speed, size, hull and shields from the vehicle database; explicit fields still win
+export type ShipSpawn = Partial<Pick<EnemyShip, 'id' | 'x' | 'y' | 'heading' | 'speed' | 'size' | 'hp' | 'shields' | 'ecmFreq' | 'faction' | 'vehicle' | 'behavior' | 'focusArc'>>;
+
+// A contact the GM dragged on the tactical plot, to its new radar bearing and range
+export type ContactMove = Pick<EnemyShip, 'id' | 'x' | 'y'>;
+
+export interface FormationSpawn {
+  count?: number;
+  ecmFreqs?: number[];
+  faction?: EnemyShip['faction'];
+  vehicle?: string;
+  behavior?: HostileBehavior;
+}
+
+// No id orders every hostile contact; focus without an arc picks the weakest one
+export interface HostileOrders {
+  id?: string;
+  behavior: HostileBehavior;
+  focusArc?: FiringArc;
+}
+
+// GM override for the crew's ship: set either pool, or force a condition
+// (restoring a destroyed ship, say); left out fields stay as they are
+export interface ShipConditionOrder {
+  hullTrauma?: number;
+  systemStrain?: number;
+  condition?: ShipCondition;
+}
+
+// GM critical hit on the crew's ship: a picked table entry, a set d100 result,
+// or a server roll plus the modifier
+export interface CriticalHitOrder {
+  entry?: string;
+  roll?: number;
+  modifier?: number;
+}
+
+// A hostile contact fired on the crew's ship
+export interface HostileFire {
+  room: string;
+  attackerId: string;
+  weapon: string;
+  arc: FiringArc; // the shield arc facing the attacker
+  hit: boolean;
+  shieldDamage: number;
+  systemDamage: number; // what got past the arc
+  system?: PowerSystem; // the system it landed on
+  hullTrauma: number; // hull trauma past the armor, or system strain for ion weapons
+}
+
+export type EmergencyScenario =
+  | { type: 'total_system_failure' | 'restore_systems' }
+  | { type: 'cascade_failure' | 'power_crisis' | 'system_overload'; systems: string[]; severity: number };
+
+// gm_broadcast: type -> value
+export interface GmBroadcastMap {
+  test_connection: string | { message: string };
+
+  // The crew's ship, by vehicle database id
+  set_player_ship: string;
+
+  // Communications
+  signal_strength_update: number;
+  interference_update: number;
+  frequency_update: number;
+  region_update: ShipRegion;
+  emergency_beacon_update: boolean;
+  new_message: CommsMessage;
+  scan_started: { analysisMode: string; timestamp: number };
+  scan_response: { timestamp: number; from: string };
+  composer_protocol_change: string;
+
+  // Navigation
+  distance_to_mass_update: number;
+  navigation_update: { speed?: number };
+  navigation_malfunction: unknown;
+  navigation_hazard: { type: NavigationHazardType; intensity: string };
+  hyperdrive_control: { action: 'force_ready' | 'force_charge' | 'force_jump' | 'emergency_stop' | 'disable' | 'cooldown' | 'pull_out' };
+  set_interdiction: boolean;
+  fuel_control:
+    | { action: 'refuel' | 'drain'; amount: number }
+    | { action: 'critical' | 'set_level'; level: number };
+  hypermatter_control:
+    | { action: 'set_amount' | 'critical' | 'add' | 'drain'; amount: number }
+    | { action: 'refill' };
+  asteroid_field_control: { action: 'start' | 'stop' };
+  enemy_pursuit: { action: 'activate' | 'deactivate' };
+  shield_update: { shieldStatus: number; arc?: FiringArc }; // no arc sets every covered arc
+  engine_temp_control: { action: 'set_temperature'; temperature: number };
+  emergency_scenario: EmergencyScenario;
+
+  // Weapons
+  spawn_enemy_ship: ShipSpawn;
+  wave_spawn: FormationSpawn;
+  boss_spawn: { id?: string; ecmFreq?: number };
+  spawn_ally_ship: ShipSpawn;
+  ally_squad_spawn: FormationSpawn;
+  spawn_neutral_ship: ShipSpawn;
+  neutral_convoy_spawn: FormationSpawn;
+  clear_all_enemies: Record<string, never>;
+  clear_all_allies: Record<string, never>;
+  clear_all_neutrals: Record<string, never>;
+  move_contact: ContactMove;
+  remove_contact: { id: string };
+  set_hostile_behavior: HostileOrders;
+  ecm_burst: Record<string, never>;
+  add_primary_weapon: { weapon: string };
+  add_secondary_weapon: { weapon: string };
+  clear_primary_weapons: Record<string, never>;
+  clear_secondary_weapons: Record<string, never>;
+
+  // Engineering
+  set_power_allocation: { system: PowerSystem; value: number };
+  system_damage: { system: string; healthLoss: number; damageType?: string };
+  system_repair: { system: string; healAmount: number };
+  system_malfunction: { system: string; type: 'power_surge' | 'efficiency_loss' | 'strain_buildup'; severity: number };
+  system_efficiency_change: { system: string; efficiency: number };
+  system_strain_change: { system: string; strain: number };
+  system_health_change: { system: string; health: number };
+  power_update: { reactorOutput?: number; emergencyPower?: boolean; systemPowerLoss?: string };
+  reactor_fluctuation: { intensity: number; duration: number };
+  system_configuration: { system?: string; globalSettings?: Record<string, unknown>; difficultyModifier?: number };
+  random_event: Record<string, unknown>;
+  droid_allocation: { availableDroids: number };
+  ship_strain_update: { current: number; maximum: number };
+  ship_emergency_shutdown: { message: string; timestamp: number; source: StationName };
+  critical_hit: CriticalHitOrder;
+  set_ship_condition: ShipConditionOrder;
+  clear_critical: { id: string };
+}
+
+export type GmBroadcastType = keyof GmBroadcastMap;
+
+export interface GmBroadcastEnvelope {
+  room: string;
+  source?: StationName;
+  target?: StationName;
+  timestamp?: number;
+}
+
+export type GmBroadcastOf<T extends GmBroadcastType> = GmBroadcastEnvelope & { type: T; value: GmBroadcastMap[T] };
+
+export type GmBroadcast = { [T in GmBroadcastType]: GmBroadcastOf<T> }[GmBroadcastType];
+
+// Build a gm_broadcast message; the value is checked against the broadcast type
+export const gmBroadcast = <T extends GmBroadcastType>(
+  room: string,
+  type: T,
+  value: GmBroadcastMap[T],
+  envelope: Omit<GmBroadcastEnvelope, 'room'> = {}
+): GmBroadcastOf<T> => ({ ...envelope, room, type, value });
+
+/* ---------- COMM BROADCASTS ---------- */
+
+export interface CommBroadcastMap {
+  frequency_update: number;
+  analysis_mode_update: string;
+}
+
+export type CommBroadcast = {
+  [T in keyof CommBroadcastMap]: { type: T; value: CommBroadcastMap[T]; room: string; source?: StationName };
+}[keyof CommBroadcastMap];
+
+/* ---------- STATION RELAYS ---------- */
+
+export interface StationStateReport {
+  room?: string;
+  station: StationName;
+  state: Record<string, any>;
+}
+
+export type EngineeringActionEvent =
+  | { type: 'repair_task_created'; task: RepairTask }
+  | { type: 'repair_completed'; system: string; quality: 'failure' | 'success' | 'advantage' | 'triumph'; healthGain: number; juryRigged: boolean }
+  | { type: 'system_boost_activated'; boost: SystemBoost }
+  | { type: 'system_boost_deactivated'; boostId: string; systemName: string }
+  | { type: 'emergency_shutdown'; system: string }
+  | { type: 'complete_ship_shutdown'; message: string; timestamp: number }
+  | { type: 'life_support_priority'; value: boolean }
+  | { type: 'emergency_repair'; system: string }
+  | { type: 'emergency_protocols_activated'; criticalSystems: string[] }
+  | { type: 'emergency_procedures_deactivated' }
+  | { type: 'reactor_output_change'; value: number; totalPower: number }
+  | { type: 'reactor_output_fluctuation'; value: number; fluctuation: number; cause: string }
+  | { type: 'system_calibration'; system: string; calibrationType: string }
+  | { type: 'power_allocation_change'; system: PowerSystem; value: number; effectivePower?: number; totalAllocated?: number; efficiency?: number }
+  | { type: 'system_dice_bonuses'; system: string; powerLevel: number; bonuses: DiceBonus[]; timestamp: number }
+  | { type: 'repair_droid_assignment_change'; taskId: string; systemName: string; oldDroidCount: number; newDroidCount: number; newTimeRequired: number; timestamp: number }
+  | { type: 'emergency_power_toggle'; value: boolean };
+
+export type EngineeringAction = { room: string } & EngineeringActionEvent;
+
+export interface EngineeringPerformanceStats {
+  timestamp: number;
+  systemsOperational: number;
+  totalSystems: number;
+  averageHealth: number;
+  averageStrain: number;
+  powerEfficiency: number;
+  activeRepairs: number;
+  activeBoosts: number;
+  emergencyProceduresActive: number;
+}
+
+export type EngineeringPerformance = { room: string } & (
+  | { type: 'gm_damage_received'; system: string; damage: number; newHealth: number; responseTime: number }
+  | { type: 'performance_update'; performance: EngineeringPerformanceStats }
+);
+
+export interface WeaponFired {
+  room: string;
+  targetId: string;
+  hit: boolean;
+  weapon?: string;
+  ammo?: Ammo;
+  aim: string;
+  damage: { shieldDamage: number; hullDamage: number };
+  solveQuality: number;
+  spread: number;
+  locked: boolean;
+  consumedMissile?: boolean;
+}
+
+export interface SalvageComplete {
+  room: string;
+  targetId: string;
+  reward: 'missile' | 'heatsink';
+}
+
+// The room's traffic picture, pushed by the server every traffic tick and after each pin command
+export interface ShipDataUpdate extends ShipTraffic {
+  room: string;
+  timestamp: number;
+}
+
+export interface PinShip {
+  room: string;
+  shipId: string;
+  pinned: boolean;
+}
+
+export interface DoublePinShip {
+  room: string;
+  shipId: string | null;
+}
+
+export interface TargetingContact {
+  id: string;
+  type: 'ship';
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+  size: string;
+  threat: string;
+  distance: number;
+  bearing: number;
+  classification: string;
+  faction: string;
+  isDoublePinned: boolean;
+  [key: string]: unknown;
+}
+
+export interface TargetingDataUpdate {
+  room: string;
+  targets: TargetingContact[];
+  source: StationName;
+  timestamp: number;
+  doublePinnedShip: { id: string; designation: string | null; status: string } | null;
+}
+
+export interface DebugRoomResponse {
+  room: string;
+  exists: boolean;
+  userCount: number;
+  users: User[];
+}
+
+export interface EventRejected {
+  event: string;
+  reason: string;
+}
+
+// A known event whose payload failed validation or that the sender's seat may not send; nothing was applied
+export interface ActionRejected {
+  event: ClientEventName;
+  action?: string;
+  reason: string;
+}
+
+/* ---------- SKILL CHECKS ---------- */
+
+// A station asks the server to roll one of its checks. Characteristic and skill
+// come from the acting character's sheet; the difficulty is set at the table.
+export interface SkillCheckRequest {
+  room: string;
+  check: SkillCheckName;
+  characteristic: number;
+  skill: number;
+  challenge?: number;
+  boost?: number;
+  setback?: number;
+}
+
+// The Pilot's Astrogation check for the next jump; the server sets the
+// difficulty from the course
+export type AstrogationOrder = Pick<SkillCheckRequest, 'characteristic' | 'skill'>;
+
+// A helm manoeuvre. Fly/Drive names the contact to close on or open from, Gain
+// the Advantage carries the Pilot's Agility and Piloting (Space) ranks, and
+// angling the deflectors names the arcs.
+export type ManeuverOrder =
+  | { maneuver: Exclude<ManeuverName, 'fly' | 'gain_the_advantage' | 'angle_shields'> }
+  | { maneuver: 'fly'; contact: string; close: boolean }
+  | ({ maneuver: 'gain_the_advantage' } & Pick<SkillCheckRequest, 'characteristic' | 'skill'>)
+  | ({ maneuver: 'angle_shields' } & ShieldAngle);
+
+// Sent to the acting station and the GM
+export interface SkillCheckResult {
+  room: string;
+  id: string;
+  check: SkillCheckName;
+  station?: StationName;
+  player?: string;
+  // The pool as rolled, Engineering bonuses included
+  pool: DicePool;
+  bonuses: DiceBonus[];
+  dice: RolledDie[];
+  outcome: CheckOutcome;
+  timestamp: number;
+}
+
+/* ---------- SESSIONS ---------- */
+
+export interface JoinRequest {
+  room?: string;
+  station: StationName;
+  name?: string;
+  // Required for the gm seat of a password-locked room
+  password?: string;
+  // Kept by the browser per station; joining again with it reclaims a dropped seat
+  token?: string;
+}
+
+// Sent back to a socket once its join has been seated
+export interface SeatAssignment {
+  room: string;
+  station: StationName;
+  name: string;
+  reclaimed: boolean;
+  // The room's random seed; consoles derive their own seeded streams from it
+  seed: number;
+}
+
+// What a room remembers besides its GameState; sent as session_restore on join and snapshot load
+export interface SessionRecords {
+  messages: CommsMessage[];
+  loadout: WeaponLoadout;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  label: string;
+  savedAt: number;
+}
+
+export interface SnapshotList {
+  room: string;
+  snapshots: SnapshotSummary[];
+}
+
+/* ---------- EVENT MAPS ---------- */
+
+export interface ClientToServerEvents {
+  join: (data: JoinRequest) => void;
+  list_rooms: () => void;
+  create_room: (data: { name: string; gmPassword?: string; seed?: number; ship?: string }) => void;
+  archive_room: (data: { name: string }) => void;
+  player_action: (data: PlayerAction) => void;
+  gm_broadcast: (data: GmBroadcast) => void;
+  comm_broadcast: (data: CommBroadcast) => void;
+
+  // Sensor traffic commands
+  pin_ship: (data: PinShip) => void;
+  double_pin_ship: (data: DoublePinShip) => void;
+
+  // Dice checks rolled by the server
+  skill_check: (data: SkillCheckRequest) => void;
+
+  // Relayed station events
+  state_update: (data: StationStateReport) => void;
+  engineering_action: (data: EngineeringAction) => void;
+  engineering_performance: (data: EngineeringPerformance) => void;
+  weapon_fired: (data: WeaponFired) => void;
+  salvage_complete: (data: SalvageComplete) => void;
+  targeting_data_update: (data: TargetingDataUpdate) => void;
+  lrc_update: (data: { room: string; html: string }) => void;
+  lrc_request: (data: { room: string }) => void;
+  actuator_stream: (data: { room: string; imageData: string }) => void;
+  debug_room_request: (data: { room: string }) => void;
+
+  // GM session snapshots
+  save_snapshot: (data: { room: string; label?: string }) => void;
+  load_snapshot: (data: { room: string; id: string }) => void;
+  list_snapshots: (data: { room: string }) => void;
+}
+
+export interface ServerToClientEvents {
+  game_state_update: (state: GameState) => void;
+  users_update: (users: Record<string, User>) => void;
+  rooms_update: (rooms: RoomSummary[]) => void;
+  player_action_broadcast: (data: PlayerActionBroadcast) => void;
+  gm_broadcast: (data: GmBroadcast) => void;
+  comm_broadcast: (data: CommBroadcast) => void;
+  event_rejected: (data: EventRejected) => void;
+  action_rejected: (data: ActionRejected) => void;
+  ship_data_update: (data: ShipDataUpdate) => void;
+  vehicle_db: (vehicles: Vehicle[]) => void;
+  galaxy_db: (galaxy: Galaxy) => void;
+  skill_check_result: (data: SkillCheckResult) => void;
+  hostile_fire: (data: HostileFire) => void;
+
+  // Relayed station events
+  state_update: (data: StationStateReport) => void;
+  engineering_action: (data: EngineeringAction) => void;
+  engineering_performance: (data: EngineeringPerformance) => void;
+  weapon_fired: (data: WeaponFired) => void;
+  salvage_complete: (data: SalvageComplete) => void;
+  targeting_data_update: (data: TargetingDataUpdate) => void;
+  lrc_update: (data: { room: string; html: string }) => void;
+  lrc_request_from_weapons: (data: { room: string }) => void;
+  actuator_frame: (data: { room: string; imageData: string }) => void;
+  debug_room_response: (data: DebugRoomResponse) => void;
+
+  seat_assigned: (data: SeatAssignment) => void;
+  session_restore: (data: SessionRecords) => void;
+  snapshots_update: (data: SnapshotList) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ServerEventName = keyof ServerToClientEvents;
+
+export type ClientListener<E extends ClientEventName> = (...args: Parameters<ClientToServerEvents[E]>) => void;
+export type ServerListener<E extends ServerEventName> = (...args: Parameters<ServerToClientEvents[E]>) => void;
+
+/* ---------- SOCKETS & HELPERS ---------- */
+
+export interface SocketData {
+  room?: string;
+  station?: StationName;
+}
+
+export type ClientSocket = ClientSocketBase<ServerToClientEvents, ClientToServerEvents>;
+export type ServerSocket = ServerSocketBase<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type BridgeServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type ServerTarget = BridgeServer | ServerSocket | BroadcastOperator<ServerToClientEvents, SocketData>;
+
+// Station -> server
+export const emitToServer = <E extends ClientEventName>(
+  socket: ClientSocket | null | undefined,
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+) => {
+  socket?.emit(event, ...args);
+};
+
+export const onServerEvent = <E extends ServerEventName>(
+  socket: ClientSocket,
+  event: E,
+  listener: ServerListener<E>
+) => {
+  socket.on(event, listener as any);
+  return () => {
+    socket.off(event, listener as any);
+  };
+};
+
+// Server -> stations (everyone, a socket or a room broadcast)
+export const emitToClients = <E extends ServerEventName>(
+  target: ServerTarget,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+) => {
+  target.emit(event, ...args);
+};
+
+export const onClientEvent = <E extends ClientEventName>(
+  socket: ServerSocket,
+  event: E,
+  listener: ClientListener<E>
+) => {
+  socket.on(event, listener as any);
+};
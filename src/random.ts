@@ -0,0 +1,82 @@
+// Seeded random numbers.
+// Each room has a seed, and each subsystem draws from its own named stream
+// derived from it. Extra rolls in combat therefore never shift the traffic
+// sequence. A stream's state is a plain number that is saved with the room,
+// so loading a snapshot replays the same arrivals, spawns and checks. Consoles
+// roll cosmetic events from a seed of their own (consoleSeed), never the
+// server's sequences.
+
+export type RandomStreamName = 'traffic' | 'combat' | 'malfunctions' | 'comms' | 'checks' | 'flight';
+
+export interface RandomState {
+  seed: number;
+  // Generator state per stream, created on first use
+  streams: Partial<Record<RandomStreamName, number>>;
+}
+
+export interface Random {
+  // Uniform in [0, 1)
+  next(): number;
+  // Uniform in [min, max)
+  range(min: number, max: number): number;
+  // Integer in [min, max], both inclusive
+  int(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  // Short base-36 tag for ids
+  tag(): string;
+}
+
+// The only unseeded call: picking a seed for a brand new room
+export function newSeed() {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// Mix the room seed with the stream name so streams are independent
+function streamSeed(seed: number, name: string) {
+  let h = (seed ^ 0x811c9dc5) >>> 0;
+  for (let i = 0; i < name.length; i++) {
+    h = Math.imul(h ^ name.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b) >>> 0;
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35) >>> 0;
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// mulberry32: small, fast and plenty for game dice
+function makeRandom(read: () => number, write: (state: number) => void): Random {
+  const next = () => {
+    const state = (read() + 0x6d2b79f5) >>> 0;
+    write(state);
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    tag: () => Math.floor(next() * 0x100000000).toString(36)
+  };
+}
+
+// A console's seed: the room seed mixed with its station and a salt picked once
+// per page load, so a reload or a second seat never replays earlier rolls
+export function consoleSeed(roomSeed: number, station: string, session: number) {
+  return streamSeed(streamSeed(roomSeed, station), session.toString(36));
+}
+
+export function createRandomState(seed = newSeed()): RandomState {
+  return { seed: seed >>> 0, streams: {} };
+}
+
+// A stream that reads and advances its state inside `state`
+export function randomStream(state: RandomState, name: RandomStreamName): Random {
+  return makeRandom(
+    () => state.streams[name] ?? streamSeed(state.seed, name),
+    (next) => { state.streams[name] = next; }
+  );
+}
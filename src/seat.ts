@@ -0,0 +1,43 @@
+// Station seats.
+// Each browser keeps a token per station so a tab that drops (or reloads) can
+// reclaim its seat and name instead of joining as a stranger.
+
+import type { StationName } from './types';
+import { emitToServer, type ClientSocket, type JoinRequest } from './protocol';
+
+const TOKEN_KEY_PREFIX = 'bridge-seat-token:';
+
+// Used when storage is blocked; the seat then only survives socket reconnects
+const memoryTokens: Partial<Record<StationName, string>> = {};
+
+export function getSeatToken(station: StationName) {
+  const key = TOKEN_KEY_PREFIX + station;
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) return stored;
+  } catch {
+    // fall through to the in-memory token
+  }
+
+  const token = memoryTokens[station] || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+  memoryTokens[station] = token;
+  try {
+    localStorage.setItem(key, token);
+  } catch {
+    // storage unavailable
+  }
+  return token;
+}
+
+// Join now (or once connected) and again after every reconnect
+export function joinSeat(socket: ClientSocket, request: JoinRequest) {
+  const join = () => {
+    emitToServer(socket, 'join', { ...request, token: getSeatToken(request.station) });
+  };
+
+  if (socket.connected) join();
+  socket.on('connect', join);
+  return () => {
+    socket.off('connect', join);
+  };
+}
@@ -0,0 +1,70 @@
+// Local-space geometry shared by the server and the consoles.
+// The crew's ship, combat contacts and sensor traffic sit on one flat plane
+// measured in km, laid out like the Weapons radar: x runs to the right of the
+// scope and y towards its bottom, so a radar bearing is measured clockwise
+// from the right and the bow on heading 0 points up the scope (bearing 270).
+// Headings turn clockwise the same way for every ship. One radar range unit
+// is KM_PER_RANGE km, so the scope's 0-100 covers 10,000 km.
+
+import type { RangeBand, SpaceVector } from './types';
+
+export const KM_PER_RANGE = 100;
+export const KMS_PER_SPEED = 2; // km/s per point of sublight speed
+export const BOW_BEARING = 270; // radar bearing of the bow on heading 0
+
+// Outer radar range of each range band around the crew's ship
+export const RANGE_BAND_LIMITS: Record<RangeBand, number> = {
+  Close: 5,
+  Short: 15,
+  Medium: 35,
+  Long: 65,
+  Extreme: 100
+};
+
+const wrapDeg = (d: number) => ((d % 360) + 360) % 360;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function polar(bearing: number, km: number): SpaceVector {
+  return { x: Math.cos(toRad(bearing)) * km, y: Math.sin(toRad(bearing)) * km };
+}
+
+export function distanceBetween(from: SpaceVector, to: SpaceVector) {
+  return Math.hypot(to.x - from.x, to.y - from.y);
+}
+
+// Radar bearing from one point to another
+export function bearingBetween(from: SpaceVector, to: SpaceVector) {
+  return wrapDeg((Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI);
+}
+
+// Radar range (0-100 across the scope) from one point to another
+export function rangeBetween(from: SpaceVector, to: SpaceVector) {
+  return distanceBetween(from, to) / KM_PER_RANGE;
+}
+
+// A bearing as seen from the bow: 0 dead ahead, 90 to starboard
+export function relativeBearing(bearing: number, heading: number) {
+  return wrapDeg(bearing - BOW_BEARING - heading);
+}
+
+// The heading that points a ship along a radar bearing
+export function headingAlong(bearing: number) {
+  return wrapDeg(bearing - BOW_BEARING);
+}
+
+// Velocity in km/s for a heading and a sublight speed
+export function velocityFor(heading: number, speed: number): SpaceVector {
+  return polar(wrapDeg(BOW_BEARING + heading), speed * KMS_PER_SPEED);
+}
+
+// The point at a radar bearing and range from an origin
+export function pointOnScope(origin: SpaceVector, bearing: number, range: number): SpaceVector {
+  const offset = polar(bearing, range * KM_PER_RANGE);
+  return { x: origin.x + offset.x, y: origin.y + offset.y };
+}
+
+// The range band a radar range falls in; past the scope still counts as Extreme
+export function rangeBandAt(range: number): RangeBand {
+  const bands = Object.keys(RANGE_BAND_LIMITS) as RangeBand[];
+  return bands.find(band => range <= RANGE_BAND_LIMITS[band]) ?? 'Extreme';
+}
@@ -1,15 +1,37 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Socket } from 'socket.io-client';
-import { GameState } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { emitToServer, onServerEvent, type PlayerActionHandler } from '../protocol';
+import { useBridge, useRandomStream } from '../context/BridgeContext';
+import { GameState, RangeBand } from '../types';
+import { criticalsWith, lostBandAt } from '../criticals';
 import { shipStore, Ship } from '../stores/shipStore';
+import { bearingBetween, distanceBetween } from '../space';
 
 interface CommunicationsStationProps {
   gameState: GameState;
-  onPlayerAction: (action: string, value: any) => void;
-  socket: Socket | null;
+  onPlayerAction: PlayerActionHandler;
 }
 
-const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState, onPlayerAction, socket }) => {
+// Farthest contact handed to weapons (meters) for each sensor range band
+const SENSOR_REACH: Record<RangeBand, number> = {
+  Close: 2000,
+  Short: 8000,
+  Medium: 16000,
+  Long: 32000,
+  Extreme: 64000
+};
+
+const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState, onPlayerAction }) => {
+  const { socket, room, vehicles, playerShip } = useBridge();
+  // The crew's own sensors set how far out contacts can be plotted
+  const sensorReach = SENSOR_REACH[playerShip?.sensorRange ?? 'Short'];
+  // Sensor traffic ranges are measured from the crew's ship in local space
+  const ownPosition = gameState?.pilot?.position;
+  const ownVelocity = gameState?.pilot?.velocity;
+  const ownShip = useMemo(() => ({
+    position: ownPosition ?? { x: 0, y: 0 },
+    velocity: ownVelocity ?? { x: 0, y: 0 }
+  }), [ownPosition, ownVelocity]);
+  const comms = useRandomStream('comms');
   const [messageText, setMessageText] = useState('');
   const [recipient, setRecipient] = useState('All Stations');
   const [messagePriority, setMessagePriority] = useState<'low' | 'normal' | 'high' | 'emergency'>('normal');
@@ -49,7 +71,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
 
   // LRC streaming ref
   const lrcRef = useRef<HTMLDivElement | null>(null);
-  const roomRef = useRef<string>('default');
+  const roomRef = useRef<string>(room);
 
   useEffect(() => {
     isAnalysingRef.current = isAnalysing;
@@ -57,9 +79,12 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
 
   // Function to convert ships to targeting data and emit to weapons station
   const emitTargetingData = useCallback((currentShips: Ship[]) => {
-    // Get top 5 ships (prioritize pinned ships, then by age/activity)
+    // Get top 5 ships: pinned ships first, then the nearest within sensor reach
+    const range = (ship: Ship) => distanceBetween(ownShip.position, ship.position);
     const pinned = currentShips.filter(s => pinnedShips[s.id]);
-    const unpinned = currentShips.filter(s => !pinnedShips[s.id]);
+    const unpinned = currentShips
+      .filter(s => !pinnedShips[s.id] && range(s) <= sensorReach)
+      .sort((a, b) => range(a) - range(b));
     const sortedShips = [...pinned, ...unpinned].slice(0, 5);
 
     // Get double-pinned ship details if exists
@@ -67,7 +92,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
       currentShips.find(s => s.id === doublePinnedShipId) : null;
 
     // Convert ships to targeting data
-    const targetingData = sortedShips.map((ship, index) => {
+    const targetingData = sortedShips.map(ship => {
       // Determine faction based on ship characteristics
       const faction = pinnedShips[ship.id] === 'red' ? 'hostile' :
         pinnedShips[ship.id] === 'white' ? 'friendly' :
@@ -78,46 +103,41 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
         ship.status === 'Active' && ship.designation ? 'medium' :
           ship.status === 'Active' ? 'high' : 'low';
 
-      // Determine size based on designation or type
-      const size = ship.designation?.toLowerCase().includes('destroyer') ||
-        ship.designation?.toLowerCase().includes('cruiser') ? 'capital' :
-        ship.designation?.toLowerCase().includes('frigate') ||
-          ship.designation?.toLowerCase().includes('corvette') ? 'large' :
-          ship.designation?.toLowerCase().includes('fighter') ||
-            ship.designation?.toLowerCase().includes('interceptor') ? 'small' : 'medium';
+      // Size class from the hull's silhouette in the vehicle database
+      const vehicle = vehicles.find(v => v.id === ship.vehicle);
+      const silhouette = vehicle?.silhouette ?? 4;
+      const size = silhouette >= 6 ? 'capital' :
+        silhouette === 5 ? 'large' :
+          silhouette === 4 ? 'medium' : 'small';
 
-      // Generate realistic position data (spread around the area)
-      const angle = (index * 72 + Math.random() * 30) * (Math.PI / 180); // Spread evenly with some randomness
-      const distance = 1000 + Math.random() * 7000; // 1-8km range
-      const bearing = (angle * 180 / Math.PI) % 360;
+      // Position (km) and velocity (km/s) relative to the crew's ship in local space
+      const distance = range(ship);
+      const bearing = bearingBetween(ownShip.position, ship.position);
 
       return {
         id: ship.id,
         type: 'ship' as const,
         position: {
-          x: Math.cos(angle) * distance,
-          y: Math.sin(angle) * distance,
-          z: (Math.random() - 0.5) * 200
+          x: ship.position.x - ownShip.position.x,
+          y: ship.position.y - ownShip.position.y,
+          z: 0
         },
         velocity: {
-          x: (Math.random() - 0.5) * 50,
-          y: (Math.random() - 0.5) * 50,
-          z: (Math.random() - 0.5) * 10
+          x: ship.velocity.x - ownShip.velocity.x,
+          y: ship.velocity.y - ownShip.velocity.y,
+          z: 0
         },
         size,
         threat,
-        shields: ship.status === 'Active' ? Math.floor(Math.random() * 100) : 0,
-        hull: ship.status === 'Active' ? Math.floor(Math.random() * 100) : Math.floor(Math.random() * 50),
+        shields: ship.status === 'Active' ? Math.floor(comms.next() * 100) : 0,
+        hull: ship.status === 'Active' ? Math.floor(comms.next() * 100) : Math.floor(comms.next() * 50),
         distance: Math.floor(distance),
         bearing: Math.floor(bearing),
-        signature: Math.floor(Math.random() * 100),
+        signature: Math.floor(comms.next() * 100),
         classification: ship.designation || `UNKNOWN-${ship.id.split('-')[0].toUpperCase()}`,
         faction,
-        shipClass: ship.designation || 'Unknown Class',
-        weaponSystems: size === 'capital' ? Math.floor(Math.random() * 20) + 10 :
-          size === 'large' ? Math.floor(Math.random() * 10) + 5 :
-            size === 'medium' ? Math.floor(Math.random() * 5) + 2 :
-              Math.floor(Math.random() * 3) + 1,
+        shipClass: vehicle?.name || 'Unknown Class',
+        weaponSystems: vehicle ? vehicle.weapons.reduce((total, mount) => total + (mount.count ?? 1), 0) : 0,
         shieldStrength: ship.status === 'Active' ?
           (size === 'capital' ? 'heavy' :
             size === 'large' ? 'medium' :
@@ -128,8 +148,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
 
     // Emit to weapons station with double-pinned ship data
     if (socket) {
-      const room = new URLSearchParams(window.location.search).get('room') || 'default';
-      socket.emit('targeting_data_update', {
+      emitToServer(socket, 'targeting_data_update', {
         room,
         targets: targetingData,
         source: 'communications',
@@ -148,7 +167,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
         targetingData
       });
     }
-  }, [socket, pinnedShips, doublePinnedShipId]);
+  }, [socket, pinnedShips, doublePinnedShipId, vehicles, sensorReach, ownShip]);
 
   // Scan animation effect
   useEffect(() => {
@@ -221,15 +240,22 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
     };
   }, [emergencyBeaconActive]);
 
+  // A Comms Band Burnout critical leaves part of the dial dead until it is repaired
+  const lostBands = criticalsWith(gameState?.engineering?.criticals, 'comms_band_lost');
+
+  // Comms power bounds the signal: a floor it never drops below and a ceiling it cannot pass
+  const signalFloor = gameState?.powerEffects?.communications.signalFloor ?? 0;
+  const signalCeiling = gameState?.powerEffects?.communications.signalCeiling ?? 100;
+
   // Signal strength and interference fluctuation effect
   useEffect(() => {
     const fluctuationInterval = setInterval(() => {
       // Signal strength fluctuation (±1.5 points around base value)
-      const signalChange = (Math.random() - 0.5) * 3;
-      const newSignalStrength = Math.max(0, Math.min(100, baseSignalStrength + signalChange));
+      const signalChange = (comms.next() - 0.5) * 3;
+      const newSignalStrength = Math.max(signalFloor, Math.min(signalCeiling, baseSignalStrength + signalChange));
 
       // Interference fluctuation (±1 point around base value)
-      const interferenceChange = (Math.random() - 0.5) * 2;
+      const interferenceChange = (comms.next() - 0.5) * 2;
       const newInterference = Math.max(0, Math.min(100, baseInterference + interferenceChange));
 
       setCurrentSignalStrength(Math.round(newSignalStrength));
@@ -239,7 +265,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
     return () => {
       clearInterval(fluctuationInterval);
     };
-  }, [baseSignalStrength, baseInterference]);
+  }, [baseSignalStrength, baseInterference, signalFloor, signalCeiling]);
 
   // Moff names array (sample from the 1024 lines in moff_names_with_numbers.txt)
   const moffNamesArray = [
@@ -277,7 +303,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
 
   // Function to get random moff name
   const getRandomSectorInfo = () => {
-    const randomIndex = Math.floor(Math.random() * moffNamesArray.length);
+    const randomIndex = Math.floor(comms.next() * moffNamesArray.length);
     return moffNamesArray[randomIndex];
   };
 
@@ -295,13 +321,12 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
     { id: 'filter', name: 'Noise Filter', description: 'Remove background noise', effect: 'noise_reduction' }
   ];
 
-  // Initialize ship store with socket
+  // Initialize ship store with socket; release it when leaving the station
   useEffect(() => {
-    if (socket) {
-      const room = new URLSearchParams(window.location.search).get('room') || 'default';
-      shipStore.setSocket(socket, room);
-    }
-  }, [socket]);
+    if (!socket) return;
+    shipStore.setSocket(socket, room);
+    return () => shipStore.setSocket(null, room);
+  }, [socket, room]);
 
   // Subscribe to ship store updates
   useEffect(() => {
@@ -322,15 +347,11 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
 
     console.log('🔌 Communications Station using shared socket connection');
 
-    // Get room from URL parameter
-    const room = new URLSearchParams(window.location.search).get('room') || 'default';
+    // The seat itself is taken by the BridgeProvider
     roomRef.current = room;
 
-    // Join the room for proper message routing
-    socket.emit('join', { room, station: 'communications' });
-
     // Listen for GM broadcasts
-    socket.on('gm_broadcast', (data: { type: string; value: any; room: string; source: string }) => {
+    const stopGmBroadcasts = onServerEvent(socket, 'gm_broadcast', (data) => {
       console.log('🔊 Communications Station received GM broadcast:', data);
 
       switch (data.type) {
@@ -381,8 +402,13 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
       }
     });
 
+    // Reload the room's comms log on join or when the GM loads a snapshot
+    const stopRestore = onServerEvent(socket, 'session_restore', (records) => {
+      setMessageQueue(records.messages.filter(message => message.id !== initialImperialMessage.id));
+    });
+
     // Listen for frequency changes from OTHER stations only (not from self or GM)
-    socket.on('comm_broadcast', (data: { type: string; value: number; room: string; source: string; }) => {
+    const stopCommBroadcasts = onServerEvent(socket, 'comm_broadcast', (data) => {
       if (data.type === 'frequency_update' && data.source !== 'gm' && data.source !== 'communications') {
         console.log('📻 External frequency update:', data.value, 'from:', data.source);
         setCurrentFrequency(data.value);
@@ -391,26 +417,24 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
     });
 
     // Add error handling for socket events
-    socket.on('error', (error: any) => {
-      console.error('🚨 Communications Station socket error:', error);
-    });
-
-    socket.on('connect_error', (error: any) => {
+    const onConnectError = (error: any) => {
       console.error('🚨 Communications Station connection error:', error);
-    });
-
-    socket.on('disconnect', (reason: string) => {
+    };
+    const onDisconnect = (reason: string) => {
       console.warn('⚠️ Communications Station disconnected:', reason);
-    });
+    };
+    socket.on('connect_error', onConnectError);
+    socket.on('disconnect', onDisconnect);
 
+    // The socket is shared with the other stations, so only remove this station's listeners
     return () => {
-      socket.off('gm_broadcast');
-      socket.off('comm_broadcast');
-      socket.off('error');
-      socket.off('connect_error');
-      socket.off('disconnect');
+      stopGmBroadcasts();
+      stopCommBroadcasts();
+      stopRestore();
+      socket.off('connect_error', onConnectError);
+      socket.off('disconnect', onDisconnect);
     };
-  }, [socket, onPlayerAction]);
+  }, [socket, room, onPlayerAction]);
 
   // LRC streaming: watch the LRC DOM and push HTML
   useEffect(() => {
@@ -418,7 +442,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
 
     const send = () => {
       const html = lrcRef.current!.innerHTML;
-      socket.emit('lrc_update', { room: roomRef.current, html });
+      emitToServer(socket, 'lrc_update', { room: roomRef.current, html });
       console.log('📡 Communications Station sent LRC update, HTML length:', html.length);
     };
 
@@ -434,11 +458,11 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
       console.log('📡 Communications Station received LRC snapshot request');
       send();
     };
-    socket.on('lrc_request_from_weapons', onReq);
+    const offRequest = onServerEvent(socket, 'lrc_request_from_weapons', onReq);
 
     return () => {
       obs.disconnect();
-      socket.off('lrc_request_from_weapons', onReq);
+      offRequest();
     };
   }, [socket]);
 
@@ -471,11 +495,10 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
   // Send initial mock messages to GM when socket connects (only once)
   useEffect(() => {
     if (socket && !initialMessagesSent) {
-      const room = new URLSearchParams(window.location.search).get('room') || 'default';
 
       // Send all existing mock messages to GM when first connecting
       mockComms.messageQueue.forEach(message => {
-        socket.emit('gm_broadcast', {
+        emitToServer(socket, 'gm_broadcast', {
           type: 'new_message',
           value: message,
           room,
@@ -487,11 +510,6 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
     }
   }, [socket, initialMessagesSent, mockComms.messageQueue]);
 
-  // Update ship store region when currentRegion changes
-  useEffect(() => {
-    shipStore.setCurrentRegion(currentRegion);
-  }, [currentRegion]);
-
   // Emit targeting data whenever ships or pinned ships change
   useEffect(() => {
     if (ships.length > 0 && socket) {
@@ -499,26 +517,9 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
     }
   }, [ships, pinnedShips, doublePinnedShipId, socket]);
 
-  // Broadcast ship data to weapons station whenever ships change
-  useEffect(() => {
-    if (socket) {
-      const room = new URLSearchParams(window.location.search).get('room') || 'default';
-      socket.emit('ship_data_update', {
-        room,
-        ships,
-        pinnedShips,
-        doublePinnedShipId,
-        currentRegion,
-        source: 'communications',
-        timestamp: Date.now()
-      });
-    }
-  }, [ships, pinnedShips, doublePinnedShipId, currentRegion, socket]);
-
   // Broadcast initial protocol when component mounts
   useEffect(() => {
-    const room = new URLSearchParams(window.location.search).get('room') || 'default';
-    socket?.emit('gm_broadcast', {
+    emitToServer(socket, 'gm_broadcast', {
       type: 'composer_protocol_change',
       value: recipient,
       room,
@@ -710,8 +711,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
             onPlayerAction('toggle_emergency_beacon', newBeaconState);
 
             // Broadcast beacon state to GM station
-            const room = new URLSearchParams(window.location.search).get('room') || 'default';
-            socket?.emit('gm_broadcast', {
+            emitToServer(socket, 'gm_broadcast', {
               type: 'emergency_beacon_update',
               value: newBeaconState,
               room,
@@ -739,8 +739,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
             value={recipient}
             onChange={(e) => {
               setRecipient(e.target.value);
-              const room = new URLSearchParams(window.location.search).get('room') || 'default';
-              socket?.emit('gm_broadcast', {
+              emitToServer(socket, 'gm_broadcast', {
                 type: 'composer_protocol_change',
                 value: e.target.value,
                 room,
@@ -799,7 +798,6 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
               }}
               onClick={() => {
                 if (!messageText.trim()) return;
-                const room = new URLSearchParams(window.location.search).get('room') || 'default';
                 const msg = {
                   id: Date.now().toString(),
                   from: 'Communications',
@@ -818,7 +816,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
                 };
 
                 // 1) broadcast to GM with analysis mode
-                socket?.emit('gm_broadcast', {
+                emitToServer(socket, 'gm_broadcast', {
                   type: 'new_message',
                   value: gmMsg,
                   room,
@@ -937,10 +935,10 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
               value={currentFrequency}
               onChange={(e) => {
                 const newFreq = parseFloat(e.target.value);
+                if (lostBandAt(lostBands, newFreq)) return;
                 setCurrentFrequency(newFreq);
                 // Single update path: broadcast to other stations (GM will receive this)
-                const room = new URLSearchParams(window.location.search).get('room') || 'default';
-                socket?.emit('comm_broadcast', {
+                emitToServer(socket, 'comm_broadcast', {
                   type: 'frequency_update',
                   value: newFreq,
                   room: room,
@@ -960,6 +958,12 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
               }}
             />
 
+            {lostBands.map(critical => critical.band && (
+              <div key={critical.id} style={{ marginTop: '6px', fontSize: '10px', color: '#ff4444' }}>
+                ⚠️ {critical.band.min}-{critical.band.max} MHz LOST ({critical.name})
+              </div>
+            ))}
+
             <div style={{
               display: 'flex',
               justifyContent: 'space-between',
@@ -993,18 +997,19 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
             ].map(channel => (
               <button
                 key={channel.name}
+                disabled={!!lostBandAt(lostBands, channel.freq)}
                 style={{
                   ...buttonStyle,
                   borderColor: channel.color,
                   color: channel.color,
                   fontSize: '9px',
-                  padding: '6px 8px'
+                  padding: '6px 8px',
+                  opacity: lostBandAt(lostBands, channel.freq) ? 0.3 : 1
                 }}
                 onClick={() => {
-                  const room = new URLSearchParams(window.location.search).get('room') || 'default';
                   setCurrentFrequency(channel.freq);
                   // Single update path: broadcast to other stations (GM will receive this)
-                  socket?.emit('comm_broadcast', {
+                  emitToServer(socket, 'comm_broadcast', {
                     type: 'frequency_update',
                     value: channel.freq,
                     room: room,
@@ -1103,66 +1108,16 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
                 onContextMenu={(e) => {
                   e.preventDefault();
 
-                  const currentPinned = shipStore.getPinnedShips();
-                  const currentState = currentPinned[ship.id] || 'none';
-                  const newPinned = { ...currentPinned };
-                  const room = new URLSearchParams(window.location.search).get('room') || 'default';
-
-                  // If currently white, make it red (if no other red exists)
+                  // Cycle none -> white -> red -> none; the server shares the pins with every station
+                  const currentState = pinnedShips[ship.id] || 'none';
                   if (currentState === 'white') {
-                    // If there's a red ship, unpin it first
-                    if (doublePinnedShipId) {
-                      delete newPinned[doublePinnedShipId];
-                    }
-                    // Make this ship red
-                    newPinned[ship.id] = 'red';
-                    shipStore.setDoublePinnedShipId(ship.id);
-
-                    // Notify GM about the red-pinned ship
-                    socket?.emit('gm_broadcast', {
-                      type: 'red_pinned_ship',
-                      value: {
-                        id: ship.id,
-                        designation: ship.designation,
-                        status: ship.status
-                      },
-                      room,
-                      source: 'communications'
-                    });
-
-                    shipStore.setPinnedShips(newPinned);
-                  }
-                  // If currently red, unpin it
-                  else if (currentState === 'red') {
-                    delete newPinned[ship.id];
-                    if (doublePinnedShipId === ship.id) {
-                      shipStore.setDoublePinnedShipId(null);
-                      // Notify GM that the red pin was removed
-                      socket?.emit('gm_broadcast', {
-                        type: 'red_pinned_ship',
-                        value: null,
-                        room,
-                        source: 'communications'
-                      });
-                    }
-                    shipStore.setPinnedShips(newPinned);
-                  }
-                  // If not pinned, make it white
-                  else {
-                    // If there's a red ship, unpin it first
-                    if (doublePinnedShipId) {
-                      delete newPinned[doublePinnedShipId];
-                      shipStore.setDoublePinnedShipId(null);
-                      // Notify GM that the red pin was removed
-                      socket?.emit('gm_broadcast', {
-                        type: 'red_pinned_ship',
-                        value: null,
-                        room,
-                        source: 'communications'
-                      });
-                    }
-                    newPinned[ship.id] = 'white';
-                    shipStore.setPinnedShips(newPinned);
+                    shipStore.doublePinShip(ship.id);
+                  } else if (currentState === 'red') {
+                    shipStore.pinShip(ship.id, false);
+                  } else {
+                    // A new white pin also drops the red one
+                    if (doublePinnedShipId) shipStore.doublePinShip(null);
+                    shipStore.pinShip(ship.id, true);
                   }
                 }}
               >
@@ -1227,8 +1182,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
           onChange={(e) => {
             setCurrentAnalysis(e.target.value);
             // Broadcast analysis mode change to GM
-            const room = new URLSearchParams(window.location.search).get('room') || 'default';
-            socket?.emit('comm_broadcast', {
+            emitToServer(socket, 'comm_broadcast', {
               type: 'analysis_mode_update',
               value: e.target.value,
               room,
@@ -1283,8 +1237,7 @@ const CommunicationsStation: React.FC<CommunicationsStationProps> = ({ gameState
               if (!isScanning && !isAnalysing) {
                 setIsScanning(true);
                 // Broadcast scan start to GM station
-                const room = new URLSearchParams(window.location.search).get('room') || 'default';
-                socket?.emit('gm_broadcast', {
+                emitToServer(socket, 'gm_broadcast', {
                   type: 'scan_started',
                   value: {
                     analysisMode: currentAnalysis,
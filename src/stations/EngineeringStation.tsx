@@ -1,6 +1,34 @@
-import React, { useState, useEffect } from 'react';
-import { Socket } from 'socket.io-client';
-import { GameState, RepairTask, SystemBoost, SystemStatus } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    emitToServer,
+    onServerEvent,
+    type ClientEventName,
+    type ClientToServerEvents,
+    type PlayerActionHandler,
+    type StationStateReport
+} from '../protocol';
+import { useBridge, useRandomStream } from '../context/BridgeContext';
+import { systemDiceBonuses } from '../dice';
+import { effectivePower } from '../power';
+import { GameState, PowerEffects, PowerSystem, RepairTask, SystemBoost, SystemStatus } from '../types';
+
+// What a system's power is doing at the other stations, from the server's power effects
+const describePowerEffect = (system: string, effects: PowerEffects): string => {
+    switch (system) {
+        case 'weapons':
+            return `Cooling ×${effects.weapons.heatDissipation.toFixed(2)} · Fire rate ×${effects.weapons.fireRate.toFixed(2)}`;
+        case 'shields':
+            return `Arc capacity ${effects.effectivePower.shields} · Recharge ×${effects.shields.regen.toFixed(2)}`;
+        case 'engines':
+            return `Top speed ${effects.engines.maxSpeed}% · Turn ×${effects.engines.turnRate.toFixed(2)}`;
+        case 'sensors':
+            return `Radar range ${effects.sensors.radarRange}`;
+        case 'communications':
+            return `Signal ${effects.communications.signalFloor}-${effects.communications.signalCeiling}%`;
+        default:
+            return `Delivering ${effects.effectivePower[system as PowerSystem] ?? 0} units`;
+    }
+};
 
 // Local interface for the complete engineering state
 interface EngineeringState {
@@ -31,11 +59,14 @@ interface EngineeringState {
 
 interface EngineeringStationProps {
     gameState: GameState;
-    onPlayerAction: (action: string, value: any) => void;
-    socket: Socket | null;
+    onPlayerAction: PlayerActionHandler;
 }
 
-const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPlayerAction, socket }) => {
+const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPlayerAction }) => {
+    const { socket, room, playerShip } = useBridge();
+    const shipProfile = playerShip?.profile;
+    const malfunctions = useRandomStream('malfunctions');
+
     // Add CSS animations for visual effects
     useEffect(() => {
         const style = document.createElement('style');
@@ -124,14 +155,17 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     // Power history tracking
     const [powerHistory, setPowerHistory] = useState<Array<{ timestamp: number; allocations: typeof engineeringState.powerDistribution.powerAllocations }>>([]);
 
-    // Droid management state
-    const [availableDroids, setAvailableDroids] = useState<number>(3);
+    // Droid management state; the ship profile sets the complement
+    const [availableDroids, setAvailableDroids] = useState<number>(0);
 
-    // Ship strain management state
-    const [shipStrain, setShipStrain] = useState<{ current: number; maximum: number }>({
-        current: 0,
-        maximum: 100
-    });
+    useEffect(() => {
+        if (shipProfile) setAvailableDroids(shipProfile.droids);
+    }, [shipProfile?.droids]);
+
+    // Ship strain and hull trauma are the server's, against the hull's thresholds
+    const shipStrain = { current: Math.round(gameState.ship?.systemStrain ?? 0), maximum: playerShip?.systemStrain ?? 0 };
+    const hullTrauma = { current: Math.round(gameState.ship?.hullTrauma ?? 0), maximum: playerShip?.hullTrauma ?? 0 };
+    const strainVentTimer = gameState.ship?.strainVentTimer ?? 0;
 
     // Software damage system state
     const [softwareDamageEvents, setSoftwareDamageEvents] = useState<Array<{
@@ -292,7 +326,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     const [engineeringState, setEngineeringState] = useState<EngineeringState>({
         powerDistribution: {
             totalPower: 600,
-            reactorOutput: 600, // This is now in absolute units (0-600)
+            reactorOutput: 600, // Absolute units, up to the ship profile's reactor capacity
             emergencyPower: false,
             powerAllocations: {
                 weapons: 100,
@@ -320,9 +354,12 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         },
     });
 
+    // Until the room's ship is known, the server's output is the best known capacity
+    const reactorCapacity = shipProfile?.reactorOutput ?? engineeringState.powerDistribution.reactorOutput;
+
     // Power calculation functions - now using units throughout
     const calculateTotalAvailablePower = (): number => {
-        // Reactor output is now stored as absolute units (0-600)
+        // Reactor output is stored as absolute units (0 to the reactor capacity)
         const basePower = engineeringState.powerDistribution.reactorOutput;
         const emergencyBonus = engineeringState.powerDistribution.emergencyPower ? 100 : 0;
         return basePower + emergencyBonus;
@@ -358,44 +395,20 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         return totalAllocated <= totalAvailable;
     };
 
-    // Helper function to calculate bonuses based on power level
-    const calculateBonusesForPowerLevel = (powerLevel: number) => {
-        const bonuses = [];
-        if (powerLevel >= 115) {
-            bonuses.push({ type: 'boost', name: 'Blue Boost Die', color: '#88ff88', description: 'Add 1 Boost Die to checks' });
-        }
-        if (powerLevel >= 130) {
-            bonuses.push({ type: 'ability', name: 'Green Die', color: '#44ff44', description: 'Add 1 Green Die to checks' });
-        }
-        if (powerLevel >= 150) {
-            bonuses.push({ type: 'upgrade', name: 'Upgrade Die', color: '#ffff44', description: 'Upgrade 1 Green Die to Yellow Die' });
-        }
-        return bonuses;
-    };
-
     // Power efficiency calculation based on system damage
     const calculatePowerEfficiency = (systemName: string, allocatedPower: number): number => {
-        const systemStatus = engineeringState.systemStatus[systemName];
-        const baseEfficiency = systemStatus?.efficiency || 100;
-
-        // Damaged systems are less power efficient
-        const damageEfficiencyPenalty = systemStatus?.damaged ? 0.8 : 1.0;
-        const criticalEfficiencyPenalty = systemStatus?.criticalDamage ? 0.5 : 1.0;
-
-        // Calculate effective power output
-        const effectivePower = allocatedPower * (baseEfficiency / 100) * damageEfficiencyPenalty * criticalEfficiencyPenalty;
-
-        return Math.round(effectivePower);
+        // Damaged systems are less power efficient; the server's power effects use the same formula
+        return Math.round(effectivePower(allocatedPower, engineeringState.systemStatus[systemName]));
     };
 
     // Software damage system functions
     const generateSoftwareDamageEvent = () => {
-        const template = softwareDamageEventTemplates[Math.floor(Math.random() * softwareDamageEventTemplates.length)];
-        const efficiencyReduction = template.efficiencyReductions[Math.floor(Math.random() * template.efficiencyReductions.length)];
-        const requiredScanLevel = template.requiredScanLevels[Math.floor(Math.random() * template.requiredScanLevels.length)];
+        const template = softwareDamageEventTemplates[Math.floor(malfunctions.next() * softwareDamageEventTemplates.length)];
+        const efficiencyReduction = template.efficiencyReductions[Math.floor(malfunctions.next() * template.efficiencyReductions.length)];
+        const requiredScanLevel = template.requiredScanLevels[Math.floor(malfunctions.next() * template.requiredScanLevels.length)];
         
         const event = {
-            id: `sw_dmg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            id: `sw_dmg_${Date.now()}_${malfunctions.tag()}`,
             systemName: template.systemName,
             eventType: template.eventType,
             description: template.description,
@@ -490,7 +503,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             setLastHourlyCheck(now);
             
             // 25% chance of software damage
-            if (Math.random() < 0.25) {
+            if (malfunctions.next() < 0.25) {
                 const damageEvent = generateSoftwareDamageEvent();
                 applySoftwareDamage(damageEvent);
             } else {
@@ -503,12 +516,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     const emitStateUpdate = (updatedState?: Partial<EngineeringState>) => {
         if (socket) {
             const currentState = updatedState || engineeringState;
-            const stateToEmit = {
+            const stateToEmit: StationStateReport = {
                 station: 'engineering',
                 state: {
                     powerDistribution: currentState.powerDistribution || engineeringState.powerDistribution,
-                    systemStatus: currentState.systemStatus || engineeringState.systemStatus,
-                    repairQueue: currentState.repairQueue || engineeringState.repairQueue,
                     activeBoosts: currentState.activeBoosts || engineeringState.activeBoosts,
                     emergencyProcedures: currentState.emergencyProcedures || engineeringState.emergencyProcedures
                 }
@@ -517,12 +528,31 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             console.log('🔧 Engineering Station: Emitting state_update to GM Station');
             console.log('🔧 Engineering Station: Power allocations being sent:', stateToEmit.state.powerDistribution?.powerAllocations);
             
-            socket.emit('state_update', stateToEmit);
+            emitToServer(socket, 'state_update', stateToEmit);
         } else {
             console.warn('🔧 Engineering Station: Cannot emit state update - no socket connection');
         }
     };
 
+    // The server owns system health and the repair queue and advances boosts;
+    // adopt its snapshot and report power and boost changes made at this console
+    const lastServerStateRef = useRef<string>('');
+
+    useEffect(() => {
+        if (!gameState.engineering) return;
+        const { repairTimer, ...serverState } = gameState.engineering;
+        const serialized = JSON.stringify(serverState);
+        if (serialized === lastServerStateRef.current) return;
+        lastServerStateRef.current = serialized;
+        setEngineeringState(serverState);
+    }, [gameState.engineering]);
+
+    useEffect(() => {
+        if (!lastServerStateRef.current) return;
+        if (JSON.stringify(engineeringState) === lastServerStateRef.current) return;
+        emitStateUpdate(engineeringState);
+    }, [engineeringState]);
+
     // System health tracking functions
     const classifyDamageSeverity = (health: number): 'none' | 'minor' | 'major' | 'critical' => {
         if (health >= 80) return 'none';
@@ -566,7 +596,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
                 // Systems gradually accumulate strain from use
                 if (system.strain < 100) {
-                    const strainIncrease = Math.random() * 0.5; // Random strain accumulation
+                    const strainIncrease = malfunctions.next() * 0.5; // Random strain accumulation
                     updatedSystemStatus[systemName] = {
                         ...system,
                         strain: Math.min(100, system.strain + strainIncrease)
@@ -583,8 +613,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 }
 
                 // Critical strain can cause health damage
-                if (system.strain > 90 && Math.random() < 0.01) {
-                    const healthLoss = Math.random() * 2;
+                if (system.strain > 90 && malfunctions.next() < 0.01) {
+                    const healthLoss = malfunctions.next() * 2;
                     const newHealth = Math.max(0, system.health - healthLoss);
                     const severity = classifyDamageSeverity(newHealth);
 
@@ -619,32 +649,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         return 'none';
     };
 
-    // Repair queue management functions
-    const generateRepairTaskId = (): string => {
-        return `repair_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    };
-
-    const calculateRepairDifficulty = (systemName: string, damageType: 'minor' | 'major' | 'critical'): number => {
-        const baseDifficulty = {
-            minor: 2,
-            major: 3,
-            critical: 4
-        };
-
-        // Some systems are inherently more complex to repair
-        const systemComplexity = {
-            weapons: 1.2,
-            shields: 1.1,
-            engines: 1.3,
-            sensors: 1.0,
-            lifeSupport: 1.4,
-            communications: 0.9
-        };
-
-        const complexity = systemComplexity[systemName as keyof typeof systemComplexity] || 1.0;
-        return Math.round(baseDifficulty[damageType] * complexity);
-    };
-
+    // Repair queue management functions. The server owns the queue; the
+    // console asks for repairs and shows what comes back.
     const calculateRepairTime = (damageType: 'minor' | 'major' | 'critical', assignedDroids: number): number => {
         const baseTime = {
             minor: 30,    // 30 seconds
@@ -657,22 +663,6 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         return Math.round(baseTime[damageType] / droidEfficiency);
     };
 
-    const createRepairTask = (systemName: string, damageType: 'minor' | 'major' | 'critical', assignedDroids: number = 1): RepairTask => {
-        const difficulty = calculateRepairDifficulty(systemName, damageType);
-        const timeRequired = calculateRepairTime(damageType, assignedDroids);
-
-        return {
-            id: generateRepairTaskId(),
-            systemName,
-            damageType,
-            difficulty,
-            timeRequired,
-            progress: 0,
-            assignedCrew: assignedDroids,
-            juryRigged: false
-        };
-    };
-
     const addRepairTask = (systemName: string, damageType: 'minor' | 'major' | 'critical', assignedDroids: number = 1) => {
         // Check if there's already a repair task for this system
         const existingTask = engineeringState.repairQueue.find(task => task.systemName === systemName);
@@ -681,53 +671,19 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             return;
         }
 
-        const newTask = createRepairTask(systemName, damageType, assignedDroids);
-
-        setEngineeringState(prev => ({
-            ...prev,
-            repairQueue: [...prev.repairQueue, newTask].sort((a, b) => {
-                // Sort by priority: critical > major > minor
-                const priorityOrder = { critical: 3, major: 2, minor: 1 };
-                return priorityOrder[b.damageType] - priorityOrder[a.damageType];
-            })
-        }));
-
-        // Emit repair task creation
-        if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
-                type: 'repair_task_created',
-                task: newTask
-            });
-        }
+        onPlayerAction('queue_repair', { system: systemName as PowerSystem, damageType, droids: assignedDroids });
 
         console.log(`🔧 Repair task created for ${systemName}: ${damageType} damage (${assignedDroids} droids assigned)`);
     };
 
     const updateRepairTaskDroids = (taskId: string, newDroidCount: number) => {
-        setEngineeringState(prev => ({
-            ...prev,
-            repairQueue: prev.repairQueue.map(task => {
-                if (task.id === taskId) {
-                    const updatedTimeRequired = calculateRepairTime(task.damageType, newDroidCount);
-                    return {
-                        ...task,
-                        assignedCrew: newDroidCount,
-                        timeRequired: updatedTimeRequired
-                    };
-                }
-                return task;
-            })
-        }));
+        onPlayerAction('assign_repair_droids', { id: taskId, droids: newDroidCount });
 
         console.log(`🤖 Repair task ${taskId} droids updated to ${newDroidCount}`);
     };
 
     const removeRepairTask = (taskId: string) => {
-        setEngineeringState(prev => ({
-            ...prev,
-            repairQueue: prev.repairQueue.filter(task => task.id !== taskId)
-        }));
+        onPlayerAction('cancel_repair', { id: taskId });
 
         console.log(`🗑️ Repair task ${taskId} removed from queue`);
     };
@@ -777,7 +733,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     // Repair mechanics implementation
     const performSkillCheck = (difficulty: number): { success: boolean; quality: 'failure' | 'success' | 'advantage' | 'triumph' } => {
         // Simulate Edge of the Empire dice mechanics
-        const roll = Math.random();
+        const roll = malfunctions.next();
         const skillBonus = 0.1; // Base skill level bonus
         const adjustedRoll = roll + skillBonus;
 
@@ -888,8 +844,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit repair completion
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'repair_completed',
                 system: systemName,
                 quality: quality,
@@ -934,24 +890,9 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         });
     };
 
-    // Repair progress simulation (runs periodically)
-    useEffect(() => {
-        const repairInterval = setInterval(() => {
-            if (engineeringState.repairQueue.length > 0) {
-                engineeringState.repairQueue.forEach(task => {
-                    if (task.progress < 100) {
-                        processRepairAttempt(task.id);
-                    }
-                });
-            }
-        }, 10000); // Process repairs every 10 seconds
-
-        return () => clearInterval(repairInterval);
-    }, [engineeringState.repairQueue]);
-
     // System boost mechanics implementation
     const generateBoostId = (): string => {
-        return `boost_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        return `boost_${Date.now()}_${malfunctions.tag()}`;
     };
 
     const calculateBoostStrainCost = (systemName: string, boostType: 'performance' | 'efficiency' | 'output', magnitude: number): number => {
@@ -1057,8 +998,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit boost activation
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'system_boost_activated',
                 boost: newBoost
             });
@@ -1078,8 +1019,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit boost deactivation
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'system_boost_deactivated',
                 boostId: boostId,
                 systemName: boost.systemName
@@ -1134,36 +1075,6 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         return availableBoosts;
     };
 
-    // Boost duration tracking (runs periodically)
-    useEffect(() => {
-        const boostInterval = setInterval(() => {
-            if (engineeringState.activeBoosts.length > 0) {
-                setEngineeringState(prev => {
-                    const updatedBoosts = prev.activeBoosts.map(boost => ({
-                        ...boost,
-                        timeRemaining: Math.max(0, boost.timeRemaining - 1)
-                    }));
-
-                    // Remove expired boosts
-                    const expiredBoosts = updatedBoosts.filter(boost => boost.timeRemaining <= 0);
-                    const activeBoosts = updatedBoosts.filter(boost => boost.timeRemaining > 0);
-
-                    // Log expired boosts
-                    expiredBoosts.forEach(boost => {
-                        console.log(`⏰ Boost expired: ${boost.systemName} ${boost.boostType}`);
-                    });
-
-                    return {
-                        ...prev,
-                        activeBoosts: activeBoosts
-                    };
-                });
-            }
-        }, 1000); // Update every second
-
-        return () => clearInterval(boostInterval);
-    }, [engineeringState.activeBoosts]);
-
     // Emergency procedures implementation
     const activateEmergencyShutdown = (systemName?: string) => {
         if (systemName) {
@@ -1200,8 +1111,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             // Emit individual system emergency shutdown
             if (socket) {
-                socket.emit('engineering_action', {
-                    room: new URLSearchParams(window.location.search).get('room') || 'default',
+                emitToServer(socket, 'engineering_action', {
+                    room,
                     type: 'emergency_shutdown',
                     system: systemName
                 });
@@ -1254,22 +1165,22 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             // Broadcast complete ship shutdown to all stations (except GM)
             if (socket) {
-                socket.emit('engineering_action', {
-                    room: new URLSearchParams(window.location.search).get('room') || 'default',
+                emitToServer(socket, 'engineering_action', {
+                    room,
                     type: 'complete_ship_shutdown',
                     message: 'EMERGENCY: Complete ship power shutdown initiated',
                     timestamp: Date.now()
                 });
 
                 // Also send to GM station for awareness
-                socket.emit('gm_broadcast', {
+                emitToServer(socket, 'gm_broadcast', {
                     type: 'ship_emergency_shutdown',
                     value: {
                         message: 'COMPLETE SHIP POWER SHUTDOWN ACTIVATED',
                         timestamp: Date.now(),
                         source: 'engineering'
                     },
-                    room: new URLSearchParams(window.location.search).get('room') || 'default',
+                    room,
                     source: 'engineering'
                 });
             }
@@ -1313,8 +1224,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit life support priority change
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'life_support_priority',
                 value: newPriorityState
             });
@@ -1333,37 +1244,18 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             return;
         }
 
-        // Check if there's already a repair task
-        const existingTask = engineeringState.repairQueue.find(task => task.systemName === systemName);
-        if (existingTask) {
-            // Convert existing repair to emergency repair (jury-rigged)
-            setEngineeringState(prev => ({
-                ...prev,
-                repairQueue: prev.repairQueue.map(task =>
-                    task.systemName === systemName
-                        ? { ...task, juryRigged: true, timeRequired: Math.round(task.timeRequired * 0.3) }
-                        : task
-                )
-            }));
-        } else {
-            // Create new emergency repair task
-            const emergencyTask = createRepairTask(systemName, damageAssessment.damageType!, 2); // 2 droids assigned
-            emergencyTask.juryRigged = true;
-            emergencyTask.timeRequired = Math.round(emergencyTask.timeRequired * 0.3); // 30% of normal time
-
-            setEngineeringState(prev => ({
-                ...prev,
-                repairQueue: [...prev.repairQueue, emergencyTask].sort((a, b) => {
-                    const priorityOrder = { critical: 3, major: 2, minor: 1 };
-                    return priorityOrder[b.damageType] - priorityOrder[a.damageType];
-                })
-            }));
-        }
+        // Jury-rig the queued repair, or queue a jury-rigged one with two droids
+        onPlayerAction('queue_repair', {
+            system: systemName as PowerSystem,
+            damageType: damageAssessment.damageType!,
+            droids: 2,
+            juryRigged: true
+        });
 
         // Emit emergency repair
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'emergency_repair',
                 system: systemName
             });
@@ -1395,8 +1287,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit emergency protocols activation
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'emergency_protocols_activated',
                 criticalSystems: criticalSystems
             });
@@ -1422,8 +1314,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit emergency deactivation
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'emergency_procedures_deactivated'
             });
         }
@@ -1483,8 +1375,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit performance tracking
         if (socket) {
-            socket.emit('engineering_performance', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_performance', {
+                room,
                 type: 'gm_damage_received',
                 system: system,
                 damage: healthLoss,
@@ -1537,7 +1429,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             let updatedPowerDistribution = { ...prev.powerDistribution };
 
             if (powerData.reactorOutput !== undefined) {
-                const clampedReactorOutput = Math.max(0, Math.min(600, powerData.reactorOutput));
+                const clampedReactorOutput = Math.max(0, Math.min(reactorCapacity, powerData.reactorOutput));
                 updatedPowerDistribution.reactorOutput = clampedReactorOutput;
                 // Calculate totalPower using units directly
                 updatedPowerDistribution.totalPower = clampedReactorOutput + (updatedPowerDistribution.emergencyPower ? 100 : 0);
@@ -1567,8 +1459,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     };
 
     const handleReactorOutputChange = (newOutput: number) => {
-        // Validate reactor output range (0-600 units normal operation)
-        const clampedOutput = Math.max(0, Math.min(600, newOutput));
+        // Validate reactor output range (0 to the ship's reactor capacity)
+        const clampedOutput = Math.max(0, Math.min(reactorCapacity, newOutput));
 
         setEngineeringState(prev => {
             const updatedPowerDistribution = {
@@ -1588,8 +1480,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         if (socket) {
             const calculatedTotalPower = clampedOutput + (engineeringState.powerDistribution.emergencyPower ? 100 : 0);
             
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'reactor_output_change',
                 value: clampedOutput,
                 totalPower: calculatedTotalPower
@@ -1612,8 +1504,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         console.log(`⚡ Reactor output changed by GM: ${clampedOutput} units`);
 
         // Add visual feedback
-        addErrorMessage(`Reactor output set to ${clampedOutput} units${clampedOutput > 600 ? ' [OVERLOAD]' : ''}`,
-            clampedOutput > 600 ? 'warning' : 'info');
+        addErrorMessage(`Reactor output set to ${clampedOutput} units${clampedOutput >= reactorCapacity ? ' [FULL OUTPUT]' : ''}`, 'info');
     };
 
     const handleGMReactorFluctuation = (fluctuationData: { intensity: number; duration: number }) => {
@@ -1621,7 +1512,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Temporarily reduce reactor output (intensity is now in units)
         const originalOutput = engineeringState.powerDistribution.reactorOutput;
-        const fluctuationOutput = Math.max(120, originalOutput - intensity); // Minimum 120 units (20% of 600)
+        const fluctuationOutput = Math.max(Math.round(reactorCapacity * 0.2), originalOutput - intensity); // Never below 20% of capacity
 
         setEngineeringState(prev => ({
             ...prev,
@@ -1665,7 +1556,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             case 'power_crisis':
                 setEngineeringState(prev => {
-                    const newReactorOutput = Math.max(180, prev.powerDistribution.reactorOutput - severity * 30); // Minimum 180 units (30% of 600), reduce by 30 units per severity level
+                    const newReactorOutput = Math.max(Math.round(reactorCapacity * 0.3), prev.powerDistribution.reactorOutput - severity * 30); // Minimum 30% of capacity, reduce by 30 units per severity level
                     return {
                         ...prev,
                         powerDistribution: {
@@ -1741,8 +1632,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             case 'power_fluctuation':
                 // Reactor output fluctuation that affects total available power
-                const reactorFluctuation = Math.floor((Math.random() - 0.5) * 100); // ±50 reactor output units
-                const newReactorOutput = Math.max(200, Math.min(600,
+                const reactorFluctuation = Math.floor((malfunctions.next() - 0.5) * 100); // ±50 reactor output units
+                const newReactorOutput = Math.max(Math.round(reactorCapacity / 3), Math.min(reactorCapacity,
                     engineeringState.powerDistribution.reactorOutput + reactorFluctuation
                 ));
 
@@ -1757,8 +1648,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
                 // Broadcast reactor output change to GM station so the slider updates
                 if (socket) {
-                    socket.emit('engineering_action', {
-                        room: new URLSearchParams(window.location.search).get('room') || 'default',
+                    emitToServer(socket, 'engineering_action', {
+                        room,
                         type: 'reactor_output_fluctuation',
                         value: newReactorOutput,
                         fluctuation: reactorFluctuation,
@@ -1861,8 +1752,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     const handleGMDroidAllocation = (allocationData: { availableDroids: number }) => {
         const { availableDroids: newDroidCount } = allocationData;
 
-        // Update available droids
-        setAvailableDroids(newDroidCount);
+        // Update available droids, never more than the ship carries
+        setAvailableDroids(shipProfile ? Math.min(shipProfile.droids, newDroidCount) : newDroidCount);
 
         // If we now have fewer droids than are currently assigned, we need to adjust repair tasks
         const totalAssignedDroids = engineeringState.repairQueue.reduce((sum, task) => sum + task.assignedCrew, 0);
@@ -1908,19 +1799,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     };
 
     const handleGMShipStrainUpdate = (strainData: { current: number; maximum: number }) => {
-        const { current, maximum } = strainData;
-
-        // Update the ship strain state
-        setShipStrain({
-            current: current,
-            maximum: maximum
-        });
-
-        console.log(`🎯 GM Event: Ship strain updated - Current: ${current}, Max: ${maximum}`);
-        addErrorMessage(`Ship strain set to ${current}/${maximum}`, current > 70 ? 'warning' : 'info');
-
-        // Emit state update to GM
-        emitStateUpdate();
+        // The server sets the strain; the next snapshot shows it
+        const { current } = strainData;
+        console.log(`🎯 GM Event: Ship strain set to ${current}`);
+        addErrorMessage(`Ship strain set to ${current}/${shipStrain.maximum}`, current > shipStrain.maximum * 0.7 ? 'warning' : 'info');
     };
 
     const handleGMSystemEfficiencyChange = (efficiencyData: { system: string; efficiency: number }) => {
@@ -2039,8 +1921,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit performance data to GM
         if (socket) {
-            socket.emit('engineering_performance', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_performance', {
+                room,
                 type: 'performance_update',
                 performance: performance
             });
@@ -2057,18 +1939,18 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         const randomEventInterval = setInterval(() => {
             // 5% chance per minute for a random event
-            if (Math.random() < 0.05) {
+            if (malfunctions.next() < 0.05) {
                 const events = [
                     { type: 'minor_fluctuation', description: 'Minor power fluctuation detected' },
                     { type: 'strain_buildup', description: 'System strain accumulation' },
                     { type: 'efficiency_drift', description: 'System efficiency degradation' }
                 ];
 
-                const randomEvent = events[Math.floor(Math.random() * events.length)];
+                const randomEvent = events[Math.floor(malfunctions.next() * events.length)];
                 handleGMRandomEvent({
                     type: randomEvent.type,
                     description: randomEvent.description,
-                    effects: { severity: Math.random() * 10 + 5 }
+                    effects: { severity: malfunctions.next() * 10 + 5 }
                 });
             }
         }, 60000); // Check every minute
@@ -2191,10 +2073,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         const detailedResults = {
             ...baseResults,
             components: {
-                primarySystems: Math.max(0, system.health - Math.random() * 10),
-                secondarySystems: Math.max(0, system.health - Math.random() * 15),
-                powerCouplings: Math.max(0, 100 - system.strain - Math.random() * 20),
-                thermalRegulation: Math.max(0, system.efficiency - Math.random() * 10)
+                primarySystems: Math.max(0, system.health - malfunctions.next() * 10),
+                secondarySystems: Math.max(0, system.health - malfunctions.next() * 15),
+                powerCouplings: Math.max(0, 100 - system.strain - malfunctions.next() * 20),
+                thermalRegulation: Math.max(0, system.efficiency - malfunctions.next() * 10)
             },
             recommendations: generateScanRecommendations(system),
             predictedFailures: generateFailurePredictions(system),
@@ -2241,7 +2123,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         if (system.strain > 80) {
             predictions.push({
                 component: 'Power Couplings',
-                probability: Math.min(95, system.strain + Math.random() * 10),
+                probability: Math.min(95, system.strain + malfunctions.next() * 10),
                 timeframe: system.strain > 90 ? '< 1 hour' : '< 6 hours'
             });
         }
@@ -2249,7 +2131,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         if (system.health < 50) {
             predictions.push({
                 component: 'Primary Systems',
-                probability: Math.min(90, (100 - system.health) + Math.random() * 20),
+                probability: Math.min(90, (100 - system.health) + malfunctions.next() * 20),
                 timeframe: system.health < 30 ? '< 30 minutes' : '< 2 hours'
             });
         }
@@ -2308,10 +2190,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             switch (calibrationType) {
                 case 'efficiency':
-                    updatedSystem.efficiency = Math.min(100, updatedSystem.efficiency + 5 + Math.random() * 10);
+                    updatedSystem.efficiency = Math.min(100, updatedSystem.efficiency + 5 + malfunctions.next() * 10);
                     break;
                 case 'power':
-                    updatedSystem.strain = Math.max(0, updatedSystem.strain - 10 - Math.random() * 5);
+                    updatedSystem.strain = Math.max(0, updatedSystem.strain - 10 - malfunctions.next() * 5);
                     break;
                 case 'thermal':
                     updatedSystem.strain = Math.max(0, updatedSystem.strain - 5);
@@ -2330,8 +2212,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Emit calibration event
         if (socket) {
-            socket.emit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+            emitToServer(socket, 'engineering_action', {
+                room,
                 type: 'system_calibration',
                 system: systemName,
                 calibrationType: calibrationType
@@ -2506,7 +2388,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     const [tooltipPosition, setTooltipPosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
 
     const addErrorMessage = (message: string, type: 'error' | 'warning' | 'info' = 'error') => {
-        const errorId = `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const errorId = `error_${Date.now()}_${malfunctions.tag()}`;
         const newError = {
             id: errorId,
             message,
@@ -2651,10 +2533,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
     const validateEmergencyProcedure = (procedureType: string): { valid: boolean; error?: string; requiresConfirmation?: boolean } => {
         switch (procedureType) {
             case 'emergency_power':
-                if (engineeringState.powerDistribution.reactorOutput < 300) { // 300 units = 50% of 600
+                if (engineeringState.powerDistribution.reactorOutput < reactorCapacity * 0.5) {
                     return {
                         valid: false,
-                        error: 'Cannot activate emergency power: reactor output below 300 units (50%)'
+                        error: `Cannot activate emergency power: reactor output below ${Math.round(reactorCapacity * 0.5)} units (50%)`
                     };
                 }
                 return {
@@ -2678,10 +2560,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 };
 
             case 'life_support_priority':
-                if (calculateTotalAvailablePower() < 240) { // 240 units = 40% of 600
+                if (calculateTotalAvailablePower() < reactorCapacity * 0.4) {
                     return {
                         valid: false,
-                        error: 'Insufficient power for life support priority mode (requires 240 units minimum)'
+                        error: `Insufficient power for life support priority mode (requires ${Math.round(reactorCapacity * 0.4)} units minimum)`
                     };
                 }
                 return {
@@ -2744,7 +2626,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         }, 3000);
     };
 
-    const safeSocketEmit = (event: string, data: any, operation: string) => {
+    const safeSocketEmit = <E extends ClientEventName>(event: E, data: Parameters<ClientToServerEvents[E]>[0], operation: string) => {
         try {
             if (!socket) {
                 addErrorMessage('No socket connection available', 'warning');
@@ -2756,7 +2638,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 return false;
             }
 
-            socket.emit(event, data);
+            emitToServer(socket, event, ...([data] as Parameters<ClientToServerEvents[E]>));
             return true;
         } catch (error) {
             handleNetworkError(error, operation);
@@ -2806,9 +2688,9 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             // Safe socket emission
             safeSocketEmit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+                room,
                 type: 'power_allocation_change',
-                system: systemName,
+                system: systemName as PowerSystem,
                 value: newValue,
                 effectivePower: effectivePower,
                 totalAllocated: Object.values(newAllocations).reduce((total, allocation) => total + allocation, 0),
@@ -2816,21 +2698,12 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             }, 'update power allocation');
 
             // Calculate and broadcast dice bonuses based on power level
-            const diceBonuses = [];
-            if (newValue >= 115) {
-                diceBonuses.push({ type: 'boost', name: 'Blue Boost Die', color: '#88ff88', description: 'Add 1 Boost Die to checks' });
-            }
-            if (newValue >= 130) {
-                diceBonuses.push({ type: 'ability', name: 'Green Die', color: '#44ff44', description: 'Add 1 Green Die to checks' });
-            }
-            if (newValue >= 150) {
-                diceBonuses.push({ type: 'upgrade', name: 'Upgrade Die', color: '#ffff44', description: 'Upgrade 1 Green Die to Yellow Die' });
-            }
+            const diceBonuses = systemDiceBonuses(newValue);
 
             // Broadcast dice bonuses to GM station and other stations
             if (diceBonuses.length > 0) {
                 safeSocketEmit('engineering_action', {
-                    room: new URLSearchParams(window.location.search).get('room') || 'default',
+                    room,
                     type: 'system_dice_bonuses',
                     system: systemName,
                     powerLevel: newValue,
@@ -2842,7 +2715,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             } else {
                 // Broadcast that system has no bonuses (below 115%)
                 safeSocketEmit('engineering_action', {
-                    room: new URLSearchParams(window.location.search).get('room') || 'default',
+                    room,
                     type: 'system_dice_bonuses',
                     system: systemName,
                     powerLevel: newValue,
@@ -2897,23 +2770,11 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             const oldDroidCount = task.assignedCrew;
             const updatedTimeRequired = calculateRepairTime(task.damageType, newDroidCount);
 
-            setEngineeringState(prev => ({
-                ...prev,
-                repairQueue: prev.repairQueue.map(repairTask => {
-                    if (repairTask.id === taskId) {
-                        return {
-                            ...repairTask,
-                            assignedCrew: newDroidCount,
-                            timeRequired: updatedTimeRequired
-                        };
-                    }
-                    return repairTask;
-                })
-            }));
+            onPlayerAction('assign_repair_droids', { id: taskId, droids: newDroidCount });
 
             // Emit droid assignment change to GM
             safeSocketEmit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+                room,
                 type: 'repair_droid_assignment_change',
                 taskId: taskId,
                 systemName: task.systemName,
@@ -2923,11 +2784,6 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 timestamp: Date.now()
             }, 'update droid assignment');
 
-            // Emit updated state to GM
-            setTimeout(() => {
-                emitStateUpdate();
-            }, 100);
-
             console.log(`🤖 Repair task ${task.systemName} (${taskId.slice(-8)}) droids: ${oldDroidCount} → ${newDroidCount} (time: ${Math.floor(updatedTimeRequired/60)}:${(updatedTimeRequired%60).toString().padStart(2,'0')})`);
             return true;
 
@@ -3013,7 +2869,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
             // Safe socket emission
             safeSocketEmit('engineering_action', {
-                room: new URLSearchParams(window.location.search).get('room') || 'default',
+                room,
                 type: 'system_boost_activated',
                 boost: newBoost
             }, 'activate system boost');
@@ -3050,7 +2906,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         // Safe socket emission
         safeSocketEmit('engineering_action', {
-            room: new URLSearchParams(window.location.search).get('room') || 'default',
+            room,
             type: 'emergency_power_toggle',
             value: newEmergencyState
         }, 'toggle emergency power');
@@ -3068,18 +2924,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
 
         console.log('🔧 Engineering Station using shared socket connection');
 
-        // Get room from URL parameter
-        const room = new URLSearchParams(window.location.search).get('room') || 'default';
-
-        // Join the room for proper message routing
-        try {
-            socket.emit('join', { room, station: 'engineering' });
-        } catch (error) {
-            handleNetworkError(error, 'join room');
-        }
-
         // Enhanced connection status monitoring
-        socket.on('connect', () => {
+        const onConnect = () => {
             console.log('🔧 Engineering Station connected');
             setNetworkStatus('connected');
             addErrorMessage('Connected to bridge network', 'info');
@@ -3089,15 +2935,18 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 emitStateUpdate();
                 console.log('🔧 Engineering Station: Initial state broadcasted to GM Station');
             }, 1000); // Wait 1 second for connection to stabilize
-        });
+        };
 
-        socket.on('disconnect', (reason: string) => {
+        const onDisconnect = (reason: string) => {
             console.warn('⚠️ Engineering Station disconnected:', reason);
             setNetworkStatus('disconnected');
             addErrorMessage(`Disconnected from bridge network: ${reason}`, 'warning');
-        });
+        };
+        socket.on('connect', onConnect);
+        socket.on('disconnect', onDisconnect);
 
-        socket.on('reconnect', () => {
+        // Reconnection is reported by the manager, not the socket
+        const onReconnect = () => {
             console.log('🔧 Engineering Station reconnected');
             setNetworkStatus('connected');
             addErrorMessage('Reconnected to bridge network', 'info');
@@ -3107,14 +2956,15 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 emitStateUpdate();
                 console.log('🔧 Engineering Station: State re-broadcasted to GM Station after reconnection');
             }, 1000); // Wait 1 second for connection to stabilize
-        });
-
-        socket.on('reconnect_attempt', () => {
+        };
+        const onReconnectAttempt = () => {
             setNetworkStatus('reconnecting');
-        });
+        };
+        socket.io.on('reconnect', onReconnect);
+        socket.io.on('reconnect_attempt', onReconnectAttempt);
 
         // Listen for GM broadcasts with error handling
-        socket.on('gm_broadcast', (data: { type: string; value: any; room: string; source: string }) => {
+        const stopGmBroadcasts = onServerEvent(socket, 'gm_broadcast', (data) => {
             try {
                 console.log('🔧 Engineering Station received GM broadcast:', data);
                 console.log('🔧 Engineering Station - Broadcast type:', data.type, 'Value:', data.value);
@@ -3143,8 +2993,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                 
                                 // Emit the change back to GM to sync their display
                                 if (socket) {
-                                    socket.emit('engineering_action', {
-                                        room: new URLSearchParams(window.location.search).get('room') || 'default',
+                                    emitToServer(socket, 'engineering_action', {
+                                        room,
                                         type: 'power_allocation_change',
                                         system: data.value.system,
                                         value: data.value.value
@@ -3183,7 +3033,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                         handleGMReactorFluctuation(data.value);
                         break;
                     case 'emergency_scenario':
-                        handleGMEmergencyScenario(data.value);
+                        // Pilot scenarios carry no system list
+                        if ('systems' in data.value) handleGMEmergencyScenario(data.value);
                         break;
                     case 'system_configuration':
                         handleGMSystemConfiguration(data.value);
@@ -3209,7 +3060,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
         });
 
         // Listen for player actions from GM station
-        socket.on('player_action', (data: { action: string; value: any; room: string; target?: string }) => {
+        const stopPlayerActions = onServerEvent(socket, 'player_action_broadcast', (data) => {
             try {
                 console.log('🔧 Engineering Station received player action:', data);
 
@@ -3217,7 +3068,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                 if (data.target === 'engineering' || !data.target) {
                     switch (data.action) {
                         case 'set_reactor_output':
-                            handleReactorOutputChange(data.value);
+                            handleReactorOutputChange(data.value as number);
                             break;
                         default:
                             console.log('Unknown player action:', data.action);
@@ -3230,39 +3081,23 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
             }
         });
 
-        // Listen for engineering-specific broadcasts
-        socket.on('engineering_broadcast', (data: { type: string; value: any; room: string; source: string }) => {
-            try {
-                console.log('🔧 Engineering Station received engineering broadcast:', data);
-                // Handle engineering-specific messages
-            } catch (error) {
-                addErrorMessage(`Error processing engineering broadcast: ${error}`, 'error');
-                console.error('Engineering broadcast error:', error);
-            }
-        });
-
         // Enhanced error handling
-        socket.on('error', (error: any) => {
-            console.error('🚨 Engineering Station socket error:', error);
-            handleNetworkError(error, 'socket communication');
-        });
-
-        socket.on('connect_error', (error: any) => {
+        const onConnectError = (error: any) => {
             console.error('🚨 Engineering Station connection error:', error);
             handleNetworkError(error, 'connection');
-        });
+        };
+        socket.on('connect_error', onConnectError);
 
         return () => {
-            socket.off('connect');
-            socket.off('disconnect');
-            socket.off('reconnect');
-            socket.off('reconnect_attempt');
-            socket.off('gm_broadcast');
-            socket.off('engineering_broadcast');
-            socket.off('error');
-            socket.off('connect_error');
+            socket.off('connect', onConnect);
+            socket.off('disconnect', onDisconnect);
+            socket.io.off('reconnect', onReconnect);
+            socket.io.off('reconnect_attempt', onReconnectAttempt);
+            stopGmBroadcasts();
+            stopPlayerActions();
+            socket.off('connect_error', onConnectError);
         };
-    }, [socket, onPlayerAction]);
+    }, [socket, room, onPlayerAction, shipProfile]);
 
     // Enhanced styling with visual effects and animations
     const containerStyle: React.CSSProperties = {
@@ -3451,7 +3286,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                         <div style={{ marginBottom: '15px', padding: '8px', background: 'rgba(255, 140, 0, 0.1)', borderRadius: '4px' }}>
                             <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
                                 <span>Reactor Output:</span>
-                                <span style={{ fontWeight: 'bold' }}>{engineeringState.powerDistribution.reactorOutput} units</span>
+                                <span style={{ fontWeight: 'bold' }}>{engineeringState.powerDistribution.reactorOutput} / {reactorCapacity} units</span>
                             </div>
                             <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
                                 <span>Available Power:</span>
@@ -3473,12 +3308,40 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                 <span style={{
                                     fontWeight: 'bold',
                                     color: (() => {
-                                        return shipStrain.current > 70 ? '#ff4444' : shipStrain.current > 40 ? '#ffaa44' : '#44ff44';
+                                        return shipStrain.current > shipStrain.maximum * 0.7 ? '#ff4444' : shipStrain.current > shipStrain.maximum * 0.4 ? '#ffaa44' : '#44ff44';
                                     })()
                                 }}>
                                     {shipStrain.current}/{shipStrain.maximum}
                                 </span>
                             </div>
+                            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                                <span>Hull Trauma:</span>
+                                <span style={{
+                                    fontWeight: 'bold',
+                                    color: hullTrauma.current > hullTrauma.maximum * 0.7 ? '#ff4444' : hullTrauma.current > hullTrauma.maximum * 0.4 ? '#ffaa44' : '#44ff44'
+                                }}>
+                                    {hullTrauma.current}/{hullTrauma.maximum}
+                                </span>
+                            </div>
+                            <button
+                                onClick={() => onPlayerAction('vent_strain', {})}
+                                disabled={strainVentTimer > 0 || shipStrain.current <= 0}
+                                style={{
+                                    width: '100%',
+                                    marginTop: '6px',
+                                    padding: '4px',
+                                    background: 'rgba(255, 140, 0, 0.2)',
+                                    border: '1px solid #ff8c00',
+                                    borderRadius: '3px',
+                                    color: '#ff8c00',
+                                    fontSize: '10px',
+                                    fontWeight: 'bold',
+                                    cursor: strainVentTimer > 0 || shipStrain.current <= 0 ? 'not-allowed' : 'pointer',
+                                    opacity: strainVentTimer > 0 || shipStrain.current <= 0 ? 0.5 : 1
+                                }}
+                            >
+                                {strainVentTimer > 0 ? `VENTS CYCLING ${Math.ceil(strainVentTimer)}s` : 'VENT STRAIN'}
+                            </button>
                         </div>
 
                         {/* Emergency Power Toggle */}
@@ -3549,10 +3412,10 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                                 
                                                 // Also emit to GM Station for sync
                                                 if (socket) {
-                                                    socket.emit('engineering_action', {
-                                                        room: new URLSearchParams(window.location.search).get('room') || 'default',
+                                                    emitToServer(socket, 'engineering_action', {
+                                                        room,
                                                         type: 'power_allocation_change',
-                                                        system: systemName,
+                                                        system: systemName as PowerSystem,
                                                         value: newValue
                                                     });
                                                 }
@@ -3582,6 +3445,11 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                             <span>Min: {requirements.minimum}</span>
                                             <span>Opt: {requirements.optimal}</span>
                                         </div>
+                                        {gameState.powerEffects && (
+                                            <div style={{ fontSize: '9px', color: '#00ccff', marginTop: '2px' }}>
+                                                → {describePowerEffect(systemName, gameState.powerEffects)}
+                                            </div>
+                                        )}
                                     </div>
                                 );
                             })}
@@ -4396,6 +4264,11 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                                 <div>Time: {Math.floor(repair.timeRequired / 60)}:{(repair.timeRequired % 60).toString().padStart(2, '0')}</div>
                                                 <div>Difficulty: {repair.difficulty}</div>
                                                 {repair.juryRigged && <div style={{ color: '#ffaa44' }}>JURY-RIGGED</div>}
+                                                {repair.criticalId && (
+                                                    <div style={{ color: '#ff4444' }}>
+                                                        CRITICAL: {gameState.engineering?.criticals.find(critical => critical.id === repair.criticalId)?.name ?? 'UNKNOWN'}
+                                                    </div>
+                                                )}
                                             </div>
 
                                             {/* Action Buttons */}
@@ -4404,7 +4277,8 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                                 gap: '4px',
                                                 marginTop: '6px'
                                             }}>
-                                                <button
+                                                {/* Critical hit repairs stay queued until they are done */}
+                                                {!repair.criticalId && <button
                                                     onClick={() => removeRepairTask(repair.id)}
                                                     style={{
                                                         flex: 1,
@@ -4420,7 +4294,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                                     }}
                                                 >
                                                     Cancel
-                                                </button>
+                                                </button>}
                                                 {!repair.juryRigged && (
                                                     <button
                                                         onClick={() => {
@@ -4608,7 +4482,7 @@ const EngineeringStation: React.FC<EngineeringStationProps> = ({ gameState, onPl
                                     <div style={{ marginBottom: '8px' }}>
                                         <div style={{ color: '#ffeb3b', fontWeight: 'bold', marginBottom: '4px' }}>1. 🔋 Emergency Power Activation:</div>
                                         <div style={{ marginLeft: '8px', color: '#ddd' }}>• Adds +100 units of emergency power to the reactor</div>
-                                        <div style={{ marginLeft: '8px', color: '#ddd' }}>• Increases total available power from 600 to 700 units</div>
+                                        <div style={{ marginLeft: '8px', color: '#ddd' }}>• Increases total available power from {reactorCapacity} to {reactorCapacity + 100} units</div>
                                         <div style={{ marginLeft: '8px', color: '#ddd' }}>• Activates emergency power systems across the ship</div>
                                     </div>
                                     
@@ -1,7 +1,27 @@
 import React, { useEffect, useState, useRef } from 'react';
 import styled from 'styled-components';
-import { io, Socket } from 'socket.io-client';
-import { GameState } from '../types';
+import {
+  emitToServer,
+  gmBroadcast,
+  onServerEvent,
+  type CommsMessage,
+  type GmBroadcast,
+  type GmBroadcastMap,
+  type GmBroadcastType,
+  type HostileFire,
+  type PlayerAction,
+  type PlayerActionMap,
+  type PlayerActionType,
+  type ShipSpawn,
+  type SkillCheckResult,
+  type SnapshotSummary
+} from '../protocol';
+import CheckResultView from '../components/CheckResultView';
+import TacticalPlot from '../components/TacticalPlot';
+import { useBridge, useRandomStream } from '../context/BridgeContext';
+import { CRITICAL_HITS } from '../criticals';
+import { MANEUVERS, MAX_MANEUVERS } from '../maneuvers';
+import { FiringArc, GameState, HostileBehavior, HyperdriveStatus, PowerSystem, ShipRegion, User } from '../types';
 
 // Module-level variable for star animation offset
 let gmStarOffset = 0;
@@ -31,23 +51,12 @@ interface SignalAnalysisOption {
   effect: string;
 }
 
-interface CommunicationMessage {
-  id: string;
-  from: string;
-  to: string;
-  content: string;
-  timestamp: Date;
-  priority: 'low' | 'normal' | 'high' | 'emergency';
-  frequency: number;
-  onAir?: string;
-}
-
 const initialGlobalState: GlobalGameState = {
   communications: null,
   navigation: null,
   weapons: null,
   engineering: {
-    availableDroids: 3
+    availableDroids: 0
   },
 };
 
@@ -60,7 +69,7 @@ interface PilotState {
   speed: number;
   altitude: number;
   alert: string;
-  hyperdriveStatus: 'ready' | 'charging' | 'jumping' | 'cooldown';
+  hyperdriveStatus: HyperdriveStatus;
   fuelLevel: number;
   shieldStatus: number;
   engineTemp: number;
@@ -227,6 +236,27 @@ const EmitRed = styled(EmitButton)`
   }
 `;
 
+const PasswordOverlay = styled.form`
+  position: fixed;
+  inset: 0;
+  z-index: 1500;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 12px;
+  background: rgba(0, 0, 0, 0.92);
+  color: var(--gm-yellow);
+  input {
+    background: #111;
+    border: 1px solid var(--gm-blue);
+    color: #eee;
+    border-radius: 4px;
+    padding: 8px 10px;
+    font-family: inherit;
+  }
+`;
+
 /* ---------- GM ACTUATOR COMPONENT ---------- */
 const GMActuatorCanvas: React.FC<{ imageData: string }> = ({ imageData }) => {
   const imgRef = useRef<HTMLImageElement>(null);
@@ -279,13 +309,59 @@ interface GMStationProps {
 }
 
 const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const { socket, room, seat, setGmPassword, vehicles, playerShip, galaxy } = useBridge();
+  // The crew's ship profile caps the hypermatter, droid and power controls below
+  const shipProfile = playerShip?.profile;
+  const hypermatterCapacity = shipProfile?.hypermatterCapacity ?? 0;
+  const droidComplement = shipProfile?.droids ?? 0;
+  const reactorCapacity = shipProfile?.reactorOutput ?? 0;
+  const combat = useRandomStream('combat');
+  const comms = useRandomStream('comms');
   const [states, setStates] = useState<GlobalGameState>(initialGlobalState);
   const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
-  const roomRef = useRef<string>('default');
+  const roomRef = useRef<string>(room);
+  roomRef.current = room;
+  // Shown when this room's gm seat is password-locked
+  const [passwordPrompt, setPasswordPrompt] = useState<string | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+
+  // Seats in this room, including players who dropped and may reconnect
+  const [crew, setCrew] = useState<User[]>([]);
+
+  // Session snapshots saved on the server for this room
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [snapshotLabel, setSnapshotLabel] = useState('');
+
+  // NPC hull and side for spawning from the vehicle database
+  const [spawnVehicle, setSpawnVehicle] = useState('tie-ln');
+  const [spawnFaction, setSpawnFaction] = useState<'enemy' | 'ally' | 'neutral'>('enemy');
+
+  // Dice checks rolled by the crew, newest first
+  const [skillChecks, setSkillChecks] = useState<SkillCheckResult[]>([]);
+
+  // Hostile shots at the crew's ship, newest first
+  const [hostileFire, setHostileFire] = useState<HostileFire[]>([]);
+  // Shield arc the GM's shield controls set; undefined sets every covered arc
+  const [shieldArc, setShieldArc] = useState<FiringArc | undefined>(undefined);
+  // Critical hit to pick from the table ('' rolls d100) and the roll's modifier
+  const [criticalEntry, setCriticalEntry] = useState('');
+  const [criticalModifier, setCriticalModifier] = useState(0);
+  // Hull trauma and system strain the GM's ship condition controls set
+  const [hullTraumaInput, setHullTraumaInput] = useState(0);
+  const [systemStrainInput, setSystemStrainInput] = useState(0);
 
   // Use passed gameState if available, otherwise use internal state
   const currentGameState = gameState || states;
+  const activeCriticals = gameState?.engineering?.criticals ?? [];
+  const systemName = (id?: string) => galaxy.systems.find(system => system.id === id)?.name ?? id ?? '—';
+  const shipRoute = gameState?.pilot?.route;
+  const interdicted = gameState?.pilot?.interdicted ?? false;
+  const astrogation = gameState?.pilot?.astrogation;
+  // Where the crew's ship is in local space, and how fast it is moving
+  const shipPosition = gameState?.pilot?.position;
+  const shipVelocity = gameState?.pilot?.velocity;
+  // The helm's manoeuvres this round, for adjudicating attacks on and from the ship
+  const helmManeuvers = gameState?.pilot?.maneuvers;
 
   // Communications state
   const [signalStrength, setSignalStrength] = useState(100);
@@ -294,8 +370,8 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
   const [messagePriority, setMessagePriority] = useState<'normal' | 'high' | 'emergency'>('normal');
   const [messageFrom, setMessageFrom] = useState('Command');
   const [messageAnalysis, setMessageAnalysis] = useState('normal');
-  const [commsTransmissions, setCommsTransmissions] = useState<CommunicationMessage[]>([]);
-  const [selectedGalaxyRegion, setSelectedGalaxyRegion] = useState('Core Worlds');
+  const [commsTransmissions, setCommsTransmissions] = useState<CommsMessage[]>([]);
+  const [selectedGalaxyRegion, setSelectedGalaxyRegion] = useState<ShipRegion>('Core Worlds');
 
   // Emergency beacon state and flashing effect
   const [emergencyBeaconActive, setEmergencyBeaconActive] = useState(false);
@@ -350,8 +426,8 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
     autopilot: false,
     emergencyPower: false,
     hypermatter: {
-      current: 80,
-      maximum: 80,
+      current: 0,
+      maximum: 0,
       consumptionRate: 2.5
     },
     jumpPlanning: {
@@ -446,7 +522,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
 
   // Function to get random moff name
   const getRandomSectorInfo = () => {
-    const randomIndex = Math.floor(Math.random() * moffNamesArray.length);
+    const randomIndex = Math.floor(comms.next() * moffNamesArray.length);
     return moffNamesArray[randomIndex];
   };
 
@@ -479,68 +555,63 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
 
   /* Socket setup */
   useEffect(() => {
-    // Connect to the correct Socket.IO server port
-    console.log('🔧 GM Station connecting to Socket.IO server on port 3000');
-    const s = io('http://localhost:3000', {
-      transports: ['websocket', 'polling'], // Try websocket first, fallback to polling
-      timeout: 20000,
-      reconnection: true,
-      reconnectionAttempts: 5,
-      reconnectionDelay: 1000
-    });
-    setSocket(s);
-
-    // Get room from URL params
-    const room = new URLSearchParams(window.location.search).get('room') || 'default';
-    roomRef.current = room;
-
-    // Connection testing with proper room joining
-    s.on('connect', () => {
-      console.log('✅ GM Station connected to server:', s.id);
-      console.log('📡 GM Station joining room:', room);
-      // Join room AFTER successful connection
-      s.emit('join', { room: roomRef.current, station: 'gm', name: 'Game Master' });
-
-      // Test broadcast reception immediately after joining
-      setTimeout(() => {
-        console.log('🧪 GM Station: Ready to send/receive broadcasts in room:', room);
-      }, 1000);
-    });
+    if (!socket) return;
+    console.log('🔧 GM Station using shared socket connection');
 
-    s.on('connect_error', (error) => {
-      console.error('❌ GM Station connection failed:', error);
+    const onConnectError = (error: any) => {
+      console.error('🚨 GM Station connection error:', error);
       console.log('🔄 Will attempt to reconnect...');
-    });
-
-    s.on('disconnect', (reason) => {
+    };
+    const onDisconnect = (reason: string) => {
       console.warn('⚠️ GM Station disconnected:', reason);
-      if (reason === 'io server disconnect') {
-        // Server disconnected, need to reconnect manually
-        s.connect();
-      }
-    });
-
-    s.on('reconnect', (attemptNumber) => {
+    };
+    // Reconnection is reported by the manager, not the socket
+    const onReconnect = (attemptNumber: number) => {
       console.log('🔄 GM Station reconnected after', attemptNumber, 'attempts');
-      // Rejoin room after reconnection
-      s.emit('join', { room: roomRef.current, station: 'gm' });
-    });
-
-    /* Listen for communications station frequency changes */
-    s.on('comm_frequency_change', (data: { frequency: number; room: string }) => {
-      console.log('GM received frequency change from communications:', data);
-      // Update GM display to show the new frequency
-      setStates((prev) => ({
-        ...prev,
-        communications: {
-          ...prev.communications,
-          primaryFrequency: data.frequency
-        }
-      }));
-    });
+    };
+    socket.on('connect_error', onConnectError);
+    socket.on('disconnect', onDisconnect);
+    socket.io.on('reconnect', onReconnect);
+
+    const unsubscribe: (() => void)[] = [];
+
+    unsubscribe.push(onServerEvent(socket, 'users_update', (users) => {
+      setCrew(Object.values(users).filter(user => user.station !== 'gm'));
+    }));
+
+    unsubscribe.push(onServerEvent(socket, 'snapshots_update', (data) => {
+      if (data.room === roomRef.current) setSnapshots(data.snapshots);
+    }));
+
+    // The comms log comes back with the room on join and snapshot load
+    unsubscribe.push(onServerEvent(socket, 'session_restore', (records) => {
+      setCommsTransmissions(records.messages);
+    }));
+
+    // Sensor traffic is simulated on the server; follow its region and the red pin
+    unsubscribe.push(onServerEvent(socket, 'ship_data_update', (data) => {
+      if (data.room !== roomRef.current) return;
+      setSelectedGalaxyRegion(data.currentRegion);
+      setRedPinnedShip(data.ships.find(ship => ship.id === data.doublePinnedShipId) || null);
+    }));
+
+    unsubscribe.push(onServerEvent(socket, 'skill_check_result', (data) => {
+      if (data.room !== roomRef.current) return;
+      setSkillChecks(prev => [data, ...prev].slice(0, 20));
+    }));
+
+    unsubscribe.push(onServerEvent(socket, 'hostile_fire', (data) => {
+      if (data.room !== roomRef.current) return;
+      setHostileFire(prev => [data, ...prev].slice(0, 5));
+    }));
+
+    // A refused join means this room's gm seat is password-locked
+    unsubscribe.push(onServerEvent(socket, 'action_rejected', (data) => {
+      if (data.event === 'join') setPasswordPrompt(data.reason);
+    }));
 
     /* Listen for communications broadcasts */
-    s.on('comm_broadcast', (data: { type: string; value: any; room: string; source: string }) => {
+    unsubscribe.push(onServerEvent(socket, 'comm_broadcast', (data) => {
       console.log('GM received communications broadcast:', data);
 
       if (data.source === 'communications') {
@@ -589,21 +660,18 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
             break;
         }
       }
-    });
-
-    // Room joining is now handled in the 'connect' event above
-    console.log('✅ GM Station socket setup complete, waiting for connection');
+    }));
 
     /* Listen for debug room responses */
-    s.on('debug_room_response', (data: { room: string; exists: boolean; userCount: number; users: any[] }) => {
+    unsubscribe.push(onServerEvent(socket, 'debug_room_response', (data) => {
       console.log('🔍 GM Station: Debug room response:', data);
       console.log('🔍 GM Station: Room exists:', data.exists);
       console.log('🔍 GM Station: User count:', data.userCount);
       console.log('🔍 GM Station: Users:', data.users);
-    });
+    }));
 
     /* Listen for GM broadcasts (including our own messages) */
-    s.on('gm_broadcast', (data: { type: string; value: any; room: string; source: string }) => {
+    unsubscribe.push(onServerEvent(socket, 'gm_broadcast', (data) => {
       console.log('GM received gm_broadcast:', data);
 
       switch (data.type) {
@@ -635,10 +703,6 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
             // Flashing continues until GM responds with Scan Response
           }
           break;
-        case 'red_pinned_ship':
-          console.log(' GM received RED-pinned ship from Comms:', data.value);
-          setRedPinnedShip(data.value);
-          break;
         case 'composer_protocol_change':
           console.log('GM received composer protocol:', data.value);
           setComposerProtocol(data.value);
@@ -650,12 +714,16 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
           alert(`🚨 SHIP EMERGENCY SHUTDOWN 🚨\n\n${data.value.message}\n\nAll stations except GM have lost power!`);
           break;
       }
-    });
+    }));
 
     /* Listen to every station's state_update */
-    s.on('state_update', (payload: { station: StationName; state: any }) => {
+    unsubscribe.push(onServerEvent(socket, 'state_update', (payload) => {
       console.log('🎮 GM Station received state_update:', payload.station, payload.state);
-      setStates((prev) => ({ ...prev, [payload.station]: payload.state }));
+      // Engineering's report leaves system health to the server's state, so keep what is there
+      setStates((prev) => ({
+        ...prev,
+        [payload.station]: payload.station === 'engineering' ? { ...prev.engineering, ...payload.state } : payload.state
+      }));
 
       // Track pilot state specifically for ACTUATOR display and shield controls
       if (payload.station === 'navigation') {
@@ -677,17 +745,17 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
         console.log('🔌 GM Station: Syncing power allocations from Engineering Station:', payload.state.powerDistribution.powerAllocations);
         setPowerAllocations(payload.state.powerDistribution.powerAllocations);
       }
-    });
+    }));
 
     /* Listen for actuator canvas stream from Navigation Station */
-    s.on('actuator_frame', (data: { imageData: string }) => {
+    unsubscribe.push(onServerEvent(socket, 'actuator_frame', (data) => {
       console.log('🖼️ GM Station received actuator frame, data length:', data.imageData.length);
       // Update the actuator image display
       setActuatorImage(data.imageData);
-    });
+    }));
 
     /* Listen for engineering actions */
-    s.on('engineering_action', (data: { type: string; [key: string]: any }) => {
+    unsubscribe.push(onServerEvent(socket, 'engineering_action', (data) => {
       console.log('🔧 GM Station received engineering action:', data);
       
       // Handle power allocation changes from Engineering Station
@@ -713,71 +781,86 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
           }
         }));
       }
-    });
+    }));
 
-    /* Listen for game state updates to sync signal strength */
-    s.on('game_state_update', (gameState: any) => {
-      console.log('🎮 GM Station received game state update:', gameState);
+    /* Mirror the authoritative room state from the server */
+    unsubscribe.push(onServerEvent(socket, 'game_state_update', (gameState) => {
       if (gameState?.communications?.signalStrength !== undefined) {
-        console.log('📶 GM Station syncing signal strength to:', gameState.communications.signalStrength);
         setSignalStrength(gameState.communications.signalStrength);
       }
       if (gameState?.communications?.interference !== undefined) {
-        console.log('📡 GM Station syncing interference to:', gameState.communications.interference);
         setInterference(gameState.communications.interference);
       }
-    });
-
-    // Add error handling for socket events
-    s.on('error', (error: any) => {
-      console.error('🚨 GM Station socket error:', error);
-    });
-
-    s.on('connect_error', (error: any) => {
-      console.error('🚨 GM Station connection error:', error);
-    });
-
-    s.on('disconnect', (reason: string) => {
-      console.warn('⚠️ GM Station disconnected:', reason);
-    });
+      if (gameState?.pilot) {
+        const { hyperdriveTimer, alertTimer, ...pilot } = gameState.pilot;
+        setPilotState(prev => ({ ...prev, ...pilot }));
+      }
+      if (gameState?.engineering?.powerDistribution?.powerAllocations) {
+        setPowerAllocations(gameState.engineering.powerDistribution.powerAllocations);
+      }
+      // Combat damage lands on the server's systems, so follow them even with no Engineering seat
+      if (gameState?.engineering?.systemStatus) {
+        const { systemStatus } = gameState.engineering;
+        setStates(prev => ({ ...prev, engineering: { ...prev.engineering, systemStatus } }));
+      }
+    }));
 
     return () => {
-      s.disconnect();
+      socket.off('connect_error', onConnectError);
+      socket.off('disconnect', onDisconnect);
+      socket.io.off('reconnect', onReconnect);
+      unsubscribe.forEach(off => off());
     };
-  }, []);
+  }, [socket]);
+
+  // Check the room once the server has seated us, including after a reconnect
+  useEffect(() => {
+    if (!socket || !seat) return;
+    console.log('📡 GM Station joined room:', seat.room);
+    emitToServer(socket, 'debug_room_request', { room: seat.room });
+  }, [socket, seat]);
 
   /* ---------- EMITTER HELPERS ---------- */
-  const emit = (action: string, value?: any, station?: StationName) => {
+  const emit = <A extends PlayerActionType>(action: A, value: PlayerActionMap[A], station?: StationName) => {
     if (!socket) return;
-    console.log(`📡 GM Station emitting player_action:`, { room: roomRef.current, action, value, target: station });
+    const data = { room: roomRef.current, action, value, target: station } as PlayerAction;
+    console.log(`📡 GM Station emitting player_action:`, data);
     console.log(`📡 GM Station - Socket connected:`, socket.connected, 'Room:', roomRef.current);
-    socket.emit('player_action', { room: roomRef.current, action, value, target: station });
-  };
-
-  // Helper function for logging socket emissions
-  const emitWithLogging = (eventType: string, data: any) => {
-    console.log(`📡 GM Station emitting ${eventType}:`, data);
-    socket?.emit(eventType, data);
+    emitToServer(socket, 'player_action', data);
   };
 
   // Helper function to send broadcasts to all stations
-  const sendBroadcast = (type: string, value: any, targetStation?: string) => {
+  const sendBroadcast = <T extends GmBroadcastType>(type: T, value: GmBroadcastMap[T], targetStation?: StationName) => {
     if (!socket || !socket.connected) {
       console.error('❌ Cannot send broadcast: Socket not connected');
       return;
     }
 
-    const broadcastData = {
-      type,
-      value,
-      room: roomRef.current,
+    const broadcastData = gmBroadcast(roomRef.current, type, value, {
       source: 'gm',
       target: targetStation, // Optional: target specific station
       timestamp: Date.now()
-    };
+    });
 
     console.log('📡 GM Station sending broadcast:', broadcastData);
-    socket.emit('gm_broadcast', broadcastData);
+    emitToServer(socket, 'gm_broadcast', broadcastData as GmBroadcast);
+  };
+
+  // A contact of the picked database hull and side; the tactical plot also sets where
+  const spawnFromDatabase = (placement: ShipSpawn = {}) => {
+    const spawn = { vehicle: spawnVehicle, ecmFreq: Math.floor(combat.next() * 1000), ...placement };
+    if (spawnFaction === 'enemy') sendBroadcast('spawn_enemy_ship', spawn);
+    else if (spawnFaction === 'ally') sendBroadcast('spawn_ally_ship', { ...spawn, faction: 'ally' });
+    else sendBroadcast('spawn_neutral_ship', { ...spawn, faction: 'neutral' });
+  };
+
+  // Engineering's droid teams, up to the ship's complement
+  const allocateDroids = (count: number) => {
+    setStates(prev => ({
+      ...prev,
+      engineering: { ...prev.engineering, availableDroids: count }
+    }));
+    sendBroadcast('droid_allocation', { availableDroids: count }, 'engineering');
   };
 
   // Make it available globally for testing
@@ -793,6 +876,20 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
   return (
     <Container>
       <Header>GAME MASTER CONTROL</Header>
+      <div style={{ display: 'flex', justifyContent: 'center', flexWrap: 'wrap', gap: 12, marginBottom: 20, fontSize: '0.8rem' }}>
+        {crew.length === 0 ? (
+          <span style={{ color: '#888' }}>No crew seated</span>
+        ) : (
+          crew.map((user) => (
+            <span
+              key={user.socketId}
+              style={{ color: user.status === 'reconnecting' ? 'var(--gm-yellow)' : 'var(--gm-green)' }}
+            >
+              {user.name} · {user.station}{user.status === 'reconnecting' ? ' (reconnecting…)' : ''}
+            </span>
+          ))
+        )}
+      </div>
 
       <PanelsGrid>
 
@@ -893,7 +990,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                         }
                       }));
                       // Broadcast to Communications station
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'frequency_update',
                         value: newFreq,
                         room: roomRef.current,
@@ -977,7 +1074,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       key={macro.id}
                       onClick={() => {
                         // Broadcast the frequency change to Communications station
-                        socket?.emit('gm_broadcast', {
+                        emitToServer(socket, 'gm_broadcast', {
                           type: 'frequency_update',
                           value: macro.frequency,
                           room: roomRef.current,
@@ -1094,7 +1191,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       const freq = states.communications?.primaryFrequency ?? 121.5;
 
                       // Create the message object
-                      const message: CommunicationMessage = {
+                      const message: CommsMessage = {
                         id: Date.now().toString(),
                         from: messageFrom,              // <- dynamic
                         to: 'All Stations',
@@ -1109,7 +1206,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       setCommsTransmissions(prev => [...prev, message]);
 
                       // use the *same* channel Comms already listens for
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'new_message',
                         value: message,
                         room,
@@ -1128,7 +1225,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       const freq = states.communications?.primaryFrequency ?? 121.5;
 
                       // Create the message object
-                      const scanMessage: CommunicationMessage = {
+                      const scanMessage: CommsMessage = {
                         id: Date.now().toString(),
                         from: messageFrom,              // <- dynamic
                         to: 'All Stations',
@@ -1143,7 +1240,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       setCommsTransmissions(prev => [...prev, scanMessage]);
 
                       // Send the same transmission as Send Transmission button
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'new_message',
                         value: scanMessage,
                         room,
@@ -1151,7 +1248,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       });
 
                       // Broadcast scan response to Communications station to fast-forward analysis
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'scan_response',
                         value: {
                           timestamp: Date.now(),
@@ -1208,7 +1305,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       // Broadcast beacon state to Communications station
                       if (socket) {
                         console.log('🚨 GM Broadcasting emergency beacon ON');
-                        socket.emit('gm_broadcast', {
+                        emitToServer(socket, 'gm_broadcast', {
                           type: 'emergency_beacon_update',
                           value: true,
                           room: roomRef.current,
@@ -1239,7 +1336,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast beacon state to Communications station
                     if (socket) {
                       console.log('🚨 GM Broadcasting emergency beacon OFF');
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'emergency_beacon_update',
                         value: false,
                         room: roomRef.current,
@@ -1286,7 +1383,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       // Broadcast to all stations (including communications)
                       if (socket) {
                         console.log('🎛️ GM Broadcasting signal strength update:', value);
-                        socket.emit('gm_broadcast', {
+                        emitToServer(socket, 'gm_broadcast', {
                           type: 'signal_strength_update',
                           value: value,
                           room: roomRef.current,
@@ -1305,7 +1402,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast to all stations (including communications)
                     if (socket) {
                       console.log('🎛️ GM Broadcasting -25% signal strength update:', newValue);
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'signal_strength_update',
                         value: newValue,
                         room: roomRef.current,
@@ -1319,7 +1416,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast to all stations (including communications)
                     if (socket) {
                       console.log('🎛️ GM Broadcasting +25% signal strength update:', newValue);
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'signal_strength_update',
                         value: newValue,
                         room: roomRef.current,
@@ -1332,7 +1429,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast to all stations (including communications)
                     if (socket) {
                       console.log('🎛️ GM Broadcasting KILL signal strength update: 0');
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'signal_strength_update',
                         value: 0,
                         room: roomRef.current,
@@ -1361,7 +1458,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       emit('gm_interference_change', value, 'communications');
                       // Broadcast to all stations
                       if (socket) {
-                        socket.emit('gm_broadcast', {
+                        emitToServer(socket, 'gm_broadcast', {
                           type: 'interference_update',
                           value: value,
                           room: roomRef.current,
@@ -1390,7 +1487,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast to all stations
                     if (socket) {
                       console.log('🎛️ GM Broadcasting -25% interference update:', newValue);
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'interference_update',
                         value: newValue,
                         room: roomRef.current,
@@ -1414,7 +1511,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast to all stations
                     if (socket) {
                       console.log('🎛️ GM Broadcasting +25% interference update:', newValue);
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'interference_update',
                         value: newValue,
                         room: roomRef.current,
@@ -1437,7 +1534,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     // Broadcast to all stations (same pattern as other interference controls)
                     if (socket) {
                       console.log('🎛️ GM Broadcasting JAM ALL interference update: 100');
-                      socket.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'interference_update',
                         value: 100,
                         room: roomRef.current,
@@ -1477,7 +1574,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     };
 
                     // Broadcast to Communications station
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'new_message',
                       value: imperialMessage,
                       room,
@@ -1503,11 +1600,12 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 <select
                   value={selectedGalaxyRegion}
                   onChange={(e) => {
-                    setSelectedGalaxyRegion(e.target.value);
-                    // Emit region update to CommunicationsStation with 'value' property
-                    socket?.emit('gm_broadcast', {
+                    const region = e.target.value as ShipRegion;
+                    setSelectedGalaxyRegion(region);
+                    // The server repopulates the room's traffic and tells every station
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'region_update',
-                      value: e.target.value,  // Changed from 'region' to 'value'
+                      value: region,
                       room: roomRef.current,
                       source: 'gm'
                     });
@@ -1550,6 +1648,26 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   {states.navigation?.speed ?? '—'}%
                 </span>
               </Row>
+              <Row>
+                <span>Position:</span>
+                <span>{shipPosition ? `${Math.round(shipPosition.x).toLocaleString()}, ${Math.round(shipPosition.y).toLocaleString()} km` : '—'}</span>
+              </Row>
+              <Row>
+                <span>Velocity:</span>
+                <span>{shipVelocity ? `${Math.hypot(shipVelocity.x, shipVelocity.y).toFixed(1)} km/s` : '—'}</span>
+              </Row>
+              <Row>
+                <span>Helm:</span>
+                <span style={{ color: helmManeuvers?.stance ? '#ffd700' : '#00ff88' }}>
+                  {helmManeuvers
+                    ? [
+                      helmManeuvers.stance && `${MANEUVERS[helmManeuvers.stance].name} ${Math.ceil(helmManeuvers.stanceTimer)}s`,
+                      helmManeuvers.advantage > 0 && `Advantage ${Math.ceil(helmManeuvers.advantage)}s`,
+                      `${helmManeuvers.flown}/${MAX_MANEUVERS} manoeuvres`
+                    ].filter(Boolean).join(' · ')
+                    : '—'}
+                </span>
+              </Row>
               <Row>
                 <span>Altitude:</span>
                 <span>{states.navigation?.altitude?.toFixed(0) ?? '—'} km</span>
@@ -1575,13 +1693,37 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
               <Row>
                 <span>Hyperdrive:</span>
                 <span style={{
-                  color: states.navigation?.hyperdriveStatus === 'ready' ? '#00ff88' :
-                    states.navigation?.hyperdriveStatus === 'charging' ? '#ffd700' :
+                  color: states.navigation?.hyperdriveStatus === 'ready' || states.navigation?.hyperdriveStatus === 'plotted' ? '#00ff88' :
+                    states.navigation?.hyperdriveStatus === 'charging' || states.navigation?.hyperdriveStatus === 'plotting' ? '#ffd700' :
                       states.navigation?.hyperdriveStatus === 'jumping' ? '#0088ff' : '#ff8800'
                 }}>
                   {states.navigation?.hyperdriveStatus?.toUpperCase() ?? '—'}
                 </span>
               </Row>
+              <Row>
+                <span>Location:</span>
+                <span>{systemName(gameState?.pilot?.currentSystem)}</span>
+              </Row>
+              <Row>
+                <span>Course:</span>
+                <span>
+                  {shipRoute
+                    ? `${systemName(shipRoute.destination)} · ${shipRoute.legs.length} jump${shipRoute.legs.length === 1 ? '' : 's'} · ${shipRoute.hours}h`
+                    : 'None plotted'}
+                </span>
+              </Row>
+              <Row>
+                <span>Astrogation:</span>
+                <span style={{ color: !astrogation ? undefined : astrogation.succeeded ? '#00ff88' : '#ff0040' }}>
+                  {astrogation
+                    ? `${astrogation.summary}${astrogation.misjumpTo ? ` · misjump to ${systemName(astrogation.misjumpTo)}` : ''}`
+                    : 'No plot'}
+                </span>
+              </Row>
+              <Row>
+                <span>Interdiction:</span>
+                <span style={{ color: interdicted ? '#ff0040' : '#00ff88' }}>{interdicted ? 'ACTIVE' : 'Clear'}</span>
+              </Row>
 
               {/* Distance to Mass Control */}
               <div style={{ marginTop: 15, marginBottom: 10 }}>
@@ -1631,7 +1773,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       // Emit to navigation station using helper
                       emit('set_distance_to_mass', newDistance, 'navigation');
                       // Broadcast to Navigation station
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'distance_to_mass_update',
                         value: newDistance,
                         room: roomRef.current,
@@ -1675,7 +1817,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       }
                     }));
                     emit('set_distance_to_mass', criticalDistance, 'navigation');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'distance_to_mass_update',
                       value: criticalDistance,
                       room: roomRef.current,
@@ -1692,7 +1834,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       }
                     }));
                     emit('set_distance_to_mass', closeDistance, 'navigation');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'distance_to_mass_update',
                       value: closeDistance,
                       room: roomRef.current,
@@ -1709,7 +1851,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       }
                     }));
                     emit('set_distance_to_mass', safeDistance, 'navigation');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'distance_to_mass_update',
                       value: safeDistance,
                       room: roomRef.current,
@@ -1726,7 +1868,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       }
                     }));
                     emit('set_distance_to_mass', farDistance, 'navigation');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'distance_to_mass_update',
                       value: farDistance,
                       room: roomRef.current,
@@ -1743,7 +1885,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 </div>
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 4 }}>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_update',
                       value: { speed: 25 },
                       room: roomRef.current,
@@ -1751,7 +1893,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>25%</EmitButton>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_update',
                       value: { speed: 50 },
                       room: roomRef.current,
@@ -1759,7 +1901,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>50%</EmitButton>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_update',
                       value: { speed: 75 },
                       room: roomRef.current,
@@ -1767,7 +1909,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>75%</EmitButton>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_update',
                       value: { speed: 100 },
                       room: roomRef.current,
@@ -1775,7 +1917,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>MAX</EmitButton>
                   <EmitRed onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_update',
                       value: { speed: 0 },
                       room: roomRef.current,
@@ -1783,9 +1925,9 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>STOP</EmitRed>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_update',
-                      value: { speed: Math.floor(Math.random() * 100) },
+                      value: { speed: Math.floor(combat.next() * 100) },
                       room: roomRef.current,
                       source: 'gm'
                     });
@@ -1808,6 +1950,18 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   </span>
                 </Row>
 
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 4, marginTop: 8 }}>
+                  {([undefined, 'fore', 'aft', 'port', 'starboard'] as (FiringArc | undefined)[]).map(arc => (
+                    <EmitButton
+                      key={arc ?? 'all'}
+                      onClick={() => setShieldArc(arc)}
+                      style={{ opacity: shieldArc === arc ? 1 : 0.5 }}
+                    >
+                      {arc ?? 'all'}
+                    </EmitButton>
+                  ))}
+                </div>
+
                 {/* Shield Slider Control */}
                 <div style={{ marginTop: 10, marginBottom: 10 }}>
                   <label style={{ display: 'block', marginBottom: '5px', color: '#00ffff', fontSize: '0.8rem' }}>
@@ -1822,9 +1976,9 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     onChange={(e) => {
                       const newShieldStatus = parseInt(e.target.value);
                       console.log('🛡️ GM setting shield status via slider to:', newShieldStatus);
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'shield_update',
-                        value: { shieldStatus: newShieldStatus },
+                        value: { shieldStatus: newShieldStatus, arc: shieldArc },
                         room: roomRef.current,
                         source: 'gm'
                       });
@@ -1848,36 +2002,36 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: 4, marginTop: 8 }}>
                   <EmitRed onClick={() => {
                     console.log('🛡️ GM setting shields to CRITICAL (0%)');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 0 },
+                      value: { shieldStatus: 0, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
                   }}>Critical</EmitRed>
                   <EmitButton onClick={() => {
                     console.log('🛡️ GM setting shields to LOW (25%)');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 25 },
+                      value: { shieldStatus: 25, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
                   }}>Low</EmitButton>
                   <EmitButton onClick={() => {
                     console.log('🛡️ GM setting shields to NORMAL (75%)');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 75 },
+                      value: { shieldStatus: 75, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
                   }}>Normal</EmitButton>
                   <EmitButton onClick={() => {
                     console.log('🛡️ GM setting shields to FULL (100%)');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 100 },
+                      value: { shieldStatus: 100, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
@@ -1886,27 +2040,27 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 4, marginTop: 4 }}>
                   <EmitRed onClick={() => {
                     console.log('🛡️ GM setting shield status to 0%');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 0 },
+                      value: { shieldStatus: 0, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
                   }}>SHIELDS DOWN</EmitRed>
                   <EmitButton onClick={() => {
                     console.log('🛡️ GM setting shield status to 50%');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 50 },
+                      value: { shieldStatus: 50, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
                   }}>50%</EmitButton>
                   <EmitButton onClick={() => {
                     console.log('🛡️ GM setting shield status to 100%');
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'shield_update',
-                      value: { shieldStatus: 100 },
+                      value: { shieldStatus: 100, arc: shieldArc },
                       room: roomRef.current,
                       source: 'gm'
                     });
@@ -1922,7 +2076,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 4 }}>
                   <EmitButton onClick={() => {
                     console.log('🌌 GM sending asteroid_field hazard to room:', roomRef.current);
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_hazard',
                       value: { type: 'asteroid_field', intensity: 'high' },
                       room: roomRef.current,
@@ -1931,7 +2085,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   }}>ASTEROIDS</EmitButton>
                   <EmitButton onClick={() => {
                     console.log('🌌 GM sending gravity_well hazard to room:', roomRef.current);
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_hazard',
                       value: { type: 'gravity_well', intensity: 'severe' },
                       room: roomRef.current,
@@ -1940,7 +2094,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   }}>GRAVITY</EmitButton>
                   <EmitButton onClick={() => {
                     console.log('🌌 GM sending ion_storm hazard to room:', roomRef.current);
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_hazard',
                       value: { type: 'ion_storm', intensity: 'moderate' },
                       room: roomRef.current,
@@ -1949,7 +2103,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   }}>ION STORM</EmitButton>
                   <EmitButton onClick={() => {
                     console.log('🌌 GM sending solar_flare hazard to room:', roomRef.current);
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'navigation_hazard',
                       value: { type: 'solar_flare', intensity: 'extreme' },
                       room: roomRef.current,
@@ -1970,7 +2124,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       console.log('🧪 GM Station: Testing connection to room:', roomRef.current);
                       console.log('🧪 GM Station: Socket connected?', socket?.connected);
                       console.log('🧪 GM Station: Socket ID:', socket?.id);
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'test_connection',
                         value: 'Hello Navigation!',
                         room: roomRef.current,
@@ -1984,7 +2138,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     onClick={() => {
                       console.log('🎮 GM Station: Activating enemy pursuit for room:', roomRef.current);
                       console.log('🎮 GM Station: Socket connected?', socket?.connected);
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'enemy_pursuit',
                         value: { action: 'activate' },
                         room: roomRef.current,
@@ -1998,7 +2152,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     onClick={() => {
                       console.log('🎮 GM Station: Deactivating enemy pursuit for room:', roomRef.current);
                       console.log('🎮 GM Station: Socket connected?', socket?.connected);
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'enemy_pursuit',
                         value: { action: 'deactivate' },
                         room: roomRef.current,
@@ -2018,7 +2172,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 </div>
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 4 }}>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hyperdrive_control',
                       value: { action: 'force_ready' },
                       room: roomRef.current,
@@ -2026,7 +2180,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>READY</EmitButton>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hyperdrive_control',
                       value: { action: 'force_charge' },
                       room: roomRef.current,
@@ -2034,7 +2188,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>CHARGE</EmitButton>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hyperdrive_control',
                       value: { action: 'force_jump' },
                       room: roomRef.current,
@@ -2042,7 +2196,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>JUMP</EmitButton>
                   <EmitRed onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hyperdrive_control',
                       value: { action: 'emergency_stop' },
                       room: roomRef.current,
@@ -2050,7 +2204,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>ABORT</EmitRed>
                   <EmitRed onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hyperdrive_control',
                       value: { action: 'disable' },
                       room: roomRef.current,
@@ -2058,13 +2212,29 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>DISABLE</EmitRed>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hyperdrive_control',
                       value: { action: 'cooldown' },
                       room: roomRef.current,
                       source: 'gm'
                     });
                   }}>COOLDOWN</EmitButton>
+                  <EmitRed onClick={() => {
+                    emitToServer(socket, 'gm_broadcast', {
+                      type: 'hyperdrive_control',
+                      value: { action: 'pull_out' },
+                      room: roomRef.current,
+                      source: 'gm'
+                    });
+                  }}>PULL OUT</EmitRed>
+                  <EmitRed onClick={() => {
+                    emitToServer(socket, 'gm_broadcast', {
+                      type: 'set_interdiction',
+                      value: !interdicted,
+                      room: roomRef.current,
+                      source: 'gm'
+                    });
+                  }}>{interdicted ? 'LIFT INTERDICT' : 'INTERDICT'}</EmitRed>
                 </div>
               </div>
 
@@ -2114,7 +2284,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       }));
 
                       // Broadcast to navigation station
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'fuel_control',
                         value: { action: 'set_level', level: newFuelLevel },
                         room: roomRef.current,
@@ -2149,7 +2319,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, fuelLevel: newFuelLevel }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'fuel_control',
                       value: { action: 'set_level', level: newFuelLevel },
                       room: roomRef.current,
@@ -2167,7 +2337,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, fuelLevel: newFuelLevel }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'fuel_control',
                       value: { action: 'set_level', level: newFuelLevel },
                       room: roomRef.current,
@@ -2185,7 +2355,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, fuelLevel: newFuelLevel }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'fuel_control',
                       value: { action: 'set_level', level: newFuelLevel },
                       room: roomRef.current,
@@ -2203,7 +2373,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, fuelLevel: newFuelLevel }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'fuel_control',
                       value: { action: 'set_level', level: newFuelLevel },
                       room: roomRef.current,
@@ -2259,7 +2429,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       }));
 
                       // Broadcast to navigation station
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'engine_temp_control',
                         value: { action: 'set_temperature', temperature: newEngineTemp },
                         room: roomRef.current,
@@ -2298,7 +2468,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, engineTemp: newEngineTemp }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'engine_temp_control',
                       value: { action: 'set_temperature', temperature: newEngineTemp },
                       room: roomRef.current,
@@ -2316,7 +2486,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, engineTemp: newEngineTemp }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'engine_temp_control',
                       value: { action: 'set_temperature', temperature: newEngineTemp },
                       room: roomRef.current,
@@ -2334,7 +2504,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, engineTemp: newEngineTemp }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'engine_temp_control',
                       value: { action: 'set_temperature', temperature: newEngineTemp },
                       room: roomRef.current,
@@ -2352,7 +2522,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       navigation: { ...prev.navigation, engineTemp: newEngineTemp }
                     }));
 
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'engine_temp_control',
                       value: { action: 'set_temperature', temperature: newEngineTemp },
                       room: roomRef.current,
@@ -2387,17 +2557,17 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       fontWeight: 'bold',
                       textShadow: '0 0 5px currentColor'
                     }}>
-                      {(states.navigation?.hypermatter?.current ?? 80).toFixed(0)} tons
+                      {(states.navigation?.hypermatter?.current ?? 0).toFixed(0)} tons
                     </span>
-                    <span style={{ fontSize: '10px', color: '#888888' }}>80 tons</span>
+                    <span style={{ fontSize: '10px', color: '#888888' }}>{hypermatterCapacity} tons</span>
                   </div>
 
                   <input
                     type="range"
                     min="0"
-                    max="80"
+                    max={hypermatterCapacity}
                     step="1"
-                    value={states.navigation?.hypermatter?.current ?? 80}
+                    value={states.navigation?.hypermatter?.current ?? 0}
                     onChange={(e) => {
                       const newAmount = parseInt(e.target.value);
                       // Update GM's local state
@@ -2412,7 +2582,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                         }
                       }));
                       // Broadcast to Navigation station
-                      socket?.emit('gm_broadcast', {
+                      emitToServer(socket, 'gm_broadcast', {
                         type: 'hypermatter_control',
                         value: { action: 'set_amount', amount: newAmount },
                         room: roomRef.current,
@@ -2446,7 +2616,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                 {/* Hypermatter Quick Controls */}
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: 4 }}>
                   <EmitButton onClick={() => {
-                    const fullAmount = 80;
+                    const fullAmount = hypermatterCapacity;
                     setStates(prev => ({
                       ...prev,
                       navigation: {
@@ -2457,7 +2627,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                         }
                       }
                     }));
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hypermatter_control',
                       value: { action: 'refill' },
                       room: roomRef.current,
@@ -2465,7 +2635,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>REFILL</EmitButton>
                   <EmitButton onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hypermatter_control',
                       value: { action: 'add', amount: 25 },
                       room: roomRef.current,
@@ -2473,7 +2643,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     });
                   }}>+25</EmitButton>
                   <EmitRed onClick={() => {
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hypermatter_control',
                       value: { action: 'drain', amount: 25 },
                       room: roomRef.current,
@@ -2492,7 +2662,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                         }
                       }
                     }));
-                    socket?.emit('gm_broadcast', {
+                    emitToServer(socket, 'gm_broadcast', {
                       type: 'hypermatter_control',
                       value: { action: 'critical', amount: criticalAmount },
                       room: roomRef.current,
@@ -2546,6 +2716,23 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
           )}
         </Panel>
 
+        {/* TACTICAL PLOT */}
+        <Panel collapsed={collapsed.tactical}>
+          <PanelHeader onClick={() => toggleCollapse('tactical')}>
+            <PanelTitle>Tactical Plot</PanelTitle>
+            <CollapseBtn>{collapsed.tactical ? '▲' : '▼'}</CollapseBtn>
+          </PanelHeader>
+          {!collapsed.tactical && (
+            <TacticalPlot
+              gameState={gameState}
+              spawnLabel={`${spawnFaction} ${vehicles.find(vehicle => vehicle.id === spawnVehicle)?.name ?? spawnVehicle}`}
+              onSpawn={(bearing, range) => spawnFromDatabase({ x: bearing, y: range })}
+              onMove={(id, bearing, range) => sendBroadcast('move_contact', { id, x: bearing, y: range })}
+              onRemove={(id) => sendBroadcast('remove_contact', { id })}
+            />
+          )}
+        </Panel>
+
         {/* WEAPONS */}
         <Panel collapsed={collapsed.weapons}>
           <PanelHeader onClick={() => toggleCollapse('weapons')}>
@@ -2720,14 +2907,14 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const enemyId = `enemy-${Date.now()}`;
                     sendBroadcast('spawn_enemy_ship', {
                       id: enemyId,
-                      x: Math.random() * 360,
-                      y: 60 + Math.random() * 30,
-                      heading: Math.random() * 360,
-                      speed: 25 + Math.random() * 30,
-                      size: 1 + Math.random() * 1.5,
+                      x: combat.next() * 360,
+                      y: 60 + combat.next() * 30,
+                      heading: combat.next() * 360,
+                      speed: 25 + combat.next() * 30,
+                      size: 1 + combat.next() * 1.5,
                       hp: 100,
                       shields: 60,
-                      ecmFreq: Math.floor(Math.random() * 1000)
+                      ecmFreq: Math.floor(combat.next() * 1000)
                     });
                   }}>
                     Spawn Fighter
@@ -2737,14 +2924,14 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const enemyId = `cruiser-${Date.now()}`;
                     sendBroadcast('spawn_enemy_ship', {
                       id: enemyId,
-                      x: Math.random() * 360,
-                      y: 50 + Math.random() * 25,
-                      heading: Math.random() * 360,
-                      speed: 15 + Math.random() * 20,
-                      size: 2 + Math.random() * 1,
+                      x: combat.next() * 360,
+                      y: 50 + combat.next() * 25,
+                      heading: combat.next() * 360,
+                      speed: 15 + combat.next() * 20,
+                      size: 2 + combat.next() * 1,
                       hp: 200,
                       shields: 120,
-                      ecmFreq: Math.floor(Math.random() * 1000)
+                      ecmFreq: Math.floor(combat.next() * 1000)
                     });
                   }}>
                     Spawn Cruiser
@@ -2755,7 +2942,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   <EmitButton onClick={() => {
                     sendBroadcast('wave_spawn', {
                       count: 3,
-                      ecmFreqs: Array.from({ length: 3 }, () => Math.floor(Math.random() * 1000))
+                      ecmFreqs: Array.from({ length: 3 }, () => Math.floor(combat.next() * 1000))
                     });
                   }}>
                     Spawn Wave (3)
@@ -2765,7 +2952,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const bossId = `boss-${Date.now()}`;
                     sendBroadcast('boss_spawn', {
                       id: bossId,
-                      ecmFreq: Math.floor(Math.random() * 1000)
+                      ecmFreq: Math.floor(combat.next() * 1000)
                     });
                   }}>
                     Spawn Boss
@@ -2785,6 +2972,29 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     Clear All
                   </EmitRed>
                 </div>
+
+                <div style={{ fontSize: '0.8rem', color: 'var(--gm-red)', margin: '8px 0 4px' }}>
+                  HOSTILE ORDERS:
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: '4px' }}>
+                  {(['strafe', 'pursue', 'focus', 'flee'] as HostileBehavior[]).map(behavior => (
+                    <EmitButton key={behavior} onClick={() => sendBroadcast('set_hostile_behavior', { behavior })}>
+                      {behavior}
+                    </EmitButton>
+                  ))}
+                </div>
+                {hostileFire.length > 0 && (
+                  <div style={{ fontSize: 10, color: '#aaa', marginTop: 6 }}>
+                    {hostileFire.map((shot, index) => (
+                      <div key={index} style={{ color: shot.hit ? '#ff6666' : '#888' }}>
+                        {shot.attackerId} · {shot.weapon} → {shot.arc}{' '}
+                        {shot.hit
+                          ? `hit: shields -${shot.shieldDamage.toFixed(0)}${shot.system ? `, ${shot.system} -${shot.systemDamage.toFixed(0)}` : ''}${shot.hullTrauma ? `, hull +${shot.hullTrauma}` : ''}`
+                          : 'miss'}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Ally Spawning Controls */}
@@ -2809,14 +3019,14 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const allyId = `ally-${Date.now()}`;
                     sendBroadcast('spawn_ally_ship', {
                       id: allyId,
-                      x: Math.random() * 360,
-                      y: 60 + Math.random() * 30,
-                      heading: Math.random() * 360,
-                      speed: 25 + Math.random() * 30,
-                      size: 1 + Math.random() * 1.5,
+                      x: combat.next() * 360,
+                      y: 60 + combat.next() * 30,
+                      heading: combat.next() * 360,
+                      speed: 25 + combat.next() * 30,
+                      size: 1 + combat.next() * 1.5,
                       hp: 120,
                       shields: 80,
-                      ecmFreq: Math.floor(Math.random() * 1000),
+                      ecmFreq: Math.floor(combat.next() * 1000),
                       faction: 'ally'
                     });
                   }}>
@@ -2827,14 +3037,14 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const allyId = `ally-cruiser-${Date.now()}`;
                     sendBroadcast('spawn_ally_ship', {
                       id: allyId,
-                      x: Math.random() * 360,
-                      y: 50 + Math.random() * 25,
-                      heading: Math.random() * 360,
-                      speed: 15 + Math.random() * 20,
-                      size: 2 + Math.random() * 1,
+                      x: combat.next() * 360,
+                      y: 50 + combat.next() * 25,
+                      heading: combat.next() * 360,
+                      speed: 15 + combat.next() * 20,
+                      size: 2 + combat.next() * 1,
                       hp: 250,
                       shields: 150,
-                      ecmFreq: Math.floor(Math.random() * 1000),
+                      ecmFreq: Math.floor(combat.next() * 1000),
                       faction: 'ally'
                     });
                   }}>
@@ -2844,9 +3054,9 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
 
                 <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
                   <EmitButton onClick={() => {
-                    sendBroadcast('ally_squadron_spawn', {
+                    sendBroadcast('ally_squad_spawn', {
                       count: 4,
-                      ecmFreqs: Array.from({ length: 4 }, () => Math.floor(Math.random() * 1000)),
+                      ecmFreqs: Array.from({ length: 4 }, () => Math.floor(combat.next() * 1000)),
                       faction: 'ally'
                     });
                   }}>
@@ -2883,14 +3093,14 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const neutralId = `neutral-${Date.now()}`;
                     sendBroadcast('spawn_neutral_ship', {
                       id: neutralId,
-                      x: Math.random() * 360,
-                      y: 60 + Math.random() * 30,
-                      heading: Math.random() * 360,
-                      speed: 20 + Math.random() * 25,
-                      size: 1 + Math.random() * 1.2,
+                      x: combat.next() * 360,
+                      y: 60 + combat.next() * 30,
+                      heading: combat.next() * 360,
+                      speed: 20 + combat.next() * 25,
+                      size: 1 + combat.next() * 1.2,
                       hp: 80,
                       shields: 40,
-                      ecmFreq: Math.floor(Math.random() * 1000),
+                      ecmFreq: Math.floor(combat.next() * 1000),
                       faction: 'neutral'
                     });
                   }}>
@@ -2901,14 +3111,14 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                     const neutralId = `neutral-transport-${Date.now()}`;
                     sendBroadcast('spawn_neutral_ship', {
                       id: neutralId,
-                      x: Math.random() * 360,
-                      y: 50 + Math.random() * 25,
-                      heading: Math.random() * 360,
-                      speed: 10 + Math.random() * 15,
-                      size: 2.5 + Math.random() * 1,
+                      x: combat.next() * 360,
+                      y: 50 + combat.next() * 25,
+                      heading: combat.next() * 360,
+                      speed: 10 + combat.next() * 15,
+                      size: 2.5 + combat.next() * 1,
                       hp: 150,
                       shields: 60,
-                      ecmFreq: Math.floor(Math.random() * 1000),
+                      ecmFreq: Math.floor(combat.next() * 1000),
                       faction: 'neutral'
                     });
                   }}>
@@ -2920,7 +3130,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   <EmitButton onClick={() => {
                     sendBroadcast('neutral_convoy_spawn', {
                       count: 3,
-                      ecmFreqs: Array.from({ length: 3 }, () => Math.floor(Math.random() * 1000)),
+                      ecmFreqs: Array.from({ length: 3 }, () => Math.floor(combat.next() * 1000)),
                       faction: 'neutral'
                     });
                   }}>
@@ -2948,11 +3158,11 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
             <>
               <Row>
                 <span>Reactor:</span>
-                <span>{states.engineering?.powerDistribution?.reactorOutput ?? '—'}%</span>
+                <span>{states.engineering?.powerDistribution?.reactorOutput ?? '—'} / {reactorCapacity} units</span>
               </Row>
               <Row>
                 <span>Available:</span>
-                <span>{states.engineering?.powerDistribution?.totalPower ?? '—'}%</span>
+                <span>{states.engineering?.powerDistribution?.totalPower ?? '—'} units</span>
               </Row>
               <Row>
                 <span>Emergency:</span>
@@ -2986,84 +3196,31 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   <Row>
                     <span>Available Droids:</span>
                     <span style={{
-                      color: (states.engineering?.availableDroids ?? 20) < 10 ? 'var(--gm-red)' : 'var(--gm-green)'
+                      color: (states.engineering?.availableDroids ?? 0) < droidComplement ? 'var(--gm-red)' : 'var(--gm-green)'
                     }}>
-                      {states.engineering?.availableDroids ?? 20}
+                      {states.engineering?.availableDroids ?? 0} / {droidComplement}
                     </span>
                   </Row>
                   <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px' }}>
                     <input
                       type="range"
                       min="0"
-                      max="50"
-                      value={states.engineering?.availableDroids ?? 20}
-                      onChange={(e) => {
-                        const newDroidCount = parseInt(e.target.value);
-
-                        // Update local state
-                        setStates(prev => ({
-                          ...prev,
-                          engineering: {
-                            ...prev.engineering,
-                            availableDroids: newDroidCount
-                          }
-                        }));
-
-                        // Send to engineering station
-                        sendBroadcast('droid_allocation', {
-                          availableDroids: newDroidCount
-                        }, 'engineering');
-                      }}
+                      max={droidComplement}
+                      value={states.engineering?.availableDroids ?? 0}
+                      onChange={(e) => allocateDroids(parseInt(e.target.value))}
                       style={{
                         width: '100%',
-                        accentColor: (states.engineering?.availableDroids ?? 20) < 10 ? 'var(--gm-red)' : 'var(--gm-yellow)'
+                        accentColor: (states.engineering?.availableDroids ?? 0) < droidComplement ? 'var(--gm-red)' : 'var(--gm-yellow)'
                       }}
                     />
-                    <span>{states.engineering?.availableDroids ?? 20}</span>
+                    <span>{states.engineering?.availableDroids ?? 0}</span>
                   </div>
                   <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '6px', marginTop: '8px' }}>
-                    <EmitButton onClick={() => {
-                      const newCount = 10;
-                      setStates(prev => ({
-                        ...prev,
-                        engineering: { ...prev.engineering, availableDroids: newCount }
-                      }));
-                      sendBroadcast('droid_allocation', { availableDroids: newCount }, 'engineering');
-                    }}>10 (Limited)</EmitButton>
-                    <EmitButton onClick={() => {
-                      const newCount = 20;
-                      setStates(prev => ({
-                        ...prev,
-                        engineering: { ...prev.engineering, availableDroids: newCount }
-                      }));
-                      sendBroadcast('droid_allocation', { availableDroids: newCount }, 'engineering');
-                    }}>20 (Normal)</EmitButton>
-                    <EmitButton onClick={() => {
-                      const newCount = 35;
-                      setStates(prev => ({
-                        ...prev,
-                        engineering: { ...prev.engineering, availableDroids: newCount }
-                      }));
-                      sendBroadcast('droid_allocation', { availableDroids: newCount }, 'engineering');
-                    }}>35 (Enhanced)</EmitButton>
-                  </div>
-                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginTop: '6px' }}>
-                    <EmitRed onClick={() => {
-                      const newCount = 5;
-                      setStates(prev => ({
-                        ...prev,
-                        engineering: { ...prev.engineering, availableDroids: newCount }
-                      }));
-                      sendBroadcast('droid_allocation', { availableDroids: newCount }, 'engineering');
-                    }}>5 (Critical)</EmitRed>
-                    <EmitRed onClick={() => {
-                      const newCount = 0;
-                      setStates(prev => ({
-                        ...prev,
-                        engineering: { ...prev.engineering, availableDroids: newCount }
-                      }));
-                      sendBroadcast('droid_allocation', { availableDroids: newCount }, 'engineering');
-                    }}>0 (No Droids)</EmitRed>
+                    <EmitButton onClick={() => allocateDroids(droidComplement)}>{droidComplement} (Full)</EmitButton>
+                    <EmitRed onClick={() => allocateDroids(Math.floor(droidComplement / 2))}>
+                      {Math.floor(droidComplement / 2)} (Damaged)
+                    </EmitRed>
+                    <EmitRed onClick={() => allocateDroids(0)}>0 (No Droids)</EmitRed>
                   </div>
                 </div>
 
@@ -3088,7 +3245,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   <Row>
                     <span>Total Allocated:</span>
                     <span style={{
-                      color: Object.values(powerAllocations).reduce((sum, val) => sum + val, 0) > 600 ? 'var(--gm-red)' : 'var(--gm-green)'
+                      color: Object.values(powerAllocations).reduce((sum, val) => sum + val, 0) > (states.engineering?.powerDistribution?.totalPower ?? reactorCapacity) ? 'var(--gm-red)' : 'var(--gm-green)'
                     }}>
                       {Object.values(powerAllocations).reduce((sum, val) => sum + val, 0)} units
                     </span>
@@ -3096,7 +3253,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   <Row>
                     <span>Available Power:</span>
                     <span style={{ color: 'var(--gm-blue)' }}>
-                      {states.engineering?.powerDistribution?.totalPower ?? 600} units
+                      {states.engineering?.powerDistribution?.totalPower ?? reactorCapacity} units
                     </span>
                   </Row>
                   
@@ -3147,7 +3304,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                               
                               // Broadcast to Engineering Station
                               sendBroadcast('set_power_allocation', {
-                                system: systemName,
+                                system: systemName as PowerSystem,
                                 value: newValue
                               }, 'engineering');
                               
@@ -3202,7 +3359,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       setPowerAllocations(balancedPower);
                       Object.entries(balancedPower).forEach(([system, value]) => {
                         sendBroadcast('set_power_allocation', {
-                          system,
+                          system: system as PowerSystem,
                           value
                         }, 'engineering');
                       });
@@ -3220,7 +3377,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       setPowerAllocations(combatPower);
                       Object.entries(combatPower).forEach(([system, value]) => {
                         sendBroadcast('set_power_allocation', {
-                          system,
+                          system: system as PowerSystem,
                           value
                         }, 'engineering');
                       });
@@ -3238,7 +3395,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       setPowerAllocations(stealthPower);
                       Object.entries(stealthPower).forEach(([system, value]) => {
                         sendBroadcast('set_power_allocation', {
-                          system,
+                          system: system as PowerSystem,
                           value
                         }, 'engineering');
                       });
@@ -3256,7 +3413,7 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                       setPowerAllocations(emergencyPower);
                       Object.entries(emergencyPower).forEach(([system, value]) => {
                         sendBroadcast('set_power_allocation', {
-                          system,
+                          system: system as PowerSystem,
                           value
                         }, 'engineering');
                       });
@@ -3978,6 +4135,119 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   </div>
                 </div>
 
+                {/* Ship Condition */}
+                <div style={{ marginTop: '15px', padding: '8px', border: '1px solid var(--gm-red)', borderRadius: '4px' }}>
+                  <div style={{ fontSize: '0.8rem', color: 'var(--gm-red)', marginBottom: '6px' }}>
+                    SHIP CONDITION: {(gameState?.ship?.condition ?? 'operational').toUpperCase()}
+                  </div>
+                  <div style={{ fontSize: 10, color: '#aaa', marginBottom: 6 }}>
+                    Hull trauma {Math.round(gameState?.ship?.hullTrauma ?? 0)}/{playerShip?.hullTrauma ?? '?'} ·
+                    System strain {Math.round(gameState?.ship?.systemStrain ?? 0)}/{playerShip?.systemStrain ?? '?'}
+                  </div>
+                  {([
+                    ['Hull', hullTraumaInput, setHullTraumaInput, 'hullTrauma'],
+                    ['Strain', systemStrainInput, setSystemStrainInput, 'systemStrain']
+                  ] as const).map(([label, amount, setAmount, pool]) => (
+                    <div key={pool} style={{ display: 'flex', gap: 4, alignItems: 'center', marginBottom: 4 }}>
+                      <span style={{ fontSize: 10, width: 40 }}>{label}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={amount}
+                        onChange={(e) => setAmount(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                        style={{ width: 50, background: '#111', border: '1px solid var(--gm-red)', color: '#eee', borderRadius: 4, fontSize: 11, padding: 3 }}
+                      />
+                      <EmitButton
+                        onClick={() => sendBroadcast('set_ship_condition', { [pool]: amount })}
+                        style={{ fontSize: '0.6rem', padding: '4px 6px' }}
+                      >
+                        Set
+                      </EmitButton>
+                    </div>
+                  ))}
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 4 }}>
+                    <EmitButton
+                      onClick={() => sendBroadcast('set_ship_condition', { hullTrauma: 0, systemStrain: 0, condition: 'operational' })}
+                      style={{ fontSize: '0.6rem', padding: '4px 6px' }}
+                    >
+                      Restore
+                    </EmitButton>
+                    <EmitRed
+                      onClick={() => sendBroadcast('set_ship_condition', { condition: 'disabled' })}
+                      style={{ fontSize: '0.6rem', padding: '4px 6px' }}
+                    >
+                      Disable
+                    </EmitRed>
+                    <EmitRed
+                      onClick={() => sendBroadcast('set_ship_condition', { condition: 'destroyed' })}
+                      style={{ fontSize: '0.6rem', padding: '4px 6px' }}
+                    >
+                      Destroy
+                    </EmitRed>
+                  </div>
+                </div>
+
+                {/* Critical Hits */}
+                <div style={{ marginTop: '15px', padding: '8px', border: '1px solid var(--gm-red)', borderRadius: '4px' }}>
+                  <div style={{ fontSize: '0.8rem', color: 'var(--gm-red)', marginBottom: '6px' }}>
+                    CRITICAL HITS:
+                  </div>
+                  <div style={{ display: 'flex', gap: 4, alignItems: 'center', marginBottom: 6 }}>
+                    <select
+                      value={criticalEntry}
+                      onChange={(e) => setCriticalEntry(e.target.value)}
+                      style={{ flex: 1, background: '#111', border: '1px solid var(--gm-red)', color: '#eee', borderRadius: 4, fontSize: 11, padding: 3 }}
+                    >
+                      <option value="">Roll d100</option>
+                      {CRITICAL_HITS.map(entry => (
+                        <option key={entry.id} value={entry.id}>
+                          {entry.min}{entry.max === Infinity ? '+' : `-${entry.max}`} {entry.name}
+                        </option>
+                      ))}
+                    </select>
+                    {!criticalEntry && (
+                      <input
+                        type="number"
+                        value={criticalModifier}
+                        onChange={(e) => setCriticalModifier(parseInt(e.target.value, 10) || 0)}
+                        title="Roll modifier"
+                        style={{ width: 44, background: '#111', border: '1px solid var(--gm-red)', color: '#eee', borderRadius: 4, fontSize: 11, padding: 3 }}
+                      />
+                    )}
+                    <EmitRed
+                      onClick={() => sendBroadcast('critical_hit', criticalEntry ? { entry: criticalEntry } : { modifier: criticalModifier })}
+                      style={{ fontSize: '0.6rem', padding: '4px 6px' }}
+                    >
+                      {criticalEntry ? 'Apply' : 'Roll'}
+                    </EmitRed>
+                  </div>
+                  {criticalEntry && (
+                    <div style={{ fontSize: 10, color: '#aaa', marginBottom: 6 }}>
+                      {CRITICAL_HITS.find(entry => entry.id === criticalEntry)?.description}
+                    </div>
+                  )}
+                  {activeCriticals.length === 0 ? (
+                    <div style={{ fontSize: 10, color: '#888' }}>No active critical hits</div>
+                  ) : (
+                    activeCriticals.map(critical => (
+                      <div key={critical.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: 10, color: '#ff6666', marginBottom: 3 }}>
+                        <span>
+                          {critical.roll > 0 && `${critical.roll} · `}{critical.name} · {critical.system}
+                          {critical.arc && ` (${critical.arc})`}
+                          {critical.weapon && ` (${critical.weapon})`}
+                          {critical.band && ` (${critical.band.min}-${critical.band.max} MHz)`}
+                        </span>
+                        <EmitButton
+                          onClick={() => sendBroadcast('clear_critical', { id: critical.id })}
+                          style={{ fontSize: '0.55rem', padding: '2px 5px' }}
+                        >
+                          Clear
+                        </EmitButton>
+                      </div>
+                    ))
+                  )}
+                </div>
+
 
 
 
@@ -4008,6 +4278,168 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
           )}
         </Panel>
 
+        {/* VEHICLE DATABASE */}
+        <Panel collapsed={collapsed.vehicles}>
+          <PanelHeader onClick={() => toggleCollapse('vehicles')}>
+            <PanelTitle>Vehicle Database</PanelTitle>
+            <CollapseBtn>{collapsed.vehicles ? '▲' : '▼'}</CollapseBtn>
+          </PanelHeader>
+          {!collapsed.vehicles && (() => {
+            const selectStyle = {
+              flex: 1,
+              background: '#111',
+              border: '1px solid var(--gm-blue)',
+              color: '#eee',
+              borderRadius: 4,
+              fontSize: 12,
+              padding: 4,
+            };
+
+            return (
+              <div>
+                <Row style={{ alignItems: 'center' }}>
+                  <span>Player Ship:</span>
+                  <select
+                    value={playerShip?.id ?? ''}
+                    onChange={(e) => sendBroadcast('set_player_ship', e.target.value)}
+                    style={{ ...selectStyle, marginLeft: 6 }}
+                  >
+                    {vehicles.filter(vehicle => vehicle.profile).map(vehicle => (
+                      <option key={vehicle.id} value={vehicle.id}>{vehicle.name}</option>
+                    ))}
+                  </select>
+                </Row>
+                {playerShip && (
+                  <div style={{ fontSize: 10, color: '#aaa', margin: '4px 0 10px' }}>
+                    Sil {playerShip.silhouette} · Speed {playerShip.speed} · Handling {playerShip.handling} ·
+                    Armor {playerShip.armor} · Hull {playerShip.hullTrauma} · Strain {playerShip.systemStrain} ·
+                    Sensors {playerShip.sensorRange}
+                  </div>
+                )}
+                {shipProfile && (
+                  <div style={{ fontSize: 10, color: '#aaa', margin: '-6px 0 10px' }}>
+                    Reactor {shipProfile.reactorOutput} · Shields {shipProfile.shieldArcs.join('/') || 'none'} ·
+                    Hyperdrive x{shipProfile.hyperdrive.primary}{shipProfile.hyperdrive.backup !== null && ` (backup x${shipProfile.hyperdrive.backup})`} ·
+                    Fuel {shipProfile.fuelCapacity} · Hypermatter {shipProfile.hypermatterCapacity} · Missiles {shipProfile.missileMagazine} ·
+                    Droids {shipProfile.droids}
+                  </div>
+                )}
+
+                <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                  <select value={spawnVehicle} onChange={(e) => setSpawnVehicle(e.target.value)} style={selectStyle}>
+                    {vehicles.map(vehicle => (
+                      <option key={vehicle.id} value={vehicle.id}>{vehicle.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={spawnFaction}
+                    onChange={(e) => setSpawnFaction(e.target.value as typeof spawnFaction)}
+                    style={{ ...selectStyle, flex: 'none' }}
+                  >
+                    <option value="enemy">Enemy</option>
+                    <option value="ally">Ally</option>
+                    <option value="neutral">Neutral</option>
+                  </select>
+                  <EmitButton onClick={() => spawnFromDatabase()}>
+                    Spawn
+                  </EmitButton>
+                </div>
+              </div>
+            );
+          })()}
+        </Panel>
+
+        {/* SKILL CHECKS */}
+        <Panel collapsed={collapsed.skillChecks}>
+          <PanelHeader onClick={() => toggleCollapse('skillChecks')}>
+            <PanelTitle>Skill Checks</PanelTitle>
+            <CollapseBtn>{collapsed.skillChecks ? '▲' : '▼'}</CollapseBtn>
+          </PanelHeader>
+          {!collapsed.skillChecks && (
+            <div style={{ maxHeight: 260, overflowY: 'auto' }}>
+              {skillChecks.length === 0 ? (
+                <div style={{ fontSize: 10, color: '#888' }}>No checks rolled yet</div>
+              ) : (
+                skillChecks.map((result) => (
+                  <div key={result.id} style={{ borderBottom: '1px solid #333', padding: '6px 0' }}>
+                    <CheckResultView result={result} showRoller />
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </Panel>
+
+        {/* SESSION SNAPSHOTS */}
+        <Panel collapsed={collapsed.snapshots}>
+          <PanelHeader onClick={() => toggleCollapse('snapshots')}>
+            <PanelTitle>Session Snapshots</PanelTitle>
+            <CollapseBtn>{collapsed.snapshots ? '▲' : '▼'}</CollapseBtn>
+          </PanelHeader>
+          {!collapsed.snapshots && (
+            <div>
+              {/* Snapshots carry the random streams too, so loading one replays the same rolls */}
+              {seat && (
+                <div style={{ fontSize: 11, color: '#888', marginBottom: 6 }}>
+                  Room seed: <span style={{ color: 'var(--gm-yellow)' }}>{seat.seed}</span>
+                </div>
+              )}
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                <input
+                  value={snapshotLabel}
+                  onChange={(e) => setSnapshotLabel(e.target.value)}
+                  placeholder="Snapshot label"
+                  maxLength={48}
+                  style={{
+                    flex: 1,
+                    background: '#111',
+                    border: '1px solid var(--gm-blue)',
+                    color: '#eee',
+                    borderRadius: 4,
+                    fontSize: 12,
+                    padding: 6,
+                  }}
+                />
+                <EmitButton
+                  onClick={() => {
+                    emitToServer(socket, 'save_snapshot', { room: roomRef.current, label: snapshotLabel.trim() || undefined });
+                    setSnapshotLabel('');
+                  }}
+                >
+                  Save Snapshot
+                </EmitButton>
+                <EmitButton onClick={() => emitToServer(socket, 'list_snapshots', { room: roomRef.current })}>
+                  List Snapshots
+                </EmitButton>
+              </div>
+              {snapshots.length === 0 ? (
+                <div style={{ fontSize: 10, color: '#888', marginTop: 6 }}>
+                  No snapshots listed for room {roomRef.current}
+                </div>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <Row key={snapshot.id} style={{ alignItems: 'center' }}>
+                    <span>
+                      {snapshot.label}
+                      <span style={{ color: '#888', fontSize: 10, marginLeft: 6 }}>
+                        {new Date(snapshot.savedAt).toLocaleString()}
+                      </span>
+                    </span>
+                    <EmitRed
+                      onClick={() => {
+                        if (!window.confirm(`Load "${snapshot.label}"? The current session in room ${roomRef.current} is replaced.`)) return;
+                        emitToServer(socket, 'load_snapshot', { room: roomRef.current, id: snapshot.id });
+                      }}
+                    >
+                      Load Snapshot
+                    </EmitRed>
+                  </Row>
+                ))
+              )}
+            </div>
+          )}
+        </Panel>
+
         {/* GLOBAL PRESETS */}
         <Panel collapsed={collapsed.presets}>
           <PanelHeader onClick={() => toggleCollapse('presets')}>
@@ -4064,7 +4496,8 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
                   if (e.key === 'Enter' && e.ctrlKey) {
                     try {
                       const json = JSON.parse(e.currentTarget.value);
-                      emit(json.action, json.value, json.target);
+                      // Free-form JSON is trusted as-is; the server ignores unknown actions
+                      emit(json.action as PlayerActionType, json.value, json.target);
                       e.currentTarget.value = '';
                     } catch { }
                   }
@@ -4077,6 +4510,28 @@ const GMStation: React.FC<GMStationProps> = ({ gameState, onGMUpdate }) => {
           )}
         </Panel>
       </PanelsGrid>
+
+      {passwordPrompt && (
+        <PasswordOverlay
+          onSubmit={(e) => {
+            e.preventDefault();
+            setPasswordPrompt(null);
+            // The provider retries the seat with the password
+            setGmPassword(passwordInput);
+          }}
+        >
+          <PanelTitle>🔒 GM SEAT LOCKED</PanelTitle>
+          <div style={{ fontSize: '0.85rem' }}>{passwordPrompt}</div>
+          <input
+            type="password"
+            autoFocus
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder="GM password"
+          />
+          <EmitButton type="submit" disabled={!passwordInput}>UNLOCK</EmitButton>
+        </PasswordOverlay>
+      )}
     </Container>
   );
 };
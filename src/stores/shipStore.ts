@@ -1,118 +1,30 @@
-import { Socket } from 'socket.io-client';
+import { emitToServer, onServerEvent, type ClientSocket, type ShipDataUpdate } from '../protocol';
+import type { Ship, ShipPin, ShipRegion } from '../types';
 
-// Ship type definition
-export type Ship = {
-  id: string;
-  designation: string | null;
-  status: 'Active' | 'Inactive';
-  entryTime: number;
-  type: 'transient' | 'regular' | 'persistent';
-  age: number;
-  groupId?: string;
-};
+export type { Ship } from '../types';
 
-// Ship store class for centralized ship management
+// Client mirror of the room's sensor traffic. The server simulates arrivals and
+// departures for each room and pushes ship_data_update; pin commands go back to
+// the server so every station sees the same ships and pins.
 export class ShipStore {
   private ships: Ship[] = [];
-  private pinnedShips: Record<string, 'white' | 'red'> = {};
+  private pinnedShips: Record<string, ShipPin> = {};
   private doublePinnedShipId: string | null = null;
-  private currentRegion: 'Core Worlds' | 'Colonies' | 'Inner Rim' | 'Mid Rim' | 'Outer Rim' | 'Wild Space' | 'Unknown Regions' = 'Core Worlds';
+  private currentRegion: ShipRegion = 'Core Worlds';
   private listeners: Set<() => void> = new Set();
-  private socket: Socket | null = null;
+  private socket: ClientSocket | null = null;
   private room: string = 'default';
+  private stopUpdates: (() => void) | null = null;
 
-  // Organization list for ship designations
-  private readonly ORGANIZATIONS = [
-    "Imperial Galactic Governance Authority",
-    "Imperial Security & Intelligence Directorate",
-    "Imperial Inquisitorial Command",
-    "Sith High Command",
-    "Gerrera Resistance Movement",
-    "Mandalorian Death Watch",
-    "Mandalorian Children's Watch",
-    "Mandalorian Clan Alliance",
-    "Local Swoop Gang Networks",
-    "Hutt Cartel Crime Syndicate",
-    "Black Sun Criminal Enterprise",
-    "Pyke Syndicate Operations",
-    "Shadow Collective Alliance",
-    "Crymorah Syndicate Network",
-    "Zygerrian Slave Trade Empire",
-    "Kintan Striders Mercenary Group",
-    "Car'das Smuggling Consortium",
-    "Bounty Hunters' Guild Network",
-    "Czerka Arms Manufacturing",
-    "BlasTech Industrial Systems",
-    "Merr-Sonn Defense Solutions",
-    "Arakyd Industrial Technologies",
-    "Industrial Automaton Droidworks",
-    "Baktoid Combat Systems",
-    "Colla Design Collective",
-    "Tagge Industrial Mining Group",
-    "Techno Union Conglomerate",
-    "Haor Chall Engineering Corps",
-    "Santhe-Sienar Technologies Group",
-    "Sienar Fleet Systems Division",
-    "Kuat Drive Yards Shipbuilding",
-    "Kuat Systems Engineering Division",
-    "Rendili StarDrive Corporation",
-    "Corellian Engineering Works",
-    "Cygnus Spaceworks Limited",
-    "Loramarr Shipyards Consortium",
-    "Trade Federation Commerce Authority",
-    "InterGalactic Banking Federation",
-    "Corporate Alliance Board",
-    "Commerce Guild Trading Authority",
-    "Commerce Guild Executive Council",
-    "Mining Guild Extraction Services",
-    "Commerce Guild Security Forces",
-    "Arcona Mineral Resources Group",
-    "Dorvalla Mining Operations",
-    "Offworld Mining Corporation",
-    "SoroSuub Industrial Group",
-    "Commerce Guild Financial Services",
-    "Commerce Guild Arbitration Bureau",
-    "Kelris Industrial Tools & Supplies",
-    "Koensayr Equipment Distribution",
-    "Blarn Heavy Industrial Exchange",
-    "Reelo Modular Systems",
-    "Vyndra Commercial Trade Centers",
-    "Foshan Starport Retail Network",
-    "Crionex Consumer Markets",
-    "Qiraal Metalworks & Fabrication",
-    "Molvar Field Equipment Services",
-    "Polis Massa Scientific Procurement",
-    "Yarith Galactic Logistics",
-    "Caduceus Shipping Network",
-    "Dressem Cargo Systems",
-    "Trandoshan StarLift Services",
-    "Vandelhelm Bulk Transport",
-    "Yag'Dhul Route Navigation",
-    "Ylesia Freight Cooperative",
-    "Entralla Standard Shipping",
-    "Skako HydroLift Services",
-    "Bespin Tibanna Gas Solutions",
-    "Gentes ForgeFuel Refineries",
-    "Abhean Fuel Distribution",
-    "Kwenn Station Maintenance",
-    "Neimoidian Trade Commission",
-    "Zeltros Business Arbitration",
-    "Muunilinst Financial Compliance",
-    "Guild Standard Hostel Network",
-    "Bonadan MealStation Franchise",
-    "No Registered Designation"
-  ];
-
-  constructor() {
-    this.generateInitialShips();
-    this.startUpdateLoop();
-  }
-
-  // Initialize socket connection
-  setSocket(socket: Socket | null, room: string = 'default') {
+  // Follow the room's traffic on this socket (null stops following)
+  setSocket(socket: ClientSocket | null, room: string = 'default') {
     this.socket = socket;
     this.room = room;
-    this.broadcastShipData();
+
+    this.stopUpdates?.();
+    this.stopUpdates = socket && onServerEvent(socket, 'ship_data_update', (data) => {
+      if (data.room === this.room) this.update(data);
+    });
   }
 
   // Subscribe to ship data changes
@@ -124,7 +36,14 @@ export class ShipStore {
   // Notify all listeners of changes
   private notifyListeners() {
     this.listeners.forEach(listener => listener());
-    this.broadcastShipData();
+  }
+
+  private update(data: ShipDataUpdate) {
+    this.ships = data.ships;
+    this.pinnedShips = { ...data.pinnedShips };
+    this.doublePinnedShipId = data.doublePinnedShipId;
+    this.currentRegion = data.currentRegion;
+    this.notifyListeners();
   }
 
   // Get current ship data
@@ -132,7 +51,7 @@ export class ShipStore {
     return [...this.ships];
   }
 
-  getPinnedShips(): Record<string, 'white' | 'red'> {
+  getPinnedShips(): Record<string, ShipPin> {
     return { ...this.pinnedShips };
   }
 
@@ -140,196 +59,20 @@ export class ShipStore {
     return this.doublePinnedShipId;
   }
 
-  getCurrentRegion(): string {
+  getCurrentRegion(): ShipRegion {
     return this.currentRegion;
   }
 
-  // Update pinned ships
-  setPinnedShips(pinnedShips: Record<string, 'white' | 'red'>) {
-    this.pinnedShips = { ...pinnedShips };
-    this.notifyListeners();
-  }
-
-  // Update double pinned ship
-  setDoublePinnedShipId(shipId: string | null) {
-    this.doublePinnedShipId = shipId;
-    this.notifyListeners();
-  }
-
-  // Update current region
-  setCurrentRegion(region: 'Core Worlds' | 'Colonies' | 'Inner Rim' | 'Mid Rim' | 'Outer Rim' | 'Wild Space' | 'Unknown Regions') {
-    this.currentRegion = region;
-    this.generateInitialShips(); // Regenerate ships for new region
-    this.notifyListeners();
-  }
-
-  // Generate initial ships using Poisson distribution
-  private generateInitialShips() {
-    const params = this.calculateShipCount();
-    const count = Math.max(0, Math.round(params.target + (Math.random() - 0.5) * params.target * 0.3));
-    this.ships = Array.from({ length: count }, () => this.createShip([]));
-    this.notifyListeners();
-  }
-
-  // Create a new ship
-  private createShip(existingShips: Ship[] = []): Ship {
-    // Determine ship type with weighted probabilities
-    const typeRoll = Math.random();
-    let type: 'transient' | 'regular' | 'persistent';
-
-    if (typeRoll < 0.6) {
-      type = 'transient';  // 60% chance - short-lived
-    } else if (typeRoll < 0.95) {
-      type = 'regular';    // 35% chance - medium-lived
-    } else {
-      type = 'persistent'; // 5% chance - long-lived
-    }
-
-    // 30% chance to be in a convoy group
-    let groupId: string | undefined;
-    if (Math.random() < 0.3) {
-      // Check existing ships for possible grouping
-      if (existingShips.length > 0 && Math.random() < 0.7) {
-        const existingGroups = Array.from(new Set(
-          existingShips.map(s => s.groupId).filter((g): g is string => g !== undefined)
-        ));
-        groupId = existingGroups.length > 0
-          ? existingGroups[Math.floor(Math.random() * existingGroups.length)]
-          : `convoy-${Date.now()}-${Math.random()}`;
-      } else {
-        groupId = `convoy-${Date.now()}-${Math.random()}`;
-      }
-    }
-
-    return {
-      id: `${Date.now()}-${Math.random()}`,
-      designation: Math.random() < 0.77 ?
-        this.ORGANIZATIONS[Math.floor(Math.random() * this.ORGANIZATIONS.length)] :
-        null,
-      status: Math.random() < 0.7 ? 'Active' : 'Inactive',
-      entryTime: Date.now(),
-      type,
-      age: 0,
-      groupId
-    };
-  }
-
-  // Calculate region-specific ship parameters
-  private calculateShipCount(): { lambda: number; target: number } {
-    const regionParams = {
-      'Core Worlds': { lambda: 25, target: 250 },
-      'Colonies': { lambda: 12.5, target: 125 },
-      'Inner Rim': { lambda: 5.2, target: 52 },
-      'Mid Rim': { lambda: 1.5, target: 15 },
-      'Outer Rim': { lambda: 0.4, target: 4 },
-      'Wild Space': { lambda: 0.1, target: 1 },
-      'Unknown Regions': { lambda: 0.05, target: 0.5 }
-    };
-    return regionParams[this.currentRegion];
-  }
-
-  // Get base departure probability for ship type
-  private getBaseDepartureProbability(shipType: 'transient' | 'regular' | 'persistent'): number {
-    const departureProbabilities = {
-      transient: 0.3,
-      regular: 0.1,
-      persistent: 0.01
-    };
-    return departureProbabilities[shipType];
-  }
-
-  // Toggle ship status randomly
-  private toggleStatusRandomly(ship: Ship): Ship {
-    if (Math.random() < 0.05) { // 5% chance to toggle status
-      return {
-        ...ship,
-        status: ship.status === 'Active' ? 'Inactive' : 'Active'
-      };
-    }
-    return ship;
-  }
-
-  // Update ship list (called periodically)
-  private updateShipList() {
-    // Age existing ships
-    const agedShips = this.ships.map(ship => ({
-      ...ship,
-      age: ship.age + 1
-    }));
-
-    // Track departing convoy groups
-    const departingGroups = new Set<string>();
-
-    // Identify ships that want to depart
-    agedShips.forEach(ship => {
-      if (this.pinnedShips[ship.id]) return; // Skip pinned ships
-
-      const baseProbability = this.getBaseDepartureProbability(ship.type);
-      if (Math.random() < baseProbability && ship.groupId) {
-        departingGroups.add(ship.groupId);
-      }
-    });
-
-    // Filter ships that stay
-    const shipsThatStay = agedShips.filter(ship => {
-      if (this.pinnedShips[ship.id]) return true; // Always keep pinned ships
-
-      let departureProbability = this.getBaseDepartureProbability(ship.type);
-
-      // Increase departure chance if in departing convoy
-      if (ship.groupId && departingGroups.has(ship.groupId)) {
-        departureProbability *= 3;
-      }
-
-      return Math.random() > departureProbability;
-    }).map(ship => this.toggleStatusRandomly(ship));
-
-    // Calculate arrival rate based on region
-    const params = this.calculateShipCount();
-    const lambda = params.lambda;
-
-    // Generate Poisson-distributed arrivals
-    const newArrivals: Ship[] = [];
-    let k = 0;
-    let p = 1;
-    const L = Math.exp(-lambda);
-
-    do {
-      k++;
-      p *= Math.random();
-    } while (p > L);
-
-    // Generate new ships
-    for (let i = 0; i < k - 1; i++) {
-      newArrivals.push(this.createShip([...shipsThatStay, ...newArrivals]));
-    }
-
-    this.ships = [...shipsThatStay, ...newArrivals];
-    this.notifyListeners();
-  }
-
-  // Start the update loop
-  private startUpdateLoop() {
-    setInterval(() => {
-      this.updateShipList();
-    }, 5000); // Update every 5 seconds
+  // White pin on or off; pinned ships stay on sensors
+  pinShip(shipId: string, pinned: boolean) {
+    if (this.socket) emitToServer(this.socket, 'pin_ship', { room: this.room, shipId, pinned });
   }
 
-  // Broadcast ship data to other stations
-  private broadcastShipData() {
-    if (this.socket) {
-      this.socket.emit('ship_data_update', {
-        room: this.room,
-        ships: this.ships,
-        pinnedShips: this.pinnedShips,
-        doublePinnedShipId: this.doublePinnedShipId,
-        currentRegion: this.currentRegion,
-        source: 'ship_store',
-        timestamp: Date.now()
-      });
-    }
+  // Move the red pin to this ship, or clear it with null
+  doublePinShip(shipId: string | null) {
+    if (this.socket) emitToServer(this.socket, 'double_pin_ship', { room: this.room, shipId });
   }
 }
 
 // Create singleton instance
-export const shipStore = new ShipStore();
\ No newline at end of file
+export const shipStore = new ShipStore();
@@ -1,99 +1,450 @@
-// Game state types
-// Engineering-specific types
-export interface RepairTask {
-  id: string;
-  systemName: string;
-  damageType: 'minor' | 'major' | 'critical';
-  difficulty: number;
-  timeRequired: number;
-  progress: number;
-  assignedCrew: number;
-  juryRigged: boolean;
-}
-
-export interface SystemBoost {
-  id: string;
-  systemName: string;
-  boostType: 'performance' | 'efficiency' | 'output';
-  magnitude: number;
-  duration: number;
-  strainCost: number;
-  timeRemaining: number;
-}
-
-export interface SystemStatus {
-  health: number; // 0-100
-  efficiency: number; // 0-100
-  strain: number; // 0-100
-  damaged: boolean;
-  criticalDamage: boolean;
-  repairProgress?: number;
-}
-
-export interface GameState {
-  communications?: {
-    signalStrength: number;
-    interference: number;
-    primaryFrequency: number;
-    emergencyBeacon: boolean;
-    analysisMode?: string;
-  };
-  engineering?: {
-    powerDistribution: {
-      totalPower: number;
-      reactorOutput: number;
-      emergencyPower: boolean;
-      powerAllocations: {
-        weapons: number;
-        shields: number;
-        engines: number;
-        sensors: number;
-        lifeSupport: number;
-        communications: number;
-      };
-    };
-    systemStatus: {
-      [systemName: string]: SystemStatus;
-    };
-    repairQueue: RepairTask[];
-    activeBoosts: SystemBoost[];
-    emergencyProcedures: {
-      emergencyPowerActive: boolean;
-      emergencyShutdownActive: boolean;
-      lifeSupportPriority: boolean;
-    };
-  };
-  pilot?: {
-    heading: { x: number; y: number };
-    speed: number;
-    altitude: number;
-    hyperdriveStatus: 'ready' | 'charging' | 'jumping' | 'cooldown';
-  };
-  weapons?: {
-    targeting: {
-      currentTarget: string | null;
-      availableTargets: Array<{
-        id: string;
-        x: number;
-        y: number;
-        speed: number;
-        size: number;
-        heading: number;
-      }>;
-      lockStatus: 'none' | 'acquiring' | 'locked' | 'lost';
-    };
-    shields: {
-      front: number;
-      rear: number;
-      left: number;
-      right: number;
-    };
-    weaponsOnline: boolean;
-  };
-}
-
-export interface User {
-  station: string;
-  name: string;
-  socketId: string;
-}
\ No newline at end of file
+// Game state types
+// Engineering-specific types
+export interface RepairTask {
+  id: string;
+  systemName: string;
+  damageType: 'minor' | 'major' | 'critical';
+  difficulty: number;
+  timeRequired: number;
+  progress: number;
+  assignedCrew: number;
+  juryRigged: boolean;
+  criticalId?: string; // the critical hit this repair clears
+}
+
+export interface SystemBoost {
+  id: string;
+  systemName: string;
+  boostType: 'performance' | 'efficiency' | 'output';
+  magnitude: number;
+  duration: number;
+  strainCost: number;
+  timeRemaining: number;
+}
+
+// Lasting effects of a vehicle critical hit (src/criticals.ts), in force until its repair finishes
+export type CriticalEffect =
+  | 'system_strain' // a one-off strain spike, nothing lasting
+  | 'shields_weakened' // every shield arc holds less
+  | 'shield_arc_down' // one shield arc holds nothing
+  | 'sensors_damaged' // the radar reaches half as far
+  | 'comms_band_lost' // Comms cannot tune inside one frequency band
+  | 'weapon_mount_lost' // one of the ship's weapons cannot fire
+  | 'navicomputer_failure' // no hyperspace jumps can be plotted
+  | 'power_fluctuation' // the reactor delivers less
+  | 'engines_damaged' // lower top speed
+  | 'hyperdrive_damaged' // the hyperdrive cannot charge
+  | 'fire' // the system keeps burning down
+  | 'system_failure'; // the system gets no power at all
+
+export interface ActiveCritical {
+  id: string;
+  entry: string; // critical table entry id
+  name: string;
+  roll: number; // d100 plus modifiers; 0 when the GM picked the entry
+  system: PowerSystem;
+  effect: CriticalEffect;
+  arc?: FiringArc; // shield_arc_down
+  weapon?: string; // weapon_mount_lost
+  band?: { min: number; max: number }; // comms_band_lost, MHz
+  repairTaskId: string;
+  timestamp: number;
+}
+
+export interface SystemStatus {
+  health: number; // 0-100
+  efficiency: number; // 0-100
+  strain: number; // 0-100
+  damaged: boolean;
+  criticalDamage: boolean;
+  repairProgress?: number;
+}
+
+// Ship stat blocks from the vehicle database (data/vehicles.json)
+export type FiringArc = 'fore' | 'aft' | 'port' | 'starboard';
+export type RangeBand = 'Close' | 'Short' | 'Medium' | 'Long' | 'Extreme';
+export type VehicleCategory = 'starfighter' | 'shuttle' | 'freighter' | 'yacht' | 'transport' | 'cruiser' | 'corvette' | 'frigate' | 'capital';
+
+export interface VehicleWeapon {
+  name: string;
+  arcs: FiringArc[];
+  count?: number; // identical mounts, default 1
+  linked?: number;
+}
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  category: VehicleCategory;
+  silhouette: number;
+  speed: number;
+  handling: number;
+  // Silhouette 4 and below only have fore and aft zones; their port and starboard repeat fore
+  defense: Record<FiringArc, number>;
+  armor: number;
+  hullTrauma: number;
+  systemStrain: number;
+  sensorRange: RangeBand;
+  hardpoints: number;
+  crew: string;
+  passengers: number;
+  encumbrance: number;
+  cost: number;
+  weapons: VehicleWeapon[];
+  // Only hulls the crew can fly carry one
+  profile?: ShipProfile;
+}
+
+// What a player ship can hold and power; every station takes its limits from it
+export interface ShipProfile {
+  reactorOutput: number; // power units at full output
+  shieldArcs: FiringArc[]; // arcs covered by shield projectors
+  hyperdrive: { primary: number; backup: number | null }; // hyperdrive classes, lower is faster
+  fuelCapacity: number;
+  hypermatterCapacity: number;
+  missileMagazine: number;
+  droids: number; // repair droid complement
+  // Weapons fitted when the ship is chosen
+  loadout: WeaponLoadout;
+}
+
+export interface WeaponLoadout {
+  primary: string[];
+  secondary: string[];
+}
+
+// Ship weapon catalogue parsed by the server (data/weapons.csv)
+export type WeaponQuality =
+  | 'Accurate' | 'Auto-fire' | 'Blast' | 'Breach' | 'Disorient' | 'Ensnare' | 'Guided'
+  | 'Inaccurate' | 'Ion' | 'Limited Ammo' | 'Linked' | 'Slow-Firing' | 'Tractor';
+
+// How the Weapons station fires it, derived from the catalogue stats
+export interface WeaponSimStats {
+  heat: number; // heat added per shot
+  damage: number; // damage per bolt against a contact
+  spread: number; // aim tolerance in canvas pixels
+  shieldMult: number;
+  hullMult: number;
+  requiresLock: boolean; // Guided weapons need a target lock
+  usesMissiles: boolean; // Limited Ammo weapons draw from the missile magazine
+  bolts: number; // Linked weapons fire extra bolts per shot
+  cooldown: number; // seconds between shots, from Slow-Firing
+}
+
+export interface WeaponRecord {
+  name: string;
+  type: string;
+  damage: number | null; // null for weapons that do no damage (tractor beams, nets)
+  crit: number | null;
+  range: RangeBand;
+  silhouette: number; // smallest silhouette that can mount it
+  price: number;
+  restricted: boolean;
+  rarity: number;
+  special: string; // the catalogue's special column as written
+  qualities: Partial<Record<WeaponQuality, number>>; // rated qualities; unrated ones count as 1
+  sim: WeaponSimStats;
+}
+
+// How a hostile contact fights: circle and fire, close in, break off, or work one shield arc
+export type HostileBehavior = 'strafe' | 'pursue' | 'flee' | 'focus';
+
+// A point (km) or velocity (km/s) in local space; see src/space.ts
+export interface SpaceVector {
+  x: number;
+  y: number;
+}
+
+// Weapons contacts tracked by the server simulation
+export interface EnemyShip {
+  id: string;
+  x: number; // radar bearing from the crew's ship in degrees (0-360), from position
+  y: number; // radar range from the crew's ship (0-100 spans the scope), from position
+  position: SpaceVector;
+  velocity: SpaceVector;
+  heading: number; // degrees clockwise, 0 = up the scope
+  speed: number;
+  size: number;
+  hp: number;
+  shields: number;
+  ecmFreq: number;
+  alive: boolean;
+  wreck: boolean;
+  salvageProgress: number;
+  salvaged?: boolean;
+  faction?: 'enemy' | 'ally' | 'neutral';
+  vehicle?: string; // vehicle database id, when spawned from one
+  waypoint?: SpaceVector & { reachTime: number }; // the local-space point it is flying to
+  maxHp?: number; // hit points at spawn
+  // Hostile AI, enemy contacts only
+  behavior?: HostileBehavior;
+  focusArc?: FiringArc; // the crew's shield arc a 'focus' attacker works on
+  weaponTimer?: number; // seconds until it fires again
+}
+
+// Sensor traffic simulated per room by the server
+export type ShipRegion = 'Core Worlds' | 'Colonies' | 'Inner Rim' | 'Mid Rim' | 'Outer Rim' | 'Wild Space' | 'Unknown Regions';
+export type ShipPin = 'white' | 'red';
+
+export interface Ship {
+  id: string;
+  designation: string | null;
+  status: 'Active' | 'Inactive';
+  entryTime: number;
+  type: 'transient' | 'regular' | 'persistent';
+  age: number;
+  groupId?: string;
+  vehicle: string; // vehicle database id
+  position: SpaceVector;
+  velocity: SpaceVector;
+}
+
+// Pinned ships never depart; only one ship at a time may carry the red (double) pin
+export interface ShipTraffic {
+  ships: Ship[];
+  pinnedShips: Record<string, ShipPin>;
+  doublePinnedShipId: string | null;
+  currentRegion: ShipRegion;
+}
+
+// Galaxy map from the galaxy database (data/galaxy.json). x and y are galactic
+// grid squares: column A = 1, row 1 = 1, so Coruscant at L-9 sits at 12, 9.
+export interface GalaxySystem {
+  id: string;
+  name: string;
+  region: ShipRegion;
+  x: number;
+  y: number;
+}
+
+// A hyperlane runs through its systems in order
+export interface Hyperlane {
+  name: string;
+  systems: string[];
+}
+
+export interface Galaxy {
+  systems: GalaxySystem[];
+  hyperlanes: Hyperlane[];
+}
+
+// One jump of a plotted route: a run along one hyperlane, or a single hop off the lanes
+export interface RouteLeg {
+  from: string; // system ids
+  to: string;
+  lane: string | null; // null for an uncharted hop
+  stops: string[]; // every system the leg passes, from and to included
+  distance: number; // parsecs
+  hours: number;
+  hypermatter: number; // tons
+}
+
+export interface PlottedRoute {
+  destination: string; // system id
+  legs: RouteLeg[]; // jumps still to make; the first is next
+  distance: number; // totals for the legs left
+  hours: number;
+  hypermatter: number;
+}
+
+export interface PowerAllocations {
+  weapons: number;
+  shields: number;
+  engines: number;
+  sensors: number;
+  lifeSupport: number;
+  communications: number;
+}
+
+export type PowerSystem = keyof PowerAllocations;
+
+// What each system's effective power does at the other stations (src/power.ts)
+export interface PowerEffects {
+  effectivePower: PowerAllocations; // 100 = nominal
+  weapons: { heatDissipation: number; fireRate: number }; // multipliers, 1 = nominal
+  engines: { maxSpeed: number; turnRate: number }; // top sublight speed (0-100), turn multiplier
+  shields: { regen: number }; // recharge multiplier
+  sensors: { radarRange: number }; // furthest radar range contacts show at (0-100)
+  communications: { signalFloor: number; signalCeiling: number }; // signal strength bounds
+}
+
+// Seat names used when joining a room ('pilot' is the join screen's name for navigation)
+export type StationName = 'communications' | 'engineering' | 'navigation' | 'pilot' | 'weapons' | 'gm';
+
+// Where the crew's ship stands against its vehicle's hull trauma and system strain thresholds
+export type ShipCondition = 'operational' | 'disabled' | 'destroyed';
+
+// The jump sequence: plot coordinates, charge, jump, then cool down
+export type HyperdriveStatus = 'ready' | 'plotting' | 'plotted' | 'charging' | 'jumping' | 'cooldown';
+
+export type NavigationHazardType = 'asteroid_field' | 'gravity_well' | 'ion_storm' | 'solar_flare';
+
+// The Astrogation check behind the plotted coordinates
+export interface AstrogationPlot {
+  difficulty: number;
+  succeeded: boolean;
+  summary: string; // the net symbols, as read out at the table
+  etaFactor: number; // jump time multiplier from advantage, threat and triumph
+  misjumpTo: string | null; // a despair sends the jump to this system instead
+}
+
+// How the last jump ended
+export interface JumpResult {
+  outcome: 'arrived' | 'misjump' | 'pulled_out';
+  system: string;
+  timestamp: number;
+}
+
+// Pilot-only starship manoeuvres (see maneuvers.ts)
+export type ManeuverName =
+  | 'accelerate'
+  | 'decelerate'
+  | 'fly'
+  | 'evasive'
+  | 'stay_on_target'
+  | 'punch_it'
+  | 'gain_the_advantage'
+  | 'angle_shields';
+
+// Manoeuvres the helm holds for a round once flown
+export type HelmStance = 'evasive' | 'stay_on_target';
+
+// The helm's manoeuvres this combat round and what they leave in play
+export interface ManeuverState {
+  stance: HelmStance | null;
+  stanceTimer: number; // seconds until the stance lapses
+  advantage: number; // seconds the crew keeps the advantage
+  flown: number; // manoeuvres flown this round
+  roundTimer: number; // seconds left in the round
+}
+
+export interface GameState {
+  // The crew's own ship
+  ship?: {
+    vehicle: string;
+    hullTrauma: number; // taken so far; destroyed past the vehicle's hullTrauma
+    systemStrain: number; // taken so far; disabled past the vehicle's systemStrain
+    condition: ShipCondition;
+    strainVentTimer: number; // seconds until Engineering can vent strain again
+  };
+  // Worked out by the server from Engineering's allocations every tick
+  powerEffects?: PowerEffects;
+  communications?: {
+    signalStrength: number;
+    interference: number;
+    primaryFrequency: number;
+    emergencyBeacon: boolean;
+    analysisMode?: string;
+  };
+  engineering?: {
+    powerDistribution: {
+      totalPower: number;
+      reactorOutput: number;
+      emergencyPower: boolean;
+      powerAllocations: PowerAllocations;
+    };
+    systemStatus: {
+      [systemName: string]: SystemStatus;
+    };
+    repairQueue: RepairTask[];
+    repairTimer: number; // seconds until the next droid repair check
+    criticals: ActiveCritical[];
+    activeBoosts: SystemBoost[];
+    emergencyProcedures: {
+      emergencyPowerActive: boolean;
+      emergencyShutdownActive: boolean;
+      lifeSupportPriority: boolean;
+    };
+  };
+  pilot?: {
+    heading: { x: number; y: number };
+    speed: number;
+    position: SpaceVector; // the crew's ship in local space
+    velocity: SpaceVector; // from the heading and speed
+    altitude: number;
+    alert: 'normal' | 'yellow' | 'red';
+    hyperdriveStatus: HyperdriveStatus;
+    fuelLevel: number;
+    shieldStatus: number;
+    engineTemp: number;
+    navigationComputer: {
+      targetSystem: string;
+      jumpDistance: number;
+      eta: number;
+    };
+    autopilot: boolean;
+    emergencyPower: boolean;
+    hypermatter: {
+      current: number;
+      maximum: number;
+      consumptionRate: number;
+    };
+    jumpPlanning: {
+      duration: number;
+      hypermatterRequired: number;
+      isPlanning: boolean;
+    };
+    hyperdriveTimer: number; // seconds left in the current hyperdrive phase
+    alertTimer: number; // seconds until the alert resets, 0 = latched
+    currentSystem: string; // galaxy system id the ship is in
+    route: PlottedRoute | null; // the navicomputer's plotted course, flown one leg per jump
+    astrogation: AstrogationPlot | null; // the coordinates for the next jump
+    jumpTime: number; // seconds the jump in progress lasts
+    interdicted: boolean; // a GM interdiction field holds the ship in realspace
+    hazard: { type: NavigationHazardType; intensity: string } | null;
+    hazardTimer: number; // seconds until the hazard passes
+    lastJump: JumpResult | null;
+    maneuvers: ManeuverState;
+  };
+  weapons?: {
+    targeting: {
+      currentTarget: string | null;
+      availableTargets: Array<{
+        id: string;
+        x: number;
+        y: number;
+        speed: number;
+        size: number;
+        heading: number;
+      }>;
+      lockStatus: 'none' | 'acquiring' | 'locked' | 'lost';
+    };
+    shields: {
+      front: number;
+      rear: number;
+      left: number;
+      right: number;
+    };
+    // Capacity the crew has angled into (+) or out of (-) each quadrant
+    shieldAngles: {
+      front: number;
+      rear: number;
+      left: number;
+      right: number;
+    };
+    weaponsOnline: boolean;
+    enemies: EnemyShip[];
+    missiles: number;
+    heatSinks: number;
+  };
+}
+
+// A dropped seat stays 'reconnecting' for a grace period so its player can reclaim it
+export type SeatStatus = 'online' | 'reconnecting';
+
+export interface User {
+  station: StationName;
+  name: string;
+  socketId: string;
+  status: SeatStatus;
+}
+
+// Room listing sent with rooms_update
+export interface RoomSummary {
+  name: string;
+  crew: number;
+  stations: string[];
+  archived: boolean;
+  createdAt: number;
+  gmLocked: boolean;
+}